@@ -0,0 +1,21 @@
+-- Create generation jobs table
+CREATE TABLE IF NOT EXISTS generation_jobs (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NOT NULL,
+  status ENUM('queued', 'running', 'completed', 'failed') NOT NULL DEFAULT 'queued',
+  input JSON NOT NULL,
+  title VARCHAR(255),
+  panels JSON,
+  completed_panels INT NOT NULL DEFAULT 0,
+  total_panels INT NOT NULL DEFAULT 5,
+  error TEXT,
+  attempts INT NOT NULL DEFAULT 0,
+  locked_by VARCHAR(100),
+  locked_at TIMESTAMP NULL,
+  completed_at TIMESTAMP NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_user_id (user_id),
+  INDEX idx_status_created_at (status, created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,3 @@
+-- Add page layout template to comics (existing comics use the five-panel classic layout)
+ALTER TABLE comics
+  ADD COLUMN layout VARCHAR(50) NOT NULL DEFAULT 'classic-5' AFTER source_type;
@@ -0,0 +1,37 @@
+-- Create comic pages table (a comic is made of one or more pages, each with its own panels)
+CREATE TABLE IF NOT EXISTS comic_pages (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  comic_id INT NOT NULL,
+  page_number INT NOT NULL,
+  chapter_title VARCHAR(255),
+  layout VARCHAR(50) NOT NULL DEFAULT 'classic-5',
+  panels JSON NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  FOREIGN KEY (comic_id) REFERENCES comics(id) ON DELETE CASCADE,
+  UNIQUE KEY uniq_comic_page (comic_id, page_number)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Existing single-page comics become page 1
+INSERT INTO comic_pages (comic_id, page_number, layout, panels)
+SELECT id, 1, layout, panels FROM comics;
+
+-- comics.layout remains as the default layout for new pages
+ALTER TABLE comics DROP COLUMN panels;
+
+-- Generation jobs produce pages, and page jobs append to an existing comic
+ALTER TABLE generation_jobs
+  ADD COLUMN kind ENUM('comic', 'page') NOT NULL DEFAULT 'comic' AFTER user_id,
+  ADD COLUMN comic_id INT NULL AFTER kind,
+  ADD COLUMN pages JSON AFTER title,
+  ADD CONSTRAINT fk_generation_jobs_comic FOREIGN KEY (comic_id) REFERENCES comics(id) ON DELETE CASCADE;
+
+UPDATE generation_jobs
+SET pages = JSON_ARRAY(JSON_OBJECT(
+  'pageNumber', 1,
+  'layout', COALESCE(JSON_UNQUOTE(JSON_EXTRACT(input, '$.layout')), 'classic-5'),
+  'panels', panels
+))
+WHERE panels IS NOT NULL;
+
+ALTER TABLE generation_jobs DROP COLUMN panels;
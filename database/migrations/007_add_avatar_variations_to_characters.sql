@@ -0,0 +1,3 @@
+-- Keep the generated avatar variations a user can pick a character's avatar from
+ALTER TABLE characters
+  ADD COLUMN avatar_variations JSON NULL AFTER avatar_image;
@@ -0,0 +1,5 @@
+-- Allow several reference photos per character (reference_image stays the primary one)
+ALTER TABLE characters
+  ADD COLUMN reference_images JSON NULL AFTER reference_image;
+
+UPDATE characters SET reference_images = JSON_ARRAY(reference_image) WHERE reference_images IS NULL;
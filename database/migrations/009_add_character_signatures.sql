@@ -0,0 +1,6 @@
+-- Store each character's visual signature (outfit, hair, colors, accessories) written by the script
+ALTER TABLE comics
+  ADD COLUMN character_signatures JSON NULL AFTER character_ids;
+
+ALTER TABLE generation_jobs
+  ADD COLUMN character_signatures JSON NULL AFTER pages;
@@ -0,0 +1,31 @@
+-- Create panel revisions table: every change to a panel's image, scene or narration.
+-- Panels changed together share a comic-wide revision number.
+CREATE TABLE IF NOT EXISTS panel_revisions (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  comic_id INT NOT NULL,
+  revision INT NOT NULL,
+  source ENUM('original', 'created', 'generated', 'manual', 'regenerate', 'rewrite', 'edit', 'revert') NOT NULL,
+  page_number INT NOT NULL,
+  panel_key VARCHAR(20) NOT NULL,
+  scene TEXT,
+  narration TEXT,
+  image_url MEDIUMTEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (comic_id) REFERENCES comics(id) ON DELETE CASCADE,
+  UNIQUE KEY uniq_comic_revision_panel (comic_id, revision, page_number, panel_key),
+  INDEX idx_comic_panel (comic_id, page_number, panel_key)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Existing comics start with their current panels as revision 1
+INSERT INTO panel_revisions (comic_id, revision, source, page_number, panel_key, scene, narration, image_url)
+SELECT
+  p.comic_id,
+  1,
+  'original',
+  p.page_number,
+  k.panel_key,
+  JSON_UNQUOTE(JSON_EXTRACT(p.panels, CONCAT('$.', k.panel_key, '.scene'))),
+  JSON_UNQUOTE(JSON_EXTRACT(p.panels, CONCAT('$.', k.panel_key, '.narration'))),
+  JSON_UNQUOTE(JSON_EXTRACT(p.panels, CONCAT('$.', k.panel_key, '.imageUrl')))
+FROM comic_pages p
+JOIN JSON_TABLE(JSON_KEYS(p.panels), '$[*]' COLUMNS (panel_key VARCHAR(20) PATH '$')) k;
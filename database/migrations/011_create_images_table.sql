@@ -0,0 +1,53 @@
+-- Create images table: one row per stored image file, with its owner and content details
+CREATE TABLE IF NOT EXISTS images (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NULL,
+  path VARCHAR(500) NOT NULL,
+  size INT NULL,
+  mime_type VARCHAR(50) NULL,
+  hash CHAR(64) NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+  UNIQUE KEY uniq_path (path),
+  INDEX idx_user_id (user_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Which comics use each image, as reference photo, panel or panel revision
+CREATE TABLE IF NOT EXISTS comic_images (
+  comic_id INT NOT NULL,
+  image_id INT NOT NULL,
+  PRIMARY KEY (comic_id, image_id),
+  FOREIGN KEY (comic_id) REFERENCES comics(id) ON DELETE CASCADE,
+  FOREIGN KEY (image_id) REFERENCES images(id) ON DELETE CASCADE,
+  INDEX idx_image_id (image_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Existing images belong to the owner of the comic or character that uses them.
+-- Panel revisions include every current panel, so comic_pages need no separate pass.
+-- Size, MIME type and hash are filled in by `npm run index-images`.
+INSERT IGNORE INTO images (user_id, path)
+SELECT user_id, original_image FROM comics WHERE original_image LIKE 'images/%'
+UNION
+SELECT c.user_id, r.image_url
+FROM panel_revisions r
+JOIN comics c ON c.id = r.comic_id
+WHERE r.image_url LIKE 'images/%'
+UNION
+SELECT user_id, reference_image FROM characters WHERE reference_image LIKE 'images/%'
+UNION
+SELECT user_id, avatar_image FROM characters WHERE avatar_image LIKE 'images/%'
+UNION
+SELECT ch.user_id, j.path
+FROM characters ch
+JOIN JSON_TABLE(COALESCE(ch.reference_images, JSON_ARRAY()), '$[*]' COLUMNS (path VARCHAR(500) PATH '$')) j
+WHERE j.path LIKE 'images/%'
+UNION
+SELECT ch.user_id, j.path
+FROM characters ch
+JOIN JSON_TABLE(COALESCE(ch.avatar_variations, JSON_ARRAY()), '$[*]' COLUMNS (path VARCHAR(500) PATH '$')) j
+WHERE j.path LIKE 'images/%';
+
+INSERT IGNORE INTO comic_images (comic_id, image_id)
+SELECT c.id, i.id FROM comics c JOIN images i ON i.path = c.original_image
+UNION
+SELECT r.comic_id, i.id FROM panel_revisions r JOIN images i ON i.path = r.image_url;
@@ -0,0 +1,3 @@
+-- Per-user storage quota in bytes; NULL uses the server default (USER_STORAGE_QUOTA_MB)
+ALTER TABLE users
+  ADD COLUMN storage_quota_bytes BIGINT NULL AFTER phone;
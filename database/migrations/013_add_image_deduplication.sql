@@ -0,0 +1,29 @@
+-- Images are stored once per content hash; every user who uploaded the same bytes owns it.
+-- images.user_id stays as the first uploader.
+ALTER TABLE images
+  ADD INDEX idx_hash (hash);
+
+CREATE TABLE IF NOT EXISTS image_owners (
+  image_id INT NOT NULL,
+  user_id INT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (image_id, user_id),
+  FOREIGN KEY (image_id) REFERENCES images(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  INDEX idx_user_id (user_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+INSERT IGNORE INTO image_owners (image_id, user_id)
+SELECT id, user_id FROM images WHERE user_id IS NOT NULL;
+
+-- Model results computed from an image (e.g. face analysis), keyed by the image's content hash
+CREATE TABLE IF NOT EXISTS image_result_cache (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  image_hash CHAR(64) NOT NULL,
+  operation VARCHAR(50) NOT NULL,
+  params_hash CHAR(64) NOT NULL,
+  result JSON NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uniq_image_operation (image_hash, operation, params_hash),
+  INDEX idx_created_at (created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,2 @@
+-- Keep each panel revision's dialogue (speech and thought bubble lines) alongside its narration
+ALTER TABLE panel_revisions ADD COLUMN dialogue JSON NULL AFTER narration;
@@ -0,0 +1,17 @@
+-- Email verification state; existing users count as verified
+ALTER TABLE users ADD COLUMN email_verified_at TIMESTAMP NULL AFTER phone;
+UPDATE users SET email_verified_at = created_at;
+
+-- Single-use tokens sent by email (verification and password reset links), stored as SHA-256 hashes
+CREATE TABLE IF NOT EXISTS account_tokens (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  user_id INT NOT NULL,
+  purpose ENUM('verify-email', 'reset-password') NOT NULL,
+  token_hash CHAR(64) NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+  UNIQUE KEY uniq_token_hash (token_hash),
+  INDEX idx_user_purpose (user_id, purpose)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -0,0 +1,4 @@
+-- Email change links: the token holds the new address until it is confirmed
+ALTER TABLE account_tokens
+  MODIFY COLUMN purpose ENUM('verify-email', 'reset-password', 'change-email') NOT NULL,
+  ADD COLUMN email VARCHAR(255) NULL AFTER purpose;
@@ -0,0 +1,7 @@
+-- Rate limit counters and login lockouts, shared by every server instance (RATE_LIMIT_STORE=database)
+CREATE TABLE IF NOT EXISTS rate_limits (
+  bucket_key VARCHAR(128) PRIMARY KEY,
+  count INT NOT NULL DEFAULT 0,
+  expires_at TIMESTAMP(3) NOT NULL,
+  INDEX idx_expires_at (expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
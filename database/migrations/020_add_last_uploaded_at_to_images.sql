@@ -0,0 +1,4 @@
+-- When identical content was last uploaded again, so the cleanup sweep keeps a
+-- deduplicated file that a client is about to save
+ALTER TABLE images
+  ADD COLUMN last_uploaded_at TIMESTAMP NULL DEFAULT NULL;
@@ -20,6 +20,9 @@ const DB_NAME = process.env.DB_NAME || 'comic_generator';
 
 const migrationsDir = join(__dirname, '..', 'database', 'migrations');
 
+const mysql = (args, options = {}) =>
+  execSync(`mysql -u ${DB_USER} -p${DB_PASSWORD} -h ${DB_HOST} -P ${DB_PORT} ${args}`, options);
+
 console.log('🚀 Starting database migrations...\n');
 
 // Create database if it doesn't exist
@@ -35,6 +38,24 @@ try {
   process.exit(1);
 }
 
+// Track applied migrations so non-idempotent ones (e.g. ALTER TABLE) only run once
+try {
+  mysql(
+    `${DB_NAME} -e "CREATE TABLE IF NOT EXISTS schema_migrations (filename VARCHAR(255) PRIMARY KEY, applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP);"`,
+    { stdio: 'inherit' }
+  );
+} catch (error) {
+  console.error('❌ Failed to create schema_migrations table:', error.message);
+  process.exit(1);
+}
+
+const appliedMigrations = new Set(
+  mysql(`-N ${DB_NAME} -e "SELECT filename FROM schema_migrations;"`, { encoding: 'utf-8' })
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+);
+
 // Get all migration files sorted
 const migrationFiles = readdirSync(migrationsDir)
   .filter(file => file.endsWith('.sql'))
@@ -50,13 +71,17 @@ console.log(`📋 Found ${migrationFiles.length} migration file(s)\n`);
 // Run each migration
 for (const file of migrationFiles) {
   const filePath = join(migrationsDir, file);
+
+  if (appliedMigrations.has(file)) {
+    console.log(`⏭️  Already applied: ${file}`);
+    continue;
+  }
+
   console.log(`🔄 Running migration: ${file}`);
   
   try {
-    execSync(
-      `mysql -u ${DB_USER} -p${DB_PASSWORD} -h ${DB_HOST} -P ${DB_PORT} ${DB_NAME} < "${filePath}"`,
-      { stdio: 'inherit' }
-    );
+    mysql(`${DB_NAME} < "${filePath}"`, { stdio: 'inherit' });
+    mysql(`${DB_NAME} -e "INSERT INTO schema_migrations (filename) VALUES ('${file}');"`, { stdio: 'inherit' });
     console.log(`✅ Completed: ${file}\n`);
   } catch (error) {
     console.error(`❌ Failed to run migration ${file}:`, error.message);
@@ -33,7 +33,10 @@ DB_NAME=comic_generator
 # Generate a secure secret with:
 # node -e "console.log(require('crypto').randomBytes(32).toString('hex'))"
 JWT_SECRET=your_super_secret_jwt_key_change_this_in_production_use_a_long_random_string
-JWT_EXPIRES_IN=7d
+# Lifetime of access tokens; clients renew them with their refresh token
+JWT_EXPIRES_IN=15m
+# Days a login session lasts without being refreshed
+REFRESH_TOKEN_EXPIRES_DAYS=30
 
 # ============================================
 # Google Gemini API Configuration
@@ -42,6 +45,25 @@ JWT_EXPIRES_IN=7d
 # or https://aistudio.google.com/app/apikey
 API_KEY=your_gemini_api_key_here
 
+# ============================================
+# Generation Provider
+# ============================================
+# "gemini" (default) or "mock" for offline development and CI
+# The mock provider returns canned scripts and placeholder images
+GENERATION_PROVIDER=gemini
+MOCK_PROVIDER_DELAY_MS=0
+
+# ============================================
+# Generation Job Worker
+# ============================================
+JOB_CONCURRENCY=2
+JOB_POLL_INTERVAL_MS=2000
+JOB_LOCK_TIMEOUT_SECONDS=120
+JOB_MAX_ATTEMPTS=3
+
+# Maximum number of pages in one comic
+MAX_COMIC_PAGES=10
+
 # ============================================
 # CORS Configuration
 # ============================================
@@ -52,10 +74,117 @@ FRONTEND_URL=http://localhost:3000
 # ============================================
 # Backend URL Configuration
 # ============================================
-# Backend URL for generating full image URLs
+# Backend URL for generating full image URLs with local storage
 # This should be the public URL of your backend (e.g., https://api.mycomic.online)
-# If not set, defaults to https://api.mycomic.online
+# If not set, defaults to http://localhost:PORT
 BACKEND_URL=https://api.mycomic.online
+
+# ============================================
+# Image Storage
+# ============================================
+# "local" (default): files in UPLOADS_DIR (default ./uploads), served at /uploads
+# "s3": an S3-compatible bucket (AWS S3, MinIO, R2, ...)
+STORAGE_DRIVER=local
+# UPLOADS_DIR=./uploads
+# S3_BUCKET=comic-images
+# S3_REGION=us-east-1
+# S3_ACCESS_KEY_ID=
+# S3_SECRET_ACCESS_KEY=
+# Endpoint of S3-compatible services, e.g. http://localhost:9000 for MinIO (uses path-style URLs)
+# S3_ENDPOINT=
+# S3_FORCE_PATH_STYLE=true
+# Public bucket or CDN base URL; without it image URLs are presigned
+# S3_PUBLIC_URL=
+# S3_URL_EXPIRES_SECONDS=86400
+
+# ============================================
+# Image Processing
+# ============================================
+# Longest side in pixels of images sent to the model (larger photos are downscaled)
+MODEL_IMAGE_MAX_DIMENSION=1536
+# "false" to skip thumbnail (320px) and medium (1024px) renditions
+# IMAGE_RENDITIONS=true
+# Extra formats stored next to each image, comma-separated: webp, avif
+# IMAGE_VARIANT_FORMATS=webp
+
+# ============================================
+# Image Cleanup and Quotas
+# ============================================
+# Unused images older than this are deleted by the cleanup sweep
+IMAGE_CLEANUP_GRACE_HOURS=24
+# How often the server sweeps for unused images (0 to disable; run npm run cleanup-images instead)
+IMAGE_CLEANUP_INTERVAL_HOURS=24
+# Default storage quota per user in MB (0 for unlimited); users.storage_quota_bytes overrides it
+USER_STORAGE_QUOTA_MB=1024
+
+# ============================================
+# Image Result Cache
+# ============================================
+# Hours to reuse model results (e.g. face analysis) for the same image content (0 to disable)
+RESULT_CACHE_TTL_HOURS=168
+
+# ============================================
+# Comic Export
+# ============================================
+# Width in pixels of pages exported as PNG
+EXPORT_PAGE_WIDTH=1600
+# Resolution of page images in print PDFs
+EXPORT_PRINT_DPI=300
+
+# ============================================
+# Lettering
+# ============================================
+# Font for captions and bubbles (defaults to the bundled assets/fonts/ComicNeue-Bold.ttf)
+# LETTERING_FONT_FILE=/usr/share/fonts/truetype/my-comic-font.ttf
+# LETTERING_FONT_FAMILY=My Comic Font Bold
+
+# ============================================
+# Email
+# ============================================
+# Where account emails go: "file" (.eml files in MAIL_DIR) or "console" (server log)
+MAIL_TRANSPORT=file
+# MAIL_DIR=./mail
+MAIL_FROM=Comic Generator <no-reply@localhost>
+# Lifetime of email verification and password reset links
+EMAIL_VERIFICATION_EXPIRES_HOURS=48
+PASSWORD_RESET_EXPIRES_MINUTES=60
+
+# ============================================
+# OpenID Connect Login
+# ============================================
+# Sign-in with an external identity provider (off unless issuer and client id are set).
+# For local testing, point OIDC_ISSUER at a mock OIDC server.
+# OIDC_ISSUER=https://accounts.google.com
+# OIDC_CLIENT_ID=your_client_id
+# OIDC_CLIENT_SECRET=your_client_secret
+# Frontend page the provider redirects to (defaults to FRONTEND_URL/auth/callback)
+# OIDC_REDIRECT_URI=http://localhost:3000/auth/callback
+# OIDC_SCOPES=openid email profile
+
+# ============================================
+# Rate Limits
+# ============================================
+# Where counters live: "memory" (per server process) or "database" (shared by all instances)
+RATE_LIMIT_STORE=memory
+# Behind a reverse proxy, trust X-Forwarded-For for client IPs ("true", hop count or proxy addresses)
+# TRUST_PROXY=1
+# Auth requests per IP and password reset requests per email, per window (0 turns a limit off)
+RATE_LIMIT_AUTH_IP_MAX=30
+RATE_LIMIT_AUTH_ACCOUNT_MAX=10
+RATE_LIMIT_AUTH_WINDOW_MINUTES=15
+# Generation (comics, panels, avatars) and image edit requests per user, per window
+RATE_LIMIT_GENERATION_MAX=20
+RATE_LIMIT_GENERATION_WINDOW_MINUTES=60
+RATE_LIMIT_IMAGE_EDIT_MAX=40
+RATE_LIMIT_IMAGE_EDIT_WINDOW_MINUTES=60
+# Failed logins for an email from one IP before it is locked there; each further failure doubles the lockout
+LOGIN_LOCKOUT_THRESHOLD=5
+# Failed logins for an email from any IPs before it is locked for IPs it has not logged in from recently
+LOGIN_ACCOUNT_LOCKOUT_THRESHOLD=20
+LOGIN_LOCKOUT_MINUTES=1
+LOGIN_LOCKOUT_MAX_MINUTES=60
+# Days an IP an account logged in from stays exempt from its account-wide lockout
+LOGIN_KNOWN_IP_DAYS=30
 `;
 
 const envPath = path.join(__dirname, '.env');
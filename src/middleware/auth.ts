@@ -1,16 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { isSessionActive } from '../services/sessions.js';
 
 export interface AuthRequest extends Request {
   userId?: string;
   userEmail?: string;
+  sessionId?: string;
 }
 
-export const authenticateToken = (
+export const authenticateToken = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
 
@@ -25,13 +27,28 @@ export const authenticateToken = (
     return;
   }
 
+  let decoded: { userId: string; email: string; sessionId?: string };
   try {
-    const decoded = jwt.verify(token, jwtSecret) as { userId: string; email: string };
-    req.userId = decoded.userId;
-    req.userEmail = decoded.email;
-    next();
+    decoded = jwt.verify(token, jwtSecret) as typeof decoded;
   } catch (error) {
     res.status(403).json({ error: 'Invalid or expired token' });
+    return;
+  }
+
+  try {
+    // Tokens from before sessions existed cannot be revoked, so they are not accepted
+    if (!decoded.sessionId || !(await isSessionActive(decoded.sessionId, decoded.userId))) {
+      res.status(401).json({ error: 'Session has ended, please log in again' });
+      return;
+    }
+  } catch (error) {
+    console.error('Error checking session:', error);
+    res.status(500).json({ error: 'Failed to authenticate' });
+    return;
   }
-};
 
+  req.userId = decoded.userId;
+  req.userEmail = decoded.email;
+  req.sessionId = decoded.sessionId;
+  next();
+};
@@ -0,0 +1,77 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from './auth.js';
+import {
+  consumeRateLimit,
+  RateLimitError,
+  RateLimitPolicyName,
+  RateLimitResult,
+} from '../services/rateLimit.js';
+
+/**
+ * Send a 429 with Retry-After for a rate limit or lockout
+ */
+export const sendRateLimited = (res: Response, error: RateLimitError): void => {
+  res.setHeader('Retry-After', error.retryAfterSeconds.toString());
+  res.status(error.status).json(error);
+};
+
+// RateLimit headers (IETF draft) of the budget closest to running out, when
+// several limits apply to one request
+const setRateLimitHeaders = (res: Response, result: RateLimitResult): void => {
+  const shown = res.getHeader('RateLimit-Remaining');
+  if (shown !== undefined && Number(shown) < result.remaining) {
+    return;
+  }
+
+  const resetSeconds = Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000));
+  res.setHeader('RateLimit-Policy', `${result.policy.max};w=${Math.round(result.policy.windowMs / 1000)}`);
+  res.setHeader('RateLimit-Limit', result.policy.max.toString());
+  res.setHeader('RateLimit-Remaining', result.remaining.toString());
+  res.setHeader('RateLimit-Reset', resetSeconds.toString());
+};
+
+/**
+ * Count each request against a policy's budget for the client `identify`
+ * returns. Requests it returns nothing for are not counted.
+ */
+export const rateLimit = (
+  policyName: RateLimitPolicyName,
+  identify: (req: AuthRequest) => string | null | undefined,
+  message = 'Too many requests, please try again later'
+) => async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  const identifier = identify(req);
+  const result = identifier ? await consumeRateLimit(policyName, identifier) : null;
+
+  if (result) {
+    setRateLimitHeaders(res, result);
+    if (result.limited) {
+      sendRateLimited(res, new RateLimitError(message, result.resetAt));
+      return;
+    }
+  }
+  next();
+};
+
+// Auth requests per client IP (set TRUST_PROXY behind a reverse proxy, or every client shares its IP)
+export const limitAuthByIp = rateLimit('auth-ip', req => req.ip);
+
+// Password reset requests per email address, from any IP (logins are held back by lockouts instead)
+export const limitAuthByAccount = rateLimit(
+  'auth-account',
+  req => typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : null,
+  'Too many attempts for this account, please try again later'
+);
+
+// Requests that run the generation model, per user (after authenticateToken)
+export const limitGeneration = rateLimit(
+  'generation',
+  req => req.userId,
+  'Generation limit reached, please try again later'
+);
+
+// Image edit requests, per user (after authenticateToken)
+export const limitImageEdits = rateLimit(
+  'image-edit',
+  req => req.userId,
+  'Image edit limit reached, please try again later'
+);
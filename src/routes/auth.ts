@@ -3,11 +3,93 @@ import bcrypt from 'bcryptjs';
 import jwt, { SignOptions } from 'jsonwebtoken';
 import type { StringValue } from 'ms';
 import pool from '../config/database.js';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { limitAuthByAccount, limitAuthByIp, sendRateLimited } from '../middleware/rateLimit.js';
+import {
+  consumeAccountToken,
+  sendEmailChangedNotice,
+  sendEmailChangeEmail,
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+} from '../services/accountEmails.js';
+import { deleteAccount, findOrCreateOidcUser } from '../services/accounts.js';
+import { completeAuthorization, createAuthorizationUrl, getOidcConfig, OidcLoginError } from '../services/oidc.js';
+import { getLoginLockout, RateLimitError, recordLoginFailure, recordLoginSuccess } from '../services/rateLimit.js';
+import {
+  createSession,
+  listSessions,
+  revokeAllSessions,
+  revokeSession,
+  rotateRefreshToken,
+  SessionClient,
+  SessionTokens,
+} from '../services/sessions.js';
 
 const router = express.Router();
 
+// Convert a user row into the API response shape
+const formatUser = (user: any) => ({
+  id: user.id.toString(),
+  email: user.email,
+  name: user.name,
+  phone: user.phone,
+  emailVerified: user.email_verified_at !== null,
+});
+
+// Check the password of the signed-in user, for changes that need it again.
+// Accounts without a password (OIDC sign-in only) just need to be signed in.
+const checkPassword = async (userId: string, password: unknown): Promise<any | null> => {
+  const [users] = await pool.execute(
+    'SELECT id, email, name, password_hash FROM users WHERE id = ?',
+    [userId]
+  ) as any[];
+  const user = users[0];
+  if (!user) {
+    return null;
+  }
+  if (user.password_hash === null) {
+    return user;
+  }
+  if (!password || typeof password !== 'string') {
+    return null;
+  }
+  return (await bcrypt.compare(password, user.password_hash)) ? user : null;
+};
+
+// Device details shown in the session list
+const getSessionClient = (req: Request): SessionClient => ({
+  userAgent: req.get('user-agent') || null,
+  ipAddress: req.ip || null,
+});
+
+// Sign a short-lived access token for a session and pair it with the session's refresh token
+const sessionTokensResponse = (
+  jwtSecret: string,
+  user: { id: string; email: string },
+  session: SessionTokens
+) => {
+  const expiresIn: StringValue | number = (process.env.JWT_EXPIRES_IN || '15m') as StringValue;
+  const signOptions: SignOptions = {
+    expiresIn
+  };
+
+  const token = jwt.sign(
+    { userId: user.id, email: user.email, sessionId: session.sessionId },
+    jwtSecret,
+    signOptions
+  );
+  const { exp } = jwt.decode(token) as { exp: number };
+
+  return {
+    token,
+    tokenExpiresAt: exp * 1000,
+    refreshToken: session.refreshToken,
+    refreshTokenExpiresAt: session.refreshTokenExpiresAt,
+  };
+};
+
 // Register
-router.post('/register', async (req: Request, res: Response) => {
+router.post('/register', limitAuthByIp, async (req: Request, res: Response) => {
   try {
     const { email, password, name, phone } = req.body;
 
@@ -40,29 +122,28 @@ router.post('/register', async (req: Request, res: Response) => {
 
     const userId = result.insertId;
 
-    // Generate JWT token
+    // Start a session and sign its access token
     const jwtSecret = process.env.JWT_SECRET;
     if (!jwtSecret) {
       return res.status(500).json({ error: 'Server configuration error' });
     }
 
-    const expiresIn: StringValue | number = (process.env.JWT_EXPIRES_IN || '7d') as StringValue;
-    const signOptions: SignOptions = {
-      expiresIn
-    };
+    const session = await createSession(userId, getSessionClient(req));
 
-    const token = jwt.sign(
-      { userId: userId.toString(), email },
-      jwtSecret,
-      signOptions
-    );
+    // The account works without verification; the link can be sent again
+    try {
+      await sendVerificationEmail({ id: userId, email, name });
+    } catch (error) {
+      console.error('Error sending verification email:', error);
+    }
 
     res.status(201).json({
-      token,
+      ...sessionTokensResponse(jwtSecret, { id: userId.toString(), email }, session),
       user: {
         id: userId.toString(),
         email,
         name,
+        emailVerified: false,
       },
     });
   } catch (error: any) {
@@ -72,55 +153,64 @@ router.post('/register', async (req: Request, res: Response) => {
 });
 
 // Login
-router.post('/login', async (req: Request, res: Response) => {
+router.post('/login', limitAuthByIp, async (req: Request, res: Response) => {
   try {
     const { email, password } = req.body;
 
-    if (!email || !password) {
+    if (!email || !password || typeof email !== 'string') {
       return res.status(400).json({ error: 'Email and password are required' });
     }
 
+    // Refuse while the account is locked for this IP by failed logins, even with the right password
+    const lockedUntil = await getLoginLockout(email, req.ip);
+    if (lockedUntil) {
+      return sendRateLimited(res, new RateLimitError('Too many failed login attempts, please try again later', lockedUntil));
+    }
+
+    // Count a failed login; the attempt that locks the account is told so
+    const loginFailed = async () => {
+      const lockoutEnd = await recordLoginFailure(email, req.ip);
+      if (lockoutEnd) {
+        return sendRateLimited(res, new RateLimitError('Too many failed login attempts, please try again later', lockoutEnd));
+      }
+      res.status(401).json({ error: 'Invalid credentials' });
+    };
+
     // Find user
     const [users] = await pool.execute(
-      'SELECT id, email, password_hash, name FROM users WHERE email = ?',
+      'SELECT id, email, password_hash, name, email_verified_at FROM users WHERE email = ?',
       [email]
     ) as any[];
 
     if (users.length === 0) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+      return loginFailed();
     }
 
     const user = users[0];
 
-    // Verify password
-    const isValidPassword = await bcrypt.compare(password, user.password_hash);
+    // Verify password; accounts created through OIDC sign-in have none
+    const isValidPassword = user.password_hash !== null && await bcrypt.compare(password, user.password_hash);
     if (!isValidPassword) {
-      return res.status(401).json({ error: 'Invalid credentials' });
+      return loginFailed();
     }
 
-    // Generate JWT token
+    await recordLoginSuccess(email, req.ip);
+
+    // Start a session and sign its access token
     const jwtSecret = process.env.JWT_SECRET;
     if (!jwtSecret) {
       return res.status(500).json({ error: 'Server configuration error' });
     }
 
-    const expiresIn: StringValue | number = (process.env.JWT_EXPIRES_IN || '7d') as StringValue;
-    const signOptions: SignOptions = {
-      expiresIn
-    };
-
-    const token = jwt.sign(
-      { userId: user.id.toString(), email: user.email },
-      jwtSecret,
-      signOptions
-    );
+    const session = await createSession(user.id, getSessionClient(req));
 
     res.json({
-      token,
+      ...sessionTokensResponse(jwtSecret, { id: user.id.toString(), email: user.email }, session),
       user: {
         id: user.id.toString(),
         email: user.email,
         name: user.name,
+        emailVerified: user.email_verified_at !== null,
       },
     });
   } catch (error: any) {
@@ -129,14 +219,32 @@ router.post('/login', async (req: Request, res: Response) => {
   }
 });
 
-// Get current user
-router.get('/me', async (req: Request, res: Response) => {
+// Start an OpenID Connect sign-in: returns the provider URL to send the user to
+router.get('/oidc/authorize', limitAuthByIp, async (req: Request, res: Response) => {
+  try {
+    if (!getOidcConfig()) {
+      return res.status(404).json({ error: 'OIDC login is not configured' });
+    }
+
+    res.json({ authorizationUrl: await createAuthorizationUrl() });
+  } catch (error: any) {
+    console.error('OIDC authorize error:', error);
+    res.status(500).json({ error: 'Failed to start OIDC login' });
+  }
+});
+
+// Finish an OpenID Connect sign-in with the code and state the provider sent
+// back; logs in like /login, creating or linking the account on first sign-in
+router.post('/oidc/callback', limitAuthByIp, async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
+    const { code, state } = req.body;
 
-    if (!token) {
-      return res.status(401).json({ error: 'Access token required' });
+    if (!getOidcConfig()) {
+      return res.status(404).json({ error: 'OIDC login is not configured' });
+    }
+
+    if (!code || !state || typeof code !== 'string' || typeof state !== 'string') {
+      return res.status(400).json({ error: 'Code and state are required' });
     }
 
     const jwtSecret = process.env.JWT_SECRET;
@@ -144,27 +252,466 @@ router.get('/me', async (req: Request, res: Response) => {
       return res.status(500).json({ error: 'Server configuration error' });
     }
 
-    const decoded = jwt.verify(token, jwtSecret) as { userId: string; email: string };
+    const claims = await completeAuthorization(code, state);
+    const user = await findOrCreateOidcUser(claims);
+    const session = await createSession(user.id, getSessionClient(req));
+
+    res.json({
+      ...sessionTokensResponse(jwtSecret, { id: user.id.toString(), email: user.email }, session),
+      user: {
+        id: user.id.toString(),
+        email: user.email,
+        name: user.name,
+        emailVerified: user.email_verified_at !== null,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof OidcLoginError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('OIDC callback error:', error);
+    res.status(500).json({ error: 'Failed to complete OIDC login' });
+  }
+});
+
+// Exchange a refresh token for a new access token and refresh token
+router.post('/refresh', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({ error: 'refreshToken is required' });
+    }
+
+    const jwtSecret = process.env.JWT_SECRET;
+    if (!jwtSecret) {
+      return res.status(500).json({ error: 'Server configuration error' });
+    }
+
+    const rotated = await rotateRefreshToken(refreshToken, getSessionClient(req));
+    if (!rotated) {
+      return res.status(401).json({ error: 'Invalid or expired refresh token' });
+    }
+
+    const [users] = await pool.execute(
+      'SELECT id, email FROM users WHERE id = ?',
+      [rotated.userId]
+    ) as any[];
+
+    if (users.length === 0) {
+      return res.status(401).json({ error: 'Invalid or expired refresh token' });
+    }
+
+    res.json(sessionTokensResponse(jwtSecret, { id: rotated.userId, email: users[0].email }, rotated.tokens));
+  } catch (error: any) {
+    console.error('Refresh error:', error);
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+// Log out: end the session of the access token
+router.post('/logout', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    await revokeSession(req.sessionId!, req.userId!);
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Failed to logout' });
+  }
+});
+
+// Log out of all devices, including this one
+router.post('/logout-all', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const revokedSessions = await revokeAllSessions(req.userId!);
+    res.json({ revokedSessions });
+  } catch (error: any) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'Failed to logout' });
+  }
+});
+
+// List the user's active sessions
+router.get('/sessions', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const sessions = await listSessions(req.userId!);
+    res.json(sessions.map(session => ({ ...session, current: session.id === String(req.sessionId) })));
+  } catch (error: any) {
+    console.error('List sessions error:', error);
+    res.status(500).json({ error: 'Failed to list sessions' });
+  }
+});
+
+// End one of the user's sessions, e.g. a lost device
+router.delete('/sessions/:id', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const revoked = await revokeSession(req.params.id, req.userId!);
+
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+// Confirm an email address with the token from the verification email
+router.post('/verify-email', limitAuthByIp, async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
 
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ error: 'token is required' });
+    }
+
+    const connection = await pool.getConnection();
+    let userId: string | null;
+    try {
+      await connection.beginTransaction();
+      userId = (await consumeAccountToken(token, 'verify-email', connection))?.userId ?? null;
+      if (userId) {
+        await connection.execute(
+          'UPDATE users SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP) WHERE id = ?',
+          [userId]
+        );
+      }
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    if (!userId) {
+      return res.status(400).json({ error: 'Invalid or expired verification link' });
+    }
+
+    res.json({ emailVerified: true });
+  } catch (error: any) {
+    console.error('Email verification error:', error);
+    res.status(500).json({ error: 'Failed to verify email' });
+  }
+});
+
+// Send the verification email again
+router.post('/resend-verification', authenticateToken, limitAuthByIp, async (req: AuthRequest, res: Response) => {
+  try {
     const [users] = await pool.execute(
-      'SELECT id, email, name, phone FROM users WHERE id = ?',
-      [decoded.userId]
+      'SELECT id, email, name, email_verified_at FROM users WHERE id = ?',
+      [req.userId]
     ) as any[];
 
     if (users.length === 0) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    const user = users[0];
-    res.json({
-      id: user.id.toString(),
-      email: user.email,
-      name: user.name,
-      phone: user.phone,
-    });
+    if (users[0].email_verified_at !== null) {
+      return res.status(400).json({ error: 'Email is already verified' });
+    }
+
+    await sendVerificationEmail(users[0]);
+    res.status(202).json({ message: 'Verification email sent' });
+  } catch (error: any) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({ error: 'Failed to send verification email' });
+  }
+});
+
+// Request a password reset link. The answer is the same whether or not the
+// email belongs to an account, so it cannot be used to find accounts.
+router.post('/forgot-password', limitAuthByIp, limitAuthByAccount, async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+
+    const [users] = await pool.execute(
+      'SELECT id, email, name FROM users WHERE email = ?',
+      [email]
+    ) as any[];
+
+    if (users.length > 0) {
+      await sendPasswordResetEmail(users[0]);
+    }
+
+    res.status(202).json({ message: 'If an account exists for this email, a password reset link has been sent' });
+  } catch (error: any) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Failed to request password reset' });
+  }
+});
+
+// Choose a new password with the token from the reset email. Every session
+// of the account is ended, so a stolen login stops working too.
+router.post('/reset-password', limitAuthByIp, async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || typeof token !== 'string' || !password) {
+      return res.status(400).json({ error: 'Token and password are required' });
+    }
+
+    if (password.length < 6) {
+      return res.status(400).json({ error: 'Password must be at least 6 characters' });
+    }
+
+    const passwordHash = await bcrypt.hash(password, 10);
+
+    const connection = await pool.getConnection();
+    let userId: string | null;
+    try {
+      await connection.beginTransaction();
+      userId = (await consumeAccountToken(token, 'reset-password', connection))?.userId ?? null;
+      if (userId) {
+        // Receiving the link proves the address too
+        await connection.execute(
+          `UPDATE users SET password_hash = ?, email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP)
+           WHERE id = ?`,
+          [passwordHash, userId]
+        );
+      }
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    if (!userId) {
+      return res.status(400).json({ error: 'Invalid or expired reset link' });
+    }
+
+    await revokeAllSessions(userId);
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+// Get current user
+router.get('/me', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const [users] = await pool.execute(
+      'SELECT id, email, name, phone, email_verified_at FROM users WHERE id = ?',
+      [req.userId]
+    ) as any[];
+
+    if (users.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(formatUser(users[0]));
   } catch (error: any) {
     console.error('Get user error:', error);
-    res.status(401).json({ error: 'Invalid token' });
+    res.status(500).json({ error: 'Failed to get user' });
+  }
+});
+
+// Update the current user's profile
+router.patch('/me', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, phone } = req.body;
+    const updates: string[] = [];
+    const values: any[] = [];
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return res.status(400).json({ error: 'Name cannot be empty' });
+      }
+      updates.push('name = ?');
+      values.push(name.trim());
+    }
+
+    if (phone !== undefined) {
+      if (phone !== null && typeof phone !== 'string') {
+        return res.status(400).json({ error: 'Phone must be a string or null' });
+      }
+      updates.push('phone = ?');
+      values.push(phone?.trim() || null);
+    }
+
+    if (updates.length === 0) {
+      return res.status(400).json({ error: 'Nothing to update. Email and password have their own endpoints.' });
+    }
+
+    await pool.execute(`UPDATE users SET ${updates.join(', ')} WHERE id = ?`, [...values, req.userId]);
+
+    const [users] = await pool.execute(
+      'SELECT id, email, name, phone, email_verified_at FROM users WHERE id = ?',
+      [req.userId]
+    ) as any[];
+
+    if (users.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(formatUser(users[0]));
+  } catch (error: any) {
+    console.error('Update user error:', error);
+    res.status(500).json({ error: 'Failed to update user' });
+  }
+});
+
+// Change the password; every other session of the account is ended
+router.post('/change-password', authenticateToken, limitAuthByIp, async (req: AuthRequest, res: Response) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    // Accounts without a password can set one without a current password
+    if (!newPassword) {
+      return res.status(400).json({ error: 'New password is required' });
+    }
+
+    if (typeof newPassword !== 'string' || newPassword.length < 6) {
+      return res.status(400).json({ error: 'Password must be at least 6 characters' });
+    }
+
+    const user = await checkPassword(req.userId!, currentPassword);
+    if (!user) {
+      return res.status(400).json({ error: 'Current password is incorrect' });
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, 10);
+    await pool.execute('UPDATE users SET password_hash = ? WHERE id = ?', [passwordHash, req.userId]);
+    await revokeAllSessions(req.userId!, req.sessionId);
+
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Change password error:', error);
+    res.status(500).json({ error: 'Failed to change password' });
+  }
+});
+
+// Start an email change: the new address gets a confirmation link and the
+// account keeps its current address until the link is used
+router.post('/change-email', authenticateToken, limitAuthByIp, async (req: AuthRequest, res: Response) => {
+  try {
+    const { password } = req.body;
+    const email = typeof req.body.email === 'string' ? req.body.email.trim() : '';
+
+    if (!email) {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+
+    if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+      return res.status(400).json({ error: 'Invalid email address' });
+    }
+
+    const user = await checkPassword(req.userId!, password);
+    if (!user) {
+      return res.status(400).json({ error: 'Password is incorrect' });
+    }
+
+    if (email.toLowerCase() === user.email.toLowerCase()) {
+      return res.status(400).json({ error: 'This is already your email address' });
+    }
+
+    const [existingUsers] = await pool.execute(
+      'SELECT id FROM users WHERE email = ?',
+      [email]
+    ) as any[];
+
+    if (existingUsers.length > 0) {
+      return res.status(409).json({ error: 'Email is already in use' });
+    }
+
+    await sendEmailChangeEmail(user, email);
+    res.status(202).json({ message: `A confirmation link has been sent to ${email}` });
+  } catch (error: any) {
+    console.error('Change email error:', error);
+    res.status(500).json({ error: 'Failed to change email' });
+  }
+});
+
+// Switch to the new email address with the token from the confirmation email
+router.post('/confirm-email-change', limitAuthByIp, async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ error: 'token is required' });
+    }
+
+    const connection = await pool.getConnection();
+    let previous: any = null;
+    let newEmail: string | null = null;
+    try {
+      await connection.beginTransaction();
+      const change = await consumeAccountToken(token, 'change-email', connection);
+
+      if (change?.email) {
+        // The address may have been taken since the link was sent
+        const [existingUsers] = await connection.execute(
+          'SELECT id FROM users WHERE email = ? AND id <> ? FOR UPDATE',
+          [change.email, change.userId]
+        ) as any[];
+        if (existingUsers.length > 0) {
+          await connection.rollback();
+          return res.status(409).json({ error: 'Email is already in use' });
+        }
+
+        const [users] = await connection.execute(
+          'SELECT email, name FROM users WHERE id = ? FOR UPDATE',
+          [change.userId]
+        ) as any[];
+        previous = users[0] ?? null;
+        newEmail = change.email;
+        await connection.execute(
+          'UPDATE users SET email = ?, email_verified_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [newEmail, change.userId]
+        );
+      }
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    if (!previous || !newEmail) {
+      return res.status(400).json({ error: 'Invalid or expired confirmation link' });
+    }
+
+    try {
+      await sendEmailChangedNotice(previous, newEmail);
+    } catch (error) {
+      console.error('Error sending email change notice:', error);
+    }
+
+    res.json({ email: newEmail, emailVerified: true });
+  } catch (error: any) {
+    console.error('Confirm email change error:', error);
+    res.status(500).json({ error: 'Failed to change email' });
+  }
+});
+
+// Delete the account with its comics, characters and stored images
+router.delete('/me', authenticateToken, limitAuthByIp, async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await checkPassword(req.userId!, req.body?.password);
+    if (!user) {
+      return res.status(400).json({ error: 'Password is incorrect' });
+    }
+
+    const deleted = await deleteAccount(req.userId!);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Delete account error:', error);
+    res.status(500).json({ error: 'Failed to delete account' });
   }
 });
 
@@ -0,0 +1,354 @@
+import express, { Response } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { limitGeneration } from '../middleware/rateLimit.js';
+import {
+  canUseImage,
+  getImageUrl,
+  ImageAccessError,
+  readImageAsBase64,
+  isImageInput,
+  storeImageInput,
+  toStoredImagePath,
+  uploadImage,
+} from '../services/imageUpload.js';
+import {
+  getGenerationProvider,
+  getGenerationProviderName,
+  FaceAnalysisResult,
+} from '../services/generationProvider.js';
+import { decodeBase64Image, toDataUrl } from '../services/imageProcessing.js';
+import {
+  createCharacter,
+  deleteCharacter,
+  getCharacter,
+  listCharacters,
+  parseCharacterTraits,
+  updateCharacter,
+  Character,
+} from '../services/characters.js';
+import { StorageQuotaError } from '../services/storageQuota.js';
+import { withImageResultCache } from '../services/resultCache.js';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+// Convert a stored character into the API response shape
+const formatCharacter = (character: Character) => ({
+  id: character.id,
+  name: character.name,
+  referenceImage: character.referenceImage,
+  referenceImageUrl: getImageUrl(character.referenceImage),
+  referenceImages: character.referenceImages.map(imagePath => ({
+    imagePath,
+    imageUrl: getImageUrl(imagePath),
+  })),
+  avatarImage: character.avatarImage,
+  avatarImageUrl: character.avatarImage ? getImageUrl(character.avatarImage) : null,
+  avatarVariations: character.avatarVariations.map(imagePath => ({
+    imagePath,
+    imageUrl: getImageUrl(imagePath),
+  })),
+  description: character.description,
+  createdAt: character.createdAt,
+  updatedAt: character.updatedAt,
+});
+
+// Store an image field from a request: base64 data is uploaded, stored paths are kept.
+// Generation reads these files back, so external URLs are rejected.
+const storeImageField = async (value: any, field: string, userId: string): Promise<string> => {
+  if (!isImageInput(value)) {
+    throw new Error(`${field} must be a base64 image or an uploaded image path`);
+  }
+  return storeImageInput(value, userId);
+};
+
+const MAX_REFERENCE_IMAGES = 5;
+
+// Store the reference photos of a request: `referenceImages`, or a single `referenceImage`.
+// Returns undefined if neither is present.
+const storeReferenceImages = async (body: any, userId: string): Promise<string[] | undefined> => {
+  const images = body.referenceImages !== undefined
+    ? body.referenceImages
+    : body.referenceImage !== undefined ? [body.referenceImage] : undefined;
+
+  if (images === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(images) || images.length === 0) {
+    throw new Error('referenceImages must be a non-empty array');
+  }
+  if (images.length > MAX_REFERENCE_IMAGES) {
+    throw new Error(`A character can have at most ${MAX_REFERENCE_IMAGES} reference images`);
+  }
+
+  return Promise.all(
+    images.map(image => storeImageField(image, 'referenceImages', userId))
+  );
+};
+
+// Read an image field from a request as base64: stored paths of the user's images are loaded from storage
+const loadImageField = async (value: any, field: string, userId: string): Promise<string> => {
+  const imagePath = typeof value === 'string' ? toStoredImagePath(value) : null;
+
+  if (imagePath) {
+    if (!(await canUseImage(imagePath, userId))) {
+      throw new Error(`${field} was not found`);
+    }
+    try {
+      return await readImageAsBase64(imagePath);
+    } catch {
+      throw new Error(`${field} was not found`);
+    }
+  }
+
+  const image = typeof value === 'string' && !value.startsWith('http') ? decodeBase64Image(value) : null;
+  if (!image) {
+    throw new Error(`${field} must be a base64 image or an uploaded image path`);
+  }
+  // Providers expect a data URL, labeled with the format the data actually has
+  return toDataUrl(image);
+};
+
+const AVATAR_GENDERS = ['Boy', 'Girl', 'Man', 'Woman'];
+
+// The same photo is often analyzed again (new comic, new variations), so results are cached by image
+const analyzeFaces = (imageBase64: string): Promise<FaceAnalysisResult> =>
+  withImageResultCache('analyze-faces', imageBase64, { provider: getGenerationProviderName() }, () =>
+    getGenerationProvider().analyzeImageFaces(imageBase64)
+  );
+
+// Count the faces in a photo before creating characters from it
+router.post('/analyze-faces', limitGeneration, async (req: AuthRequest, res: Response) => {
+  try {
+    const { image } = req.body;
+
+    if (!image) {
+      return res.status(400).json({ error: 'image is required' });
+    }
+
+    let imageBase64: string;
+    try {
+      imageBase64 = await loadImageField(image, 'image', req.userId!);
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
+
+    res.json(await analyzeFaces(imageBase64));
+  } catch (error: any) {
+    console.error('Error analyzing faces:', error);
+    res.status(500).json({ error: error.message || 'Failed to analyze faces' });
+  }
+});
+
+// Get all characters of the user
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const characters = await listCharacters(req.userId!);
+    res.json(characters.map(formatCharacter));
+  } catch (error: any) {
+    console.error('Error fetching characters:', error);
+    res.status(500).json({ error: 'Failed to fetch characters' });
+  }
+});
+
+// Get single character by ID
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const character = await getCharacter(req.params.id, req.userId!);
+
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    res.json(formatCharacter(character));
+  } catch (error: any) {
+    console.error('Error fetching character:', error);
+    res.status(500).json({ error: 'Failed to fetch character' });
+  }
+});
+
+// Create new character
+router.post('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, referenceImage, referenceImages, avatarImage, description } = req.body;
+
+    if (!name || typeof name !== 'string' || (!referenceImage && !referenceImages)) {
+      return res.status(400).json({ error: 'name and referenceImage (or referenceImages) are required' });
+    }
+
+    let traits;
+    let referencePaths: string[];
+    let avatarPath: string | null = null;
+    try {
+      traits = parseCharacterTraits(description);
+      referencePaths = (await storeReferenceImages(req.body, req.userId!))!;
+      if (avatarImage) {
+        avatarPath = await storeImageField(avatarImage, 'avatarImage', req.userId!);
+      }
+    } catch (e: any) {
+      if (e instanceof StorageQuotaError || e instanceof ImageAccessError) {
+        return res.status(e.status).json(e);
+      }
+      return res.status(400).json({ error: e.message });
+    }
+
+    const character = await createCharacter(req.userId!, {
+      name: name.trim(),
+      referenceImages: referencePaths,
+      avatarImage: avatarPath,
+      description: traits,
+    });
+
+    console.log('Character created:', { id: character.id, name: character.name });
+
+    res.status(201).json(formatCharacter(character));
+  } catch (error: any) {
+    console.error('Error creating character:', error);
+    res.status(500).json({ error: 'Failed to create character' });
+  }
+});
+
+// Update character
+router.put('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const { name, avatarImage, description } = req.body;
+
+    const existing = await getCharacter(req.params.id, req.userId!);
+    if (!existing) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    const changes: Parameters<typeof updateCharacter>[2] = {};
+    try {
+      if (name !== undefined) {
+        if (!name || typeof name !== 'string') {
+          throw new Error('name must be a non-empty string');
+        }
+        changes.name = name.trim();
+      }
+      if (description !== undefined) {
+        changes.description = parseCharacterTraits(description);
+      }
+      const referencePaths = await storeReferenceImages(req.body, req.userId!);
+      if (referencePaths) {
+        changes.referenceImages = referencePaths;
+      }
+      if (avatarImage !== undefined) {
+        // null clears the chosen avatar
+        changes.avatarImage = avatarImage === null
+          ? null
+          : await storeImageField(avatarImage, 'avatarImage', req.userId!);
+      }
+    } catch (e: any) {
+      if (e instanceof StorageQuotaError || e instanceof ImageAccessError) {
+        return res.status(e.status).json(e);
+      }
+      return res.status(400).json({ error: e.message });
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ error: 'No fields to update' });
+    }
+
+    const character = await updateCharacter(existing.id, req.userId!, changes);
+
+    res.json(formatCharacter(character!));
+  } catch (error: any) {
+    console.error('Error updating character:', error);
+    res.status(500).json({ error: 'Failed to update character' });
+  }
+});
+
+// Generate comic avatar variations for a character to pick from.
+// Uses the character's reference photo unless another `image` is given.
+router.post('/:id/variations', limitGeneration, async (req: AuthRequest, res: Response) => {
+  try {
+    const { image, gender } = req.body;
+
+    const character = await getCharacter(req.params.id, req.userId!);
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    if (gender !== undefined && !AVATAR_GENDERS.includes(gender)) {
+      return res.status(400).json({ error: `gender must be one of: ${AVATAR_GENDERS.join(', ')}` });
+    }
+
+    let imageBase64: string;
+    try {
+      imageBase64 = await loadImageField(image || character.referenceImage, 'image', req.userId!);
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
+
+    const provider = getGenerationProvider();
+
+    // Without an explicit gender, use the most prominent face in the photo
+    const avatarGender = gender
+      || (await analyzeFaces(imageBase64)).characters[0]?.gender
+      || 'Boy';
+
+    const variations = await provider.generateCharacterVariations(imageBase64, avatarGender);
+    if (variations.length === 0) {
+      return res.status(500).json({ error: 'No avatar variations were generated' });
+    }
+
+    const avatarVariations = await Promise.all(
+      variations.map(variation => uploadImage(variation, req.userId))
+    );
+
+    const updated = await updateCharacter(character.id, req.userId!, { avatarVariations });
+
+    res.json(formatCharacter(updated!));
+  } catch (error: any) {
+    if (error instanceof StorageQuotaError) {
+      return res.status(error.status).json(error);
+    }
+    console.error('Error generating avatar variations:', error);
+    res.status(500).json({ error: error.message || 'Failed to generate avatar variations' });
+  }
+});
+
+// Pick one of the generated variations as the character's avatar
+router.put('/:id/avatar', async (req: AuthRequest, res: Response) => {
+  try {
+    const { imagePath } = req.body;
+
+    const character = await getCharacter(req.params.id, req.userId!);
+    if (!character) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    const chosen = typeof imagePath === 'string' ? imagePath.replace(/^\/uploads\//, '') : '';
+    if (!character.avatarVariations.includes(chosen)) {
+      return res.status(400).json({ error: 'imagePath must be one of the character\'s avatar variations' });
+    }
+
+    const updated = await updateCharacter(character.id, req.userId!, { avatarImage: chosen });
+
+    res.json(formatCharacter(updated!));
+  } catch (error: any) {
+    console.error('Error choosing avatar:', error);
+    res.status(500).json({ error: 'Failed to choose avatar' });
+  }
+});
+
+// Delete character
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const deleted = await deleteCharacter(req.params.id, req.userId!);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting character:', error);
+    res.status(500).json({ error: 'Failed to delete character' });
+  }
+});
+
+export default router;
@@ -1,31 +1,414 @@
 import express, { Response } from 'express';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { limitGeneration, limitImageEdits } from '../middleware/rateLimit.js';
 import pool from '../config/database.js';
-import { generateComicScript, generatePanelImage } from '../services/gemini.js';
-import { getImageUrl } from '../services/imageUpload.js';
+import {
+  getImageRenditionUrls,
+  getImageUrl,
+  ImageAccessError,
+  InvalidImageReferenceError,
+  isBase64Image,
+  isImageInput,
+  persistImageReference,
+  readImageAsBase64,
+  storeImageInput,
+  uploadImage,
+} from '../services/imageUpload.js';
+import {
+  createGenerationJob,
+  getGenerationJob,
+  retryGenerationJob,
+  GenerationJob,
+} from '../services/generationJobs.js';
+import {
+  runComicGeneration,
+  CharacterReferenceImages,
+  MAX_REFERENCE_IMAGES_PER_CHARACTER,
+} from '../services/comicGeneration.js';
+import type { CharacterDescription, CharacterSignature } from '../services/characterConsistency.js';
+import {
+  getCharacterImage,
+  getCharacterReferenceImages,
+  getCharactersByIds,
+  toCharacterDescription,
+} from '../services/characters.js';
+import {
+  deleteComicPage,
+  getComicPage,
+  getComicPages,
+  insertComicPages,
+  updateComicPage,
+  ComicPage,
+  MAX_COMIC_PAGES,
+} from '../services/comicPages.js';
+import {
+  editComicPanel,
+  regenerateComicPanel,
+  rewriteComicPanel,
+  PanelUpdate,
+} from '../services/panelEditing.js';
+import {
+  compareRevisions,
+  listComicRevisions,
+  pruneRevisions,
+  recordComicRevision,
+  revertComic,
+  ComicRevision,
+  PanelRevision,
+} from '../services/panelRevisions.js';
+import { syncComicImages } from '../services/images.js';
+import {
+  renderComicPage,
+  renderComicPdf,
+  renderLetteredPanel,
+  PrintPageSize,
+  PRINT_PAGE_SIZES,
+} from '../services/comicExport.js';
+import {
+  buildComicArchive,
+  ArchiveComic,
+  ArchiveFormat,
+  ARCHIVE_CONTENT_TYPES,
+  ARCHIVE_FORMATS,
+} from '../services/comicArchive.js';
+import { normalizeDialogue } from '../services/lettering.js';
+import { assertStorageQuota, StorageQuotaError } from '../services/storageQuota.js';
+import {
+  getLayout,
+  resolveLayout,
+  sortPanelKeys,
+  LayoutTemplate,
+  isLayoutName,
+  LAYOUT_TEMPLATES,
+} from '../services/layouts.js';
 
 const router = express.Router();
 
 // All routes require authentication
 router.use(authenticateToken);
 
-// Get all comics (summary only - no images)
+// Convert image paths to full URLs with backend domain
+const convertImagePath = (path: string): string => {
+  if (!path || path.startsWith('http') || path.startsWith('data:image/')) {
+    return path;
+  }
+  return getImageUrl(path);
+};
+
+// Convert panel imageUrls to full URLs, keeping panels in box1…boxN order
+const withFullImageUrls = (panels: Record<string, any>): Record<string, any> =>
+  Object.fromEntries(
+    sortPanelKeys(Object.keys(panels || {})).map(key => {
+      const panel = panels[key];
+      return [
+        key,
+        panel ? { ...panel, imageUrl: panel.imageUrl ? convertImagePath(panel.imageUrl) : undefined } : panel,
+      ];
+    })
+  );
+
+// Convert panel imageUrls on every page to full URLs
+const withFullPageUrls = (pages: ComicPage[]) =>
+  pages.map(page => ({ ...page, panels: withFullImageUrls(page.panels) }));
+
+// Resolve the layout from a request body's `layout` name and/or `panelCount`
+const layoutFromRequest = (body: any): LayoutTemplate => {
+  const panelCount = body.panelCount !== undefined ? parseInt(body.panelCount, 10) : undefined;
+  if (panelCount !== undefined && !(Number.isInteger(panelCount) && panelCount > 0)) {
+    throw new Error('panelCount must be a positive whole number');
+  }
+  return resolveLayout(body.layout, panelCount);
+};
+
+// Most comics one CBZ/EPUB export may bundle
+const MAX_EXPORT_COMICS = 50;
+
+// Read the number of pages to generate from a request body (default 1)
+const pageCountFromRequest = (body: any): number => {
+  const pageCount = body.pageCount !== undefined ? parseInt(body.pageCount, 10) : 1;
+  if (!Number.isInteger(pageCount) || pageCount < 1 || pageCount > MAX_COMIC_PAGES) {
+    throw new Error(`pageCount must be between 1 and ${MAX_COMIC_PAGES}`);
+  }
+  return pageCount;
+};
+
+// Read pages from a request body: either `pages` or a single page as `panels` (+ `layout`).
+// Without an explicit layout, a page uses the default template for its number of panels.
+const pagesFromRequest = (body: any): Omit<ComicPage, 'pageNumber'>[] => {
+  const rawPages: any[] = Array.isArray(body.pages)
+    ? body.pages
+    : [{ layout: body.layout, panels: body.panels }];
+
+  if (rawPages.length === 0) {
+    throw new Error('At least one page is required');
+  }
+
+  return rawPages.map((page, i) => {
+    if (!page || !page.panels || typeof page.panels !== 'object') {
+      throw new Error(`Page ${i + 1} is missing panels`);
+    }
+    return {
+      layout: resolveLayout(page.layout, Object.keys(page.panels).length).name,
+      chapterTitle: page.chapterTitle || null,
+      panels: Object.fromEntries(
+        Object.entries<any>(page.panels).map(([key, panel]) => [
+          key,
+          panel && panel.dialogue !== undefined ? { ...panel, dialogue: normalizeDialogue(panel.dialogue) } : panel,
+        ])
+      ),
+    };
+  });
+};
+
+// Move inline base64 panel images into storage, so pages only hold image paths
+const storePageImages = async <T extends { panels: ComicPage['panels'] }>(
+  pages: T[],
+  userId: string
+): Promise<T[]> =>
+  Promise.all(
+    pages.map(async page => ({
+      ...page,
+      panels: Object.fromEntries(
+        await Promise.all(
+          Object.entries(page.panels).map(async ([key, panel]) => [
+            key,
+            panel?.imageUrl
+              ? { ...panel, imageUrl: await persistImageReference(panel.imageUrl, userId) }
+              : panel,
+          ])
+        )
+      ),
+    }))
+  );
+
+// Find a comic owned by the user
+const findComic = async (id: string, userId: string | undefined): Promise<any | null> => {
+  const [rows] = await pool.execute(
+    'SELECT * FROM comics WHERE id = ? AND user_id = ?',
+    [id, userId]
+  ) as any[];
+  return rows.length > 0 ? rows[0] : null;
+};
+
+// File name for downloads, from the comic title
+const exportFileName = (title: string | null, extension: string): string =>
+  `${(title || 'comic').replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-').toLowerCase() || 'comic'}.${extension}`;
+
+// Comic row and its pages in the shape the CBZ/EPUB export takes
+const toArchiveComic = async (comic: any): Promise<ArchiveComic> => ({
+  id: comic.id.toString(),
+  title: comic.title,
+  category: comic.category,
+  characterNames: parseJsonArray(comic.character_names, 'character_names'),
+  createdAt: new Date(comic.created_at).getTime(),
+  pages: await getComicPages(comic.id),
+});
+
+const sendArchive = (res: Response, format: ArchiveFormat, title: string, archive: Buffer) => {
+  res.setHeader('Content-Type', ARCHIVE_CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(title, format)}"`);
+  res.send(archive);
+};
+
+// Parse a page number route parameter (1-based)
+const parsePageNumber = (value: string): number | null => {
+  const pageNumber = parseInt(value, 10);
+  return Number.isInteger(pageNumber) && pageNumber >= 1 ? pageNumber : null;
+};
+
+// Parse a panel number route parameter (1-based, or `boxN`) into its panel key
+const parsePanelKey = (value: string): string | null => {
+  const panelNumber = parsePageNumber(value.replace(/^box/, ''));
+  return panelNumber ? `box${panelNumber}` : null;
+};
+
+// Convert an updated panel into the API response shape (same as the `panel` stream event)
+const formatPanelUpdate = (update: PanelUpdate) => ({
+  pageNumber: update.pageNumber,
+  key: update.key,
+  index: update.index,
+  scene: update.panel.scene,
+  narration: update.panel.narration,
+  dialogue: update.panel.dialogue || [],
+  imagePath: update.panel.imageUrl,
+  imageUrl: update.panel.imageUrl ? convertImagePath(update.panel.imageUrl) : undefined,
+});
+
+// Convert a recorded panel state into the API response shape
+const formatPanelState = (panel: PanelRevision['panel']) => ({
+  removed: panel === null,
+  scene: panel?.scene,
+  narration: panel?.narration,
+  dialogue: panel?.dialogue,
+  imagePath: panel?.imageUrl,
+  imageUrl: panel?.imageUrl ? convertImagePath(panel.imageUrl) : undefined,
+});
+
+// Convert a revision into the API response shape
+const formatRevision = (revision: ComicRevision) => ({
+  revision: revision.revision,
+  source: revision.source,
+  createdAt: revision.createdAt,
+  panels: revision.panels.map(({ pageNumber, key, panel }) => ({
+    pageNumber,
+    key,
+    ...formatPanelState(panel),
+  })),
+});
+
+// Parse a revision number from a route parameter or query string
+const parseRevision = (value: unknown): number | null => {
+  const revision = parseInt(String(value), 10);
+  return Number.isInteger(revision) && revision >= 1 ? revision : null;
+};
+
+// Parse a JSON column that holds an array, e.g. character_names
+const parseJsonArray = (value: any, column: string): any[] => {
+  try {
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error(`Error parsing ${column}:`, e);
+    return [];
+  }
+};
+
+// Read library character ids from a request body
+const characterIdsFromRequest = (body: any): string[] => {
+  if (body.characterIds === undefined || body.characterIds === null) {
+    return [];
+  }
+  if (!Array.isArray(body.characterIds)) {
+    throw new Error('characterIds must be an array');
+  }
+  return [...new Set<string>(body.characterIds.map(String))];
+};
+
+// Check that every character id belongs to the user's library
+const ownsCharacters = async (characterIds: string[], userId: string): Promise<boolean> =>
+  (await getCharactersByIds(characterIds, userId)).length === characterIds.length;
+
+const SIGNATURE_FIELDS: (keyof CharacterSignature)[] = ['name', 'outfit', 'hair', 'colors', 'accessories'];
+
+// Read character visual signatures from a request body (as returned by generation)
+const characterSignaturesFromRequest = (body: any): CharacterSignature[] => {
+  if (body.characterSignatures === undefined || body.characterSignatures === null) {
+    return [];
+  }
+  if (!Array.isArray(body.characterSignatures)) {
+    throw new Error('characterSignatures must be an array');
+  }
+
+  return body.characterSignatures.map((signature: any, i: number) => {
+    if (!signature || SIGNATURE_FIELDS.some(field => typeof signature[field] !== 'string')) {
+      throw new Error(`characterSignatures[${i}] must have ${SIGNATURE_FIELDS.join(', ')}`);
+    }
+    return Object.fromEntries(SIGNATURE_FIELDS.map(field => [field, signature[field]])) as unknown as CharacterSignature;
+  });
+};
+
+// Read reference images for characters outside the library: `[{ name, images }]`,
+// where each image is base64 or an uploaded image path
+const characterReferencesFromRequest = (body: any): { name: string; images: string[] }[] => {
+  if (body.characterReferences === undefined || body.characterReferences === null) {
+    return [];
+  }
+  if (!Array.isArray(body.characterReferences)) {
+    throw new Error('characterReferences must be an array');
+  }
+
+  return body.characterReferences.map((reference: any, i: number) => {
+    if (!reference || typeof reference.name !== 'string' || !reference.name || !Array.isArray(reference.images)) {
+      throw new Error(`characterReferences[${i}] must have a name and an images array`);
+    }
+    if (reference.images.length === 0 || reference.images.length > MAX_REFERENCE_IMAGES_PER_CHARACTER) {
+      throw new Error(`characterReferences[${i}] must have 1 to ${MAX_REFERENCE_IMAGES_PER_CHARACTER} images`);
+    }
+    if (!reference.images.every(isImageInput)) {
+      throw new Error(`characterReferences[${i}] images must be base64 images or uploaded image paths`);
+    }
+    return { name: reference.name, images: reference.images };
+  });
+};
+
+interface GenerationCast {
+  characterNames: string[];
+  characterIds: string[];
+  characterDescriptions: CharacterDescription[];
+  characterReferences: CharacterReferenceImages[];
+  characterImage: string | null; // Stored image of the first character, to stand in for a photo
+}
+
+// Resolve the characters of a generation request: library characters first, then any
+// extra names that are not in the library. Returns null if a character id is not the user's.
+const castFromRequest = async (
+  characterIds: string[],
+  characterNames: string[],
+  references: { name: string; images: string[] }[],
+  userId: string
+): Promise<GenerationCast | null> => {
+  const characters = await getCharactersByIds(characterIds, userId);
+  if (characters.length !== characterIds.length) {
+    return null;
+  }
+
+  const libraryNames = characters.map(character => character.name);
+  const extraNames = [...characterNames, ...references.map(reference => reference.name)]
+    .filter((name, i, names) => name && !libraryNames.includes(name) && names.indexOf(name) === i);
+
+  // Uploaded references are stored so queued jobs can read them back
+  const uploadedReferences = await Promise.all(
+    references.map(async ({ name, images }) => ({
+      name,
+      imagePaths: await Promise.all(images.map(image => storeImageInput(image, userId))),
+    }))
+  );
+
+  return {
+    characterNames: [...libraryNames, ...extraNames],
+    characterIds,
+    characterDescriptions: characters.map(toCharacterDescription),
+    characterReferences: [...characters.map(getCharacterReferenceImages), ...uploadedReferences],
+    characterImage: characters.length > 0
+      ? getCharacterImage(characters[0])
+      : uploadedReferences[0]?.imagePaths[0] || null,
+  };
+};
+
+// Get all comics (summary with first-page thumbnails, no full-size images)
 router.get('/', async (req: AuthRequest, res: Response) => {
   try {
     const [rows] = await pool.execute(
-      `SELECT id, title, category, created_at 
+      `SELECT comics.id, comics.title, comics.category, comics.layout, comics.created_at,
+              (SELECT COUNT(*) FROM comic_pages p WHERE p.comic_id = comics.id) AS page_count,
+              first_page.panels AS first_page_panels
        FROM comics 
-       WHERE user_id = ? 
-       ORDER BY created_at DESC`,
+       LEFT JOIN comic_pages first_page ON first_page.comic_id = comics.id AND first_page.page_number = 1
+       WHERE comics.user_id = ? 
+       ORDER BY comics.created_at DESC`,
       [req.userId]
     ) as any[];
 
-    const comics = rows.map((row: any) => ({
-      id: row.id.toString(),
-      title: row.title,
-      category: row.category,
-      createdAt: new Date(row.created_at).getTime(),
-    }));
+    const comics = rows.map((row: any) => {
+      const panels = (typeof row.first_page_panels === 'string'
+        ? JSON.parse(row.first_page_panels)
+        : row.first_page_panels) || {};
+      const panelThumbnails = sortPanelKeys(Object.keys(panels))
+        .map((key: string) => panels[key]?.imageUrl)
+        .filter((imageUrl: unknown): imageUrl is string => typeof imageUrl === 'string' && !imageUrl.startsWith('data:'))
+        .map(imageUrl => getImageRenditionUrls(imageUrl).thumbnailUrl);
+
+      return {
+        id: row.id.toString(),
+        title: row.title,
+        category: row.category,
+        layout: getLayout(row.layout).name,
+        pageCount: Number(row.page_count),
+        thumbnailUrl: panelThumbnails[0] || null,
+        panelThumbnails,
+        createdAt: new Date(row.created_at).getTime(),
+      };
+    });
 
     res.json(comics);
   } catch (error: any) {
@@ -34,6 +417,66 @@ router.get('/', async (req: AuthRequest, res: Response) => {
   }
 });
 
+// List available page layouts
+router.get('/layouts', (req: AuthRequest, res: Response) => {
+  res.json(
+    Object.values(LAYOUT_TEMPLATES).map(layout => ({
+      name: layout.name,
+      description: layout.description,
+      panelCount: layout.panels.length,
+      panels: layout.panels.map(({ row, aspectRatio }) => ({ row, aspectRatio })),
+    }))
+  );
+});
+
+/**
+ * GET /api/comics/export?ids=1,2,3&format=cbz|epub&title=
+ * Download several of the user's comics as one CBZ or EPUB, in the given order.
+ * Comics without pages are left out.
+ */
+router.get('/export', async (req: AuthRequest, res: Response) => {
+  try {
+    const format = String(req.query.format || 'cbz').toLowerCase() as ArchiveFormat;
+    if (!ARCHIVE_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of: ${ARCHIVE_FORMATS.join(', ')}` });
+    }
+
+    const ids = [...new Set(String(req.query.ids || '').split(',').map(id => id.trim()).filter(Boolean))];
+    if (ids.length === 0 || ids.length > MAX_EXPORT_COMICS || ids.some(id => !/^\d+$/.test(id))) {
+      return res.status(400).json({ error: `ids must list 1-${MAX_EXPORT_COMICS} comic ids, comma-separated` });
+    }
+
+    const [rows] = await pool.execute(
+      `SELECT * FROM comics WHERE user_id = ? AND id IN (${ids.map(() => '?').join(', ')})`,
+      [req.userId, ...ids]
+    ) as any[];
+    if (rows.length !== ids.length) {
+      return res.status(404).json({ error: 'Comic not found' });
+    }
+
+    const rowsById = new Map<string, any>(rows.map((row: any) => [row.id.toString(), row]));
+    const comics: ArchiveComic[] = [];
+    for (const id of ids) {
+      const comic = await toArchiveComic(rowsById.get(id));
+      if (comic.pages.length > 0) {
+        comics.push(comic);
+      }
+    }
+    if (comics.length === 0) {
+      return res.status(404).json({ error: 'Comics have no pages' });
+    }
+
+    const title = typeof req.query.title === 'string' && req.query.title.trim()
+      ? req.query.title.trim().slice(0, 200)
+      : comics.length === 1 ? comics[0].title : 'Comic Collection';
+
+    sendArchive(res, format, title, await buildComicArchive(format, comics, { title }));
+  } catch (error: any) {
+    console.error('Error exporting comics:', error);
+    res.status(500).json({ error: 'Failed to export comics' });
+  }
+});
+
 // Get single comic by ID
 router.get('/:id', async (req: AuthRequest, res: Response) => {
   try {
@@ -56,7 +499,6 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
     
     // Parse JSON fields safely
     let characterNames: string[] = [];
-    let panels: any = {};
     
     try {
       characterNames = typeof comic.character_names === 'string' 
@@ -66,45 +508,28 @@ router.get('/:id', async (req: AuthRequest, res: Response) => {
       console.error('Error parsing character_names:', e);
       characterNames = [];
     }
-    
-    try {
-      panels = typeof comic.panels === 'string' 
-        ? JSON.parse(comic.panels) 
-        : comic.panels;
-    } catch (e) {
-      console.error('Error parsing panels:', e);
-      panels = {};
-    }
+    const characterIds = parseJsonArray(comic.character_ids, 'character_ids');
+    const characterSignatures = parseJsonArray(comic.character_signatures, 'character_signatures');
 
-    // Convert image paths to full URLs with backend domain
-    const convertImagePath = (path: string): string => {
-      if (!path || path.startsWith('http') || path.startsWith('data:image/')) {
-        return path;
-      }
-      return getImageUrl(path);
-    };
+    const pages = await getComicPages(comic.id);
 
     // Convert originalImage to full URL
     const originalImageUrl = convertImagePath(comic.original_image);
 
-    // Convert panel imageUrls to full URLs
-    const panelsWithFullUrls = {
-      box1: panels.box1 ? { ...panels.box1, imageUrl: panels.box1.imageUrl ? convertImagePath(panels.box1.imageUrl) : undefined } : panels.box1,
-      box2: panels.box2 ? { ...panels.box2, imageUrl: panels.box2.imageUrl ? convertImagePath(panels.box2.imageUrl) : undefined } : panels.box2,
-      box3: panels.box3 ? { ...panels.box3, imageUrl: panels.box3.imageUrl ? convertImagePath(panels.box3.imageUrl) : undefined } : panels.box3,
-      box4: panels.box4 ? { ...panels.box4, imageUrl: panels.box4.imageUrl ? convertImagePath(panels.box4.imageUrl) : undefined } : panels.box4,
-      box5: panels.box5 ? { ...panels.box5, imageUrl: panels.box5.imageUrl ? convertImagePath(panels.box5.imageUrl) : undefined } : panels.box5,
-    };
-
     const response = {
       id: comic.id.toString(),
       title: comic.title,
       createdAt: new Date(comic.created_at).getTime(),
       category: comic.category,
       sourceType: comic.source_type,
+      layout: getLayout(comic.layout).name,
       characterNames,
+      characterIds,
+      characterSignatures,
       originalImage: originalImageUrl,
-      panels: panelsWithFullUrls,
+      // First page panels, for clients that predate multi-page comics
+      panels: withFullImageUrls(pages[0]?.panels || {}),
+      pages: withFullPageUrls(pages),
     };
 
     console.log('Comic fetched successfully:', { id: response.id, title: response.title });
@@ -134,93 +559,399 @@ router.post('/', async (req: AuthRequest, res: Response) => {
       characterNames,
       originalImage,
       panels,
+      pages,
     } = req.body;
 
-    if (!title || !category || !sourceType || !characterNames || !originalImage || !panels) {
+    if (!title || !category || !sourceType || !characterNames || !originalImage || (!panels && !pages)) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    const [result] = await pool.execute(
-      `INSERT INTO comics (user_id, title, category, source_type, character_names, original_image, panels)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
-      [
-        req.userId,
-        title,
-        category,
-        sourceType,
-        JSON.stringify(characterNames),
-        originalImage,
-        JSON.stringify(panels),
-      ]
-    ) as any[];
+    let pagesToSave: Omit<ComicPage, 'pageNumber'>[];
+    let characterIds: string[];
+    let characterSignatures: CharacterSignature[];
+    try {
+      pagesToSave = pagesFromRequest(req.body);
+      characterIds = characterIdsFromRequest(req.body);
+      characterSignatures = characterSignaturesFromRequest(req.body);
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
 
-    const comicId = result.insertId;
+    if (!(await ownsCharacters(characterIds, req.userId!))) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
 
-    console.log('Comic created:', { id: comicId, title });
+    // Images are saved as files; the database only keeps their paths
+    pagesToSave = await storePageImages(pagesToSave, req.userId!);
+    const originalImagePath = await persistImageReference(originalImage, req.userId);
+
+    const connection = await pool.getConnection();
+    let comicId: number;
+    let savedPages: ComicPage[];
+
+    try {
+      await connection.beginTransaction();
+
+      const [result] = await connection.execute(
+        `INSERT INTO comics
+           (user_id, title, category, source_type, layout, character_names, character_ids, character_signatures, original_image)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          req.userId,
+          title,
+          category,
+          sourceType,
+          pagesToSave[0].layout,
+          JSON.stringify(characterNames),
+          JSON.stringify(characterIds),
+          characterSignatures.length > 0 ? JSON.stringify(characterSignatures) : null,
+          originalImagePath,
+        ]
+      ) as any[];
+
+      comicId = result.insertId;
+      savedPages = await insertComicPages(comicId, pagesToSave, 1, connection);
+      await recordComicRevision(comicId, 'created', connection);
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    console.log('Comic created:', { id: comicId, title, pages: savedPages.length });
 
     res.status(201).json({
       id: comicId.toString(),
       title,
       category,
       sourceType,
+      layout: savedPages[0].layout,
       characterNames,
-      originalImage,
-      panels,
+      characterIds,
+      characterSignatures,
+      originalImage: originalImagePath,
+      originalImageUrl: convertImagePath(originalImagePath),
+      panels: savedPages[0].panels,
+      pages: savedPages,
     });
   } catch (error: any) {
+    if (
+      error instanceof StorageQuotaError ||
+      error instanceof ImageAccessError ||
+      error instanceof InvalidImageReferenceError
+    ) {
+      return res.status(error.status).json(error);
+    }
     console.error('Error creating comic:', error);
     res.status(500).json({ error: 'Failed to create comic' });
   }
 });
 
-// Generate comic script and images
-router.post('/generate', async (req: AuthRequest, res: Response) => {
+// Convert stored job data into the API response shape
+const formatGenerationJob = (job: GenerationJob) => {
+  const pages = job.pages ? withFullPageUrls(job.pages) : null;
+
+  let stage: 'queued' | 'script' | 'panels' | 'done' | 'failed';
+  if (job.status === 'completed') {
+    stage = 'done';
+  } else if (job.status === 'failed') {
+    stage = 'failed';
+  } else if (job.title) {
+    stage = 'panels';
+  } else {
+    stage = job.status === 'queued' ? 'queued' : 'script';
+  }
+
+  return {
+    id: job.id,
+    kind: job.kind,
+    comicId: job.comicId,
+    status: job.status,
+    stage,
+    progress: {
+      scriptDone: job.title !== null,
+      completedPanels: job.completedPanels,
+      totalPanels: job.totalPanels,
+    },
+    title: job.title,
+    layout: getLayout(job.input.layout).name,
+    characterNames: job.input.characterNames,
+    characterIds: job.input.characterIds || [],
+    characterSignatures: job.characterSignatures || [],
+    // First page panels, for clients that predate multi-page comics
+    panels: pages ? pages[0]?.panels || null : null,
+    pages,
+    originalImage: job.input.originalImage,
+    originalImageUrl: getImageUrl(job.input.originalImage),
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+  };
+};
+
+// Start comic generation as a background job
+router.post('/generate', limitGeneration, async (req: AuthRequest, res: Response) => {
   try {
-    const { category, sourceType, imageBase64, characterNames } = req.body;
+    const { category, sourceType, imageBase64, characterNames = [] } = req.body;
+
+    let characterIds: string[];
+    let characterReferences: { name: string; images: string[] }[];
+    let layout: LayoutTemplate;
+    let pageCount: number;
+    try {
+      characterIds = characterIdsFromRequest(req.body);
+      characterReferences = characterReferencesFromRequest(req.body);
+      layout = layoutFromRequest(req.body);
+      pageCount = pageCountFromRequest(req.body);
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
 
-    if (!category || !sourceType || !imageBase64 || !characterNames || !Array.isArray(characterNames)) {
+    // Library characters or reference images can stand in for the uploaded photo and names
+    if (!category || !sourceType || !Array.isArray(characterNames) || (!imageBase64 && characterIds.length === 0 && characterReferences.length === 0)) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    if (characterNames.length === 0 || !characterNames[0]) {
+    if (imageBase64 && !isBase64Image(imageBase64)) {
+      return res.status(400).json({ error: 'Invalid base64 image format' });
+    }
+
+    // Refuse before generating if the user has no storage left for the panels
+    await assertStorageQuota(req.userId!, 0);
+    const cast = await castFromRequest(characterIds, characterNames, characterReferences, req.userId!);
+    if (!cast) {
+      return res.status(404).json({ error: 'Character not found' });
+    }
+
+    if (cast.characterNames.length === 0) {
       return res.status(400).json({ error: 'At least one character name is required' });
     }
 
-    // Generate script
-    const { title, panels } = await generateComicScript(
+    // Store the reference image so the worker can pick the job up after a restart
+    const originalImage = imageBase64
+      ? await uploadImage(imageBase64, req.userId)
+      : cast.characterImage!;
+
+    const job = await createGenerationJob(req.userId!, {
       category,
       sourceType,
-      imageBase64,
-      characterNames
-    );
+      characterNames: cast.characterNames,
+      characterIds: cast.characterIds,
+      characterDescriptions: cast.characterDescriptions,
+      characterReferences: cast.characterReferences,
+      layout: layout.name,
+      pageCount,
+      originalImage,
+    });
 
-    // Generate images for all panels in parallel
-    const imagePromises = [
-      generatePanelImage(imageBase64, panels.box1.scene, characterNames, [], 1),
-      generatePanelImage(imageBase64, panels.box2.scene, characterNames, [], 2),
-      generatePanelImage(imageBase64, panels.box3.scene, characterNames, [], 3),
-      generatePanelImage(imageBase64, panels.box4.scene, characterNames, [], 4),
-      generatePanelImage(imageBase64, panels.box5.scene, characterNames, [], 5),
-    ];
-
-    const [img1, img2, img3, img4, img5] = await Promise.all(imagePromises);
-
-    // Add image URLs to panels
-    const panelsWithImages = {
-      box1: { ...panels.box1, imageUrl: img1 },
-      box2: { ...panels.box2, imageUrl: img2 },
-      box3: { ...panels.box3, imageUrl: img3 },
-      box4: { ...panels.box4, imageUrl: img4 },
-      box5: { ...panels.box5, imageUrl: img5 },
-    };
+    console.log('Generation job queued:', { id: job.id, userId: req.userId });
 
-    res.json({
+    res.status(202).json(formatGenerationJob(job));
+  } catch (error: any) {
+    if (error instanceof StorageQuotaError || error instanceof ImageAccessError) {
+      return res.status(error.status).json(error);
+    }
+    console.error('Error queuing comic generation:', error);
+    res.status(500).json({ error: error.message || 'Failed to start comic generation' });
+  }
+});
+
+// Generate comic and stream progress as server-sent events
+router.post('/generate/stream', limitGeneration, async (req: AuthRequest, res: Response) => {
+  const { category, sourceType, imageBase64, characterNames = [] } = req.body;
+
+  let characterIds: string[];
+  let characterReferences: { name: string; images: string[] }[];
+  let layout: LayoutTemplate;
+  let pageCount: number;
+  try {
+    characterIds = characterIdsFromRequest(req.body);
+    characterReferences = characterReferencesFromRequest(req.body);
+    layout = layoutFromRequest(req.body);
+    pageCount = pageCountFromRequest(req.body);
+  } catch (e: any) {
+    return res.status(400).json({ error: e.message });
+  }
+
+  // Library characters or reference images can stand in for the uploaded photo and names
+  if (!category || !sourceType || !Array.isArray(characterNames) || (!imageBase64 && characterIds.length === 0 && characterReferences.length === 0)) {
+    return res.status(400).json({ error: 'Missing required fields' });
+  }
+
+  if (imageBase64 && !isBase64Image(imageBase64)) {
+    return res.status(400).json({ error: 'Invalid base64 image format' });
+  }
+
+  let cast: GenerationCast | null;
+  try {
+    // Refuse before generating if the user has no storage left for the panels
+    await assertStorageQuota(req.userId!, 0);
+    cast = await castFromRequest(characterIds, characterNames, characterReferences, req.userId!);
+  } catch (error: any) {
+    if (error instanceof StorageQuotaError || error instanceof ImageAccessError) {
+      return res.status(error.status).json(error);
+    }
+    console.error('Error loading characters:', error);
+    return res.status(500).json({ error: 'Failed to load characters' });
+  }
+
+  if (!cast) {
+    return res.status(404).json({ error: 'Character not found' });
+  }
+
+  if (cast.characterNames.length === 0) {
+    return res.status(400).json({ error: 'At least one character name is required' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+  });
+
+  // The request emits 'close' once its body is read; the response closes when the client goes away.
+  // A client that disconnects stops the generation before its next model call.
+  const disconnected = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      disconnected.abort();
+    }
+  });
+  const isClosed = () => res.writableEnded || res.destroyed;
+
+  const sendEvent = (event: string, data: unknown) => {
+    if (isClosed()) {
+      return;
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Comment lines keep idle connections open through proxies while panels render
+  const keepAlive = setInterval(() => {
+    if (!isClosed()) {
+      res.write(': keep-alive\n\n');
+    }
+  }, 15000);
+
+  try {
+    const originalImage = imageBase64
+      ? await uploadImage(imageBase64, req.userId)
+      : cast.characterImage!;
+    const referenceImageBase64 = imageBase64 || await readImageAsBase64(originalImage);
+
+    const { title, pages, characterSignatures } = await runComicGeneration(
+      {
+        category,
+        sourceType,
+        imageBase64: referenceImageBase64,
+        characterNames: cast.characterNames,
+        characterDescriptions: cast.characterDescriptions,
+        characterReferences: cast.characterReferences,
+        layout,
+        pageCount,
+        userId: req.userId,
+      },
+      {
+        onScript: (script) => {
+          sendEvent('script', {
+            title: script.title,
+            layout: layout.name,
+            characterSignatures: script.characterSignatures,
+            pages: script.pages.map(page => ({
+              pageNumber: page.pageNumber,
+              chapterTitle: page.chapterTitle,
+              panels: Object.fromEntries(
+                Object.entries(page.panels).map(([key, panel]) => [
+                  key,
+                  { scene: panel.scene, narration: panel.narration, dialogue: panel.dialogue || [] },
+                ])
+              ),
+            })),
+          });
+        },
+        onPanel: (pageIndex, panelKey, panelIndex, panel) => {
+          sendEvent('panel', {
+            pageNumber: pageIndex + 1,
+            key: panelKey,
+            index: panelIndex,
+            scene: panel.scene,
+            narration: panel.narration,
+            dialogue: panel.dialogue || [],
+            imagePath: panel.imageUrl,
+            imageUrl: panel.imageUrl ? getImageUrl(panel.imageUrl) : undefined,
+          });
+        },
+        signal: disconnected.signal,
+      }
+    );
+
+    sendEvent('done', {
       title,
-      panels: panelsWithImages,
+      layout: layout.name,
+      characterNames: cast.characterNames,
+      characterIds: cast.characterIds,
+      characterSignatures,
+      // Full image URLs, like the panel events and GET /jobs/:id
+      pages: withFullPageUrls(pages),
+      originalImage,
+      originalImageUrl: getImageUrl(originalImage),
     });
   } catch (error: any) {
-    console.error('Error generating comic:', error);
-    res.status(500).json({ error: error.message || 'Failed to generate comic' });
+    if (disconnected.signal.aborted) {
+      console.log('Comic generation stopped, client disconnected:', { userId: req.userId });
+      return;
+    }
+    console.error('Error streaming comic generation:', error);
+    sendEvent('error', error instanceof StorageQuotaError
+      ? error.toJSON()
+      : { error: error.message || 'Failed to generate comic' });
+  } finally {
+    clearInterval(keepAlive);
+    res.end();
+  }
+});
+
+// Get generation job status
+router.get('/jobs/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const job = await getGenerationJob(req.params.id, req.userId!);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(formatGenerationJob(job));
+  } catch (error: any) {
+    console.error('Error fetching generation job:', error);
+    res.status(500).json({ error: 'Failed to fetch generation job' });
+  }
+});
+
+// Retry a failed generation job, keeping the panels that already finished
+router.post('/jobs/:id/retry', limitGeneration, async (req: AuthRequest, res: Response) => {
+  try {
+    const existing = await getGenerationJob(req.params.id, req.userId!);
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const retried = await retryGenerationJob(existing.id, req.userId!);
+
+    if (!retried) {
+      return res.status(409).json({ error: 'Only failed jobs can be retried' });
+    }
+
+    const job = await getGenerationJob(existing.id, req.userId!);
+    res.status(202).json(formatGenerationJob(job!));
+  } catch (error: any) {
+    console.error('Error retrying generation job:', error);
+    res.status(500).json({ error: 'Failed to retry generation job' });
   }
 });
 
@@ -228,15 +959,23 @@ router.post('/generate', async (req: AuthRequest, res: Response) => {
 router.put('/:id', async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const { title, category, sourceType, characterNames, originalImage, panels } = req.body;
+    const {
+      title,
+      category,
+      sourceType,
+      layout,
+      characterNames,
+      characterIds,
+      characterSignatures,
+      originalImage,
+      panels,
+      pages,
+    } = req.body;
 
     // Check if comic exists and belongs to user
-    const [existing] = await pool.execute(
-      'SELECT id FROM comics WHERE id = ? AND user_id = ?',
-      [id, req.userId]
-    ) as any[];
+    const existing = await findComic(id, req.userId);
 
-    if (existing.length === 0) {
+    if (!existing) {
       return res.status(404).json({ error: 'Comic not found' });
     }
 
@@ -256,42 +995,101 @@ router.put('/:id', async (req: AuthRequest, res: Response) => {
       updates.push('source_type = ?');
       values.push(sourceType);
     }
+    if (layout !== undefined) {
+      if (!isLayoutName(layout)) {
+        return res.status(400).json({ error: `Unknown layout "${layout}"` });
+      }
+      updates.push('layout = ?');
+      values.push(layout);
+    }
     if (characterNames !== undefined) {
       updates.push('character_names = ?');
       values.push(JSON.stringify(characterNames));
     }
+    if (characterIds !== undefined) {
+      let ids: string[];
+      try {
+        ids = characterIdsFromRequest({ characterIds });
+      } catch (e: any) {
+        return res.status(400).json({ error: e.message });
+      }
+      if (!(await ownsCharacters(ids, req.userId!))) {
+        return res.status(404).json({ error: 'Character not found' });
+      }
+      updates.push('character_ids = ?');
+      values.push(JSON.stringify(ids));
+    }
+    if (characterSignatures !== undefined) {
+      try {
+        values.push(JSON.stringify(characterSignaturesFromRequest({ characterSignatures })));
+      } catch (e: any) {
+        return res.status(400).json({ error: e.message });
+      }
+      updates.push('character_signatures = ?');
+    }
     if (originalImage !== undefined) {
       updates.push('original_image = ?');
-      values.push(originalImage);
+      values.push(await persistImageReference(originalImage, req.userId));
     }
-    if (panels !== undefined) {
-      updates.push('panels = ?');
-      values.push(JSON.stringify(panels));
+
+    // `pages` replaces every page; `panels` (+ `layout`) replaces the first page only
+    let pagesToSave: Omit<ComicPage, 'pageNumber'>[] | undefined;
+    try {
+      if (pages !== undefined || panels !== undefined) {
+        pagesToSave = pagesFromRequest({ pages, panels, layout });
+      }
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
+    if (pagesToSave) {
+      pagesToSave = await storePageImages(pagesToSave, req.userId!);
     }
 
-    if (updates.length === 0) {
+    if (updates.length === 0 && !pagesToSave) {
       return res.status(400).json({ error: 'No fields to update' });
     }
 
     updates.push('updated_at = NOW()');
     values.push(id, req.userId);
 
-    await pool.execute(
-      `UPDATE comics SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`,
-      values
-    );
+    const connection = await pool.getConnection();
+    try {
+      await connection.beginTransaction();
 
-    // Fetch updated comic
-    const [rows] = await pool.execute(
-      'SELECT * FROM comics WHERE id = ? AND user_id = ?',
-      [id, req.userId]
-    ) as any[];
+      await connection.execute(
+        `UPDATE comics SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`,
+        values
+      );
 
-    const comic = rows[0];
+      if (pages !== undefined && pagesToSave) {
+        await connection.execute('DELETE FROM comic_pages WHERE comic_id = ?', [existing.id]);
+        await insertComicPages(existing.id, pagesToSave, 1, connection);
+      } else if (pagesToSave) {
+        const updated = await updateComicPage(existing.id, 1, pagesToSave[0], connection);
+        if (!updated) {
+          await insertComicPages(existing.id, pagesToSave, 1, connection);
+        }
+      }
+      if (pagesToSave) {
+        await recordComicRevision(existing.id, 'manual', connection);
+      } else if (originalImage !== undefined) {
+        await syncComicImages(existing.id, connection);
+      }
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    // Fetch updated comic
+    const comic = await findComic(id, req.userId);
+    const savedPages = await getComicPages(comic.id);
     
     // Parse JSON fields
     let parsedCharacterNames: string[] = [];
-    let parsedPanels: any = {};
     
     try {
       parsedCharacterNames = typeof comic.character_names === 'string' 
@@ -300,51 +1098,605 @@ router.put('/:id', async (req: AuthRequest, res: Response) => {
     } catch (e) {
       parsedCharacterNames = [];
     }
-    
-    try {
-      parsedPanels = typeof comic.panels === 'string' 
-        ? JSON.parse(comic.panels) 
-        : comic.panels;
-    } catch (e) {
-      parsedPanels = {};
-    }
-
-    // Convert image paths to full URLs with backend domain
-    const convertImagePath = (path: string): string => {
-      if (!path || path.startsWith('http') || path.startsWith('data:image/')) {
-        return path;
-      }
-      return getImageUrl(path);
-    };
 
     // Convert originalImage to full URL
     const originalImageUrl = convertImagePath(comic.original_image);
 
-    // Convert panel imageUrls to full URLs
-    const panelsWithFullUrls = {
-      box1: parsedPanels.box1 ? { ...parsedPanels.box1, imageUrl: parsedPanels.box1.imageUrl ? convertImagePath(parsedPanels.box1.imageUrl) : undefined } : parsedPanels.box1,
-      box2: parsedPanels.box2 ? { ...parsedPanels.box2, imageUrl: parsedPanels.box2.imageUrl ? convertImagePath(parsedPanels.box2.imageUrl) : undefined } : parsedPanels.box2,
-      box3: parsedPanels.box3 ? { ...parsedPanels.box3, imageUrl: parsedPanels.box3.imageUrl ? convertImagePath(parsedPanels.box3.imageUrl) : undefined } : parsedPanels.box3,
-      box4: parsedPanels.box4 ? { ...parsedPanels.box4, imageUrl: parsedPanels.box4.imageUrl ? convertImagePath(parsedPanels.box4.imageUrl) : undefined } : parsedPanels.box4,
-      box5: parsedPanels.box5 ? { ...parsedPanels.box5, imageUrl: parsedPanels.box5.imageUrl ? convertImagePath(parsedPanels.box5.imageUrl) : undefined } : parsedPanels.box5,
-    };
-
     res.json({
       id: comic.id.toString(),
       title: comic.title,
       createdAt: new Date(comic.created_at).getTime(),
       category: comic.category,
       sourceType: comic.source_type,
+      layout: getLayout(comic.layout).name,
       characterNames: parsedCharacterNames,
+      characterIds: parseJsonArray(comic.character_ids, 'character_ids'),
+      characterSignatures: parseJsonArray(comic.character_signatures, 'character_signatures'),
       originalImage: originalImageUrl,
-      panels: panelsWithFullUrls,
+      panels: withFullImageUrls(savedPages[0]?.panels || {}),
+      pages: withFullPageUrls(savedPages),
     });
   } catch (error: any) {
+    if (
+      error instanceof StorageQuotaError ||
+      error instanceof ImageAccessError ||
+      error instanceof InvalidImageReferenceError
+    ) {
+      return res.status(error.status).json(error);
+    }
     console.error('Error updating comic:', error);
     res.status(500).json({ error: 'Failed to update comic' });
   }
 });
 
+// Generate the next page of a comic as a background job, continuing its story
+router.post('/:id/pages', limitGeneration, async (req: AuthRequest, res: Response) => {
+  try {
+    const comic = await findComic(req.params.id, req.userId);
+
+    if (!comic) {
+      return res.status(404).json({ error: 'Comic not found' });
+    }
+
+    const { direction } = req.body;
+
+    // New pages use the comic's layout unless another one is requested
+    let layout: LayoutTemplate;
+    try {
+      layout = (req.body.layout || req.body.panelCount !== undefined)
+        ? layoutFromRequest(req.body)
+        : getLayout(comic.layout);
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
+
+    const existingPages = await getComicPages(comic.id);
+    if (existingPages.length >= MAX_COMIC_PAGES) {
+      return res.status(400).json({ error: `A comic can have at most ${MAX_COMIC_PAGES} pages` });
+    }
+
+    let characterNames: string[] = [];
+    try {
+      characterNames = typeof comic.character_names === 'string'
+        ? JSON.parse(comic.character_names)
+        : comic.character_names;
+    } catch (e) {
+      console.error('Error parsing character_names:', e);
+    }
+
+    // Reuse the traits of the comic's library characters that still exist
+    const characters = await getCharactersByIds(
+      parseJsonArray(comic.character_ids, 'character_ids'),
+      req.userId!
+    );
+
+    // Older comics may still hold the reference image inline; the worker needs a stored file
+    let originalImage: string = comic.original_image;
+    if (originalImage.startsWith('data:image/')) {
+      originalImage = await uploadImage(originalImage, req.userId);
+    } else if (originalImage.startsWith('http')) {
+      return res.status(400).json({ error: 'Comic reference image is not stored on this server' });
+    }
+
+    await assertStorageQuota(req.userId!, 0);
+    const job = await createGenerationJob(
+      req.userId!,
+      {
+        category: comic.category,
+        sourceType: comic.source_type,
+        characterNames,
+        characterIds: characters.map(character => character.id),
+        characterDescriptions: characters.map(toCharacterDescription),
+        characterReferences: characters.map(getCharacterReferenceImages),
+        layout: layout.name,
+        direction: typeof direction === 'string' ? direction : undefined,
+        originalImage,
+      },
+      'page',
+      comic.id.toString()
+    );
+
+    console.log('Page generation job queued:', { id: job.id, comicId: comic.id });
+
+    res.status(202).json(formatGenerationJob(job));
+  } catch (error: any) {
+    if (error instanceof StorageQuotaError) {
+      return res.status(error.status).json(error);
+    }
+    console.error('Error queuing page generation:', error);
+    res.status(500).json({ error: 'Failed to start page generation' });
+  }
+});
+
+/**
+ * GET /api/comics/:id/export
+ * Download the comic rendered onto pages.
+ * Query: format=png (one page, `page` defaults to 1), format=pdf (all pages, for printing,
+ * with pageSize=a4|letter, bleedMm (default 3) and marginMm (default 12)), or format=cbz|epub
+ * (all pages, for comic reader apps)
+ */
+router.get('/:id/export', async (req: AuthRequest, res: Response) => {
+  try {
+    const format = String(req.query.format || 'png').toLowerCase();
+    if (format !== 'png' && format !== 'pdf' && !ARCHIVE_FORMATS.includes(format as ArchiveFormat)) {
+      return res.status(400).json({ error: `format must be one of: png, pdf, ${ARCHIVE_FORMATS.join(', ')}` });
+    }
+
+    const pageSize = String(req.query.pageSize || 'a4').toLowerCase();
+    if (!Object.hasOwn(PRINT_PAGE_SIZES, pageSize)) {
+      return res.status(400).json({ error: `pageSize must be one of: ${Object.keys(PRINT_PAGE_SIZES).join(', ')}` });
+    }
+
+    const [bleedMm, marginMm] = [req.query.bleedMm, req.query.marginMm].map(value =>
+      value === undefined ? undefined : parseFloat(String(value))
+    );
+    if ([bleedMm, marginMm].some(value => value !== undefined && !(value >= 0 && value <= 50))) {
+      return res.status(400).json({ error: 'bleedMm and marginMm must be between 0 and 50' });
+    }
+
+    const comic = await findComic(req.params.id, req.userId);
+    if (!comic) {
+      return res.status(404).json({ error: 'Comic not found' });
+    }
+
+    if (format === 'png') {
+      const pageNumber = req.query.page === undefined ? 1 : parsePageNumber(String(req.query.page));
+      const page = pageNumber ? await getComicPage(comic.id, pageNumber) : null;
+      if (!page) {
+        return res.status(404).json({ error: 'Page not found' });
+      }
+
+      const png = await renderComicPage(page, { title: page.pageNumber === 1 ? comic.title : null });
+      res.setHeader('Content-Type', 'image/png');
+      res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(comic.title, 'png')}"`);
+      return res.send(png);
+    }
+
+    if (format !== 'pdf') {
+      const archiveComic = await toArchiveComic(comic);
+      if (archiveComic.pages.length === 0) {
+        return res.status(404).json({ error: 'Comic has no pages' });
+      }
+      return sendArchive(res, format as ArchiveFormat, comic.title, await buildComicArchive(format as ArchiveFormat, [archiveComic]));
+    }
+
+    const pages = await getComicPages(comic.id);
+    if (pages.length === 0) {
+      return res.status(404).json({ error: 'Comic has no pages' });
+    }
+
+    const pdf = await renderComicPdf(pages, {
+      title: comic.title,
+      pageSize: pageSize as PrintPageSize,
+      bleedMm,
+      marginMm,
+    });
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(comic.title, 'pdf')}"`);
+    res.send(pdf);
+  } catch (error: any) {
+    console.error('Error exporting comic:', error);
+    res.status(500).json({ error: 'Failed to export comic' });
+  }
+});
+
+// Get a single page of a comic
+router.get('/:id/pages/:pageNumber', async (req: AuthRequest, res: Response) => {
+  try {
+    const comic = await findComic(req.params.id, req.userId);
+    const pageNumber = parsePageNumber(req.params.pageNumber);
+
+    if (!comic || !pageNumber) {
+      return res.status(404).json({ error: 'Page not found' });
+    }
+
+    const page = await getComicPage(comic.id, pageNumber);
+
+    if (!page) {
+      return res.status(404).json({ error: 'Page not found' });
+    }
+
+    res.json({ ...page, panels: withFullImageUrls(page.panels) });
+  } catch (error: any) {
+    console.error('Error fetching comic page:', error);
+    res.status(500).json({ error: 'Failed to fetch comic page' });
+  }
+});
+
+// Update a single page of a comic
+router.put('/:id/pages/:pageNumber', async (req: AuthRequest, res: Response) => {
+  try {
+    const comic = await findComic(req.params.id, req.userId);
+    const pageNumber = parsePageNumber(req.params.pageNumber);
+
+    if (!comic || !pageNumber) {
+      return res.status(404).json({ error: 'Page not found' });
+    }
+
+    const { layout, chapterTitle, panels } = req.body;
+
+    if (layout === undefined && chapterTitle === undefined && panels === undefined) {
+      return res.status(400).json({ error: 'No fields to update' });
+    }
+
+    const changes: Partial<Omit<ComicPage, 'pageNumber'>> = {};
+    try {
+      if (panels !== undefined) {
+        const [page] = pagesFromRequest({ panels, layout });
+        changes.layout = page.layout;
+        changes.panels = (await storePageImages([page], req.userId!))[0].panels;
+      } else if (layout !== undefined) {
+        changes.layout = resolveLayout(layout).name;
+      }
+    } catch (e: any) {
+      if (e instanceof StorageQuotaError || e instanceof ImageAccessError) {
+        return res.status(e.status).json(e);
+      }
+      return res.status(400).json({ error: e.message });
+    }
+    if (chapterTitle !== undefined) {
+      changes.chapterTitle = chapterTitle;
+    }
+
+    const connection = await pool.getConnection();
+    let updated: boolean;
+    try {
+      await connection.beginTransaction();
+      updated = await updateComicPage(comic.id, pageNumber, changes, connection);
+      if (updated && changes.panels) {
+        await recordComicRevision(comic.id, 'manual', connection);
+      }
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    if (!updated) {
+      return res.status(404).json({ error: 'Page not found' });
+    }
+
+    const page = await getComicPage(comic.id, pageNumber);
+    res.json({ ...page!, panels: withFullImageUrls(page!.panels) });
+  } catch (error: any) {
+    if (
+      error instanceof StorageQuotaError ||
+      error instanceof ImageAccessError ||
+      error instanceof InvalidImageReferenceError
+    ) {
+      return res.status(error.status).json(error);
+    }
+    console.error('Error updating comic page:', error);
+    res.status(500).json({ error: 'Failed to update comic page' });
+  }
+});
+
+// Delete a page of a comic; later pages move up
+router.delete('/:id/pages/:pageNumber', async (req: AuthRequest, res: Response) => {
+  try {
+    const comic = await findComic(req.params.id, req.userId);
+    const pageNumber = parsePageNumber(req.params.pageNumber);
+
+    if (!comic || !pageNumber) {
+      return res.status(404).json({ error: 'Page not found' });
+    }
+
+    const pages = await getComicPages(comic.id);
+    if (pages.length <= 1) {
+      return res.status(400).json({ error: 'A comic must keep at least one page' });
+    }
+
+    const connection = await pool.getConnection();
+    let deleted: boolean;
+    try {
+      await connection.beginTransaction();
+      deleted = await deleteComicPage(comic.id, pageNumber, connection);
+      if (deleted) {
+        await recordComicRevision(comic.id, 'manual', connection);
+      }
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Page not found' });
+    }
+
+    res.status(204).send();
+  } catch (error: any) {
+    console.error('Error deleting comic page:', error);
+    res.status(500).json({ error: 'Failed to delete comic page' });
+  }
+});
+
+// Render a new image for one panel from its stored scene
+router.post('/:id/pages/:pageNumber/panels/:panelNumber/regenerate', limitGeneration, async (req: AuthRequest, res: Response) => {
+  try {
+    const comic = await findComic(req.params.id, req.userId);
+    const pageNumber = parsePageNumber(req.params.pageNumber);
+    const panelKey = parsePanelKey(req.params.panelNumber);
+
+    if (!comic || !pageNumber || !panelKey) {
+      return res.status(404).json({ error: 'Panel not found' });
+    }
+
+    const update = await regenerateComicPanel(comic, pageNumber, panelKey, req.userId!);
+
+    if (!update) {
+      return res.status(404).json({ error: 'Panel not found' });
+    }
+
+    res.json(formatPanelUpdate(update));
+  } catch (error: any) {
+    if (error instanceof StorageQuotaError) {
+      return res.status(error.status).json(error);
+    }
+    console.error('Error regenerating panel:', error);
+    res.status(500).json({ error: error.message || 'Failed to regenerate panel' });
+  }
+});
+
+// Rewrite one panel's scene, narration and dialogue with an instruction, then render it again
+router.post('/:id/pages/:pageNumber/panels/:panelNumber/rewrite', limitGeneration, async (req: AuthRequest, res: Response) => {
+  try {
+    const { instruction } = req.body;
+
+    if (!instruction || typeof instruction !== 'string') {
+      return res.status(400).json({ error: 'instruction is required' });
+    }
+
+    const comic = await findComic(req.params.id, req.userId);
+    const pageNumber = parsePageNumber(req.params.pageNumber);
+    const panelKey = parsePanelKey(req.params.panelNumber);
+
+    if (!comic || !pageNumber || !panelKey) {
+      return res.status(404).json({ error: 'Panel not found' });
+    }
+
+    const update = await rewriteComicPanel(comic, pageNumber, panelKey, instruction, req.userId!);
+
+    if (!update) {
+      return res.status(404).json({ error: 'Panel not found' });
+    }
+
+    res.json(formatPanelUpdate(update));
+  } catch (error: any) {
+    if (error instanceof StorageQuotaError) {
+      return res.status(error.status).json(error);
+    }
+    console.error('Error rewriting panel:', error);
+    res.status(500).json({ error: error.message || 'Failed to rewrite panel' });
+  }
+});
+
+// Apply an edit prompt to one panel's image
+router.post('/:id/pages/:pageNumber/panels/:panelNumber/edit', limitImageEdits, async (req: AuthRequest, res: Response) => {
+  try {
+    const { prompt } = req.body;
+
+    if (!prompt || typeof prompt !== 'string') {
+      return res.status(400).json({ error: 'prompt is required' });
+    }
+
+    const comic = await findComic(req.params.id, req.userId);
+    const pageNumber = parsePageNumber(req.params.pageNumber);
+    const panelKey = parsePanelKey(req.params.panelNumber);
+
+    if (!comic || !pageNumber || !panelKey) {
+      return res.status(404).json({ error: 'Panel not found' });
+    }
+
+    const page = await getComicPage(comic.id, pageNumber);
+    const panel = page?.panels[panelKey];
+
+    if (!panel) {
+      return res.status(404).json({ error: 'Panel not found' });
+    }
+
+    if (!panel.imageUrl) {
+      return res.status(400).json({ error: 'Panel has no image to edit' });
+    }
+
+    const update = await editComicPanel(comic, pageNumber, panelKey, prompt);
+
+    if (!update) {
+      return res.status(404).json({ error: 'Panel not found' });
+    }
+
+    res.json(formatPanelUpdate(update));
+  } catch (error: any) {
+    if (error instanceof StorageQuotaError) {
+      return res.status(error.status).json(error);
+    }
+    console.error('Error editing panel:', error);
+    res.status(500).json({ error: error.message || 'Failed to edit panel' });
+  }
+});
+
+// Download one panel's image lettered with its caption and speech/thought bubbles
+router.get('/:id/pages/:pageNumber/panels/:panelNumber/lettered', async (req: AuthRequest, res: Response) => {
+  try {
+    const comic = await findComic(req.params.id, req.userId);
+    const pageNumber = parsePageNumber(req.params.pageNumber);
+    const panelKey = parsePanelKey(req.params.panelNumber);
+
+    if (!comic || !pageNumber || !panelKey) {
+      return res.status(404).json({ error: 'Panel not found' });
+    }
+
+    const page = await getComicPage(comic.id, pageNumber);
+    const panel = page?.panels[panelKey];
+
+    if (!panel) {
+      return res.status(404).json({ error: 'Panel not found' });
+    }
+
+    const lettered = await renderLetteredPanel(panel);
+
+    if (!lettered) {
+      return res.status(400).json({ error: 'Panel has no image to letter' });
+    }
+
+    res.setHeader('Content-Type', 'image/png');
+    res.send(lettered);
+  } catch (error: any) {
+    console.error('Error lettering panel:', error);
+    res.status(500).json({ error: 'Failed to letter panel' });
+  }
+});
+
+// List a comic's panel revisions, newest first (optionally for one page or panel)
+router.get('/:id/revisions', async (req: AuthRequest, res: Response) => {
+  try {
+    const comic = await findComic(req.params.id, req.userId);
+
+    if (!comic) {
+      return res.status(404).json({ error: 'Comic not found' });
+    }
+
+    const { pageNumber, panel } = req.query;
+    const filter: { pageNumber?: number; key?: string } = {};
+
+    if (pageNumber !== undefined) {
+      const parsed = parsePageNumber(String(pageNumber));
+      if (!parsed) {
+        return res.status(400).json({ error: 'pageNumber must be a positive integer' });
+      }
+      filter.pageNumber = parsed;
+    }
+    if (panel !== undefined) {
+      const key = parsePanelKey(String(panel));
+      if (!key) {
+        return res.status(400).json({ error: 'panel must be a panel number or key' });
+      }
+      filter.key = key;
+    }
+
+    const revisions = await listComicRevisions(comic.id, filter);
+
+    res.json(revisions.map(formatRevision));
+  } catch (error: any) {
+    console.error('Error fetching revisions:', error);
+    res.status(500).json({ error: 'Failed to fetch revisions' });
+  }
+});
+
+// Compare two revisions of a comic: the panels that differ between them
+router.get('/:id/revisions/compare', async (req: AuthRequest, res: Response) => {
+  try {
+    const from = parseRevision(req.query.from);
+    const to = parseRevision(req.query.to);
+
+    if (!from || !to) {
+      return res.status(400).json({ error: 'from and to revisions are required' });
+    }
+
+    const comic = await findComic(req.params.id, req.userId);
+
+    if (!comic) {
+      return res.status(404).json({ error: 'Comic not found' });
+    }
+
+    const differences = await compareRevisions(comic.id, from, to);
+
+    if (!differences) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    res.json({
+      from,
+      to,
+      panels: differences.map(difference => ({
+        pageNumber: difference.pageNumber,
+        key: difference.key,
+        changes: difference.changes,
+        from: formatPanelState(difference.from),
+        to: formatPanelState(difference.to),
+      })),
+    });
+  } catch (error: any) {
+    console.error('Error comparing revisions:', error);
+    res.status(500).json({ error: 'Failed to compare revisions' });
+  }
+});
+
+// Revert one panel (`pageNumber` + `panel`) or the whole comic to a revision
+router.post('/:id/revisions/:revision/revert', async (req: AuthRequest, res: Response) => {
+  try {
+    const { pageNumber, panel } = req.body;
+    const revision = parseRevision(req.params.revision);
+
+    if ((pageNumber === undefined) !== (panel === undefined)) {
+      return res.status(400).json({ error: 'pageNumber and panel must be given together' });
+    }
+
+    let target: { pageNumber: number; key: string } | undefined;
+    if (pageNumber !== undefined) {
+      const parsedPage = parsePageNumber(String(pageNumber));
+      const key = parsePanelKey(String(panel));
+      if (!parsedPage || !key) {
+        return res.status(400).json({ error: 'pageNumber and panel must identify a panel' });
+      }
+      target = { pageNumber: parsedPage, key };
+    }
+
+    const comic = await findComic(req.params.id, req.userId);
+
+    if (!comic || !revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    const result = await revertComic(comic.id, revision, target);
+
+    if (!result) {
+      return res.status(404).json({ error: target ? 'Panel not found at this revision' : 'Revision not found' });
+    }
+
+    const pages = await getComicPages(comic.id);
+
+    res.json({
+      revision: result.revision,
+      panels: withFullImageUrls(pages[0]?.panels || {}),
+      pages: withFullPageUrls(pages),
+    });
+  } catch (error: any) {
+    console.error('Error reverting comic:', error);
+    res.status(500).json({ error: 'Failed to revert comic' });
+  }
+});
+
+// Drop all but the latest `keep` revisions and delete images nothing refers to any more
+router.post('/:id/revisions/prune', async (req: AuthRequest, res: Response) => {
+  try {
+    const keep = parseRevision(req.body.keep);
+
+    if (!keep) {
+      return res.status(400).json({ error: 'keep must be a positive integer' });
+    }
+
+    const comic = await findComic(req.params.id, req.userId);
+
+    if (!comic) {
+      return res.status(404).json({ error: 'Comic not found' });
+    }
+
+    const result = await pruneRevisions(comic.id, keep);
+
+    console.log('Comic revisions pruned:', { id: comic.id, ...result });
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('Error pruning revisions:', error);
+    res.status(500).json({ error: 'Failed to prune revisions' });
+  }
+});
+
 // Delete comic
 router.delete('/:id', async (req: AuthRequest, res: Response) => {
   try {
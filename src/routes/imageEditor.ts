@@ -1,14 +1,27 @@
 import express, { Response } from 'express';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
-import { editImageWithGemini } from '../services/gemini.js';
+import { limitImageEdits } from '../middleware/rateLimit.js';
+import { getGenerationProvider } from '../services/generationProvider.js';
+import {
+  canUseImage,
+  getImageUrl,
+  isImageInput,
+  readImageAsBase64,
+  toStoredImagePath,
+  uploadImage,
+} from '../services/imageUpload.js';
+import { decodeBase64Image } from '../services/imageProcessing.js';
+import { letterPanel, parseLetteringElements, LetteringElement } from '../services/lettering.js';
+import { StorageQuotaError } from '../services/storageQuota.js';
 
 const router = express.Router();
 
 // All routes require authentication
 router.use(authenticateToken);
 
-// Edit image with prompt
-router.post('/edit', async (req: AuthRequest, res: Response) => {
+// Edit image with prompt. The image may be base64 or an uploaded image path;
+// the edited image is stored and returned as a path and URL.
+router.post('/edit', limitImageEdits, async (req: AuthRequest, res: Response) => {
   try {
     const { imageBase64, prompt } = req.body;
 
@@ -16,14 +29,80 @@ router.post('/edit', async (req: AuthRequest, res: Response) => {
       return res.status(400).json({ error: 'Image and prompt are required' });
     }
 
-    const editedImage = await editImageWithGemini(imageBase64, prompt);
+    if (!isImageInput(imageBase64)) {
+      return res.status(400).json({ error: 'Image must be a base64 image or an uploaded image path' });
+    }
+
+    // Stored images of other users are answered as missing
+    const storedPath = toStoredImagePath(imageBase64);
+    if (storedPath && !(await canUseImage(storedPath, req.userId!))) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+    let image: string;
+    try {
+      image = storedPath ? await readImageAsBase64(storedPath) : imageBase64;
+    } catch {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+
+    const editedImage = await getGenerationProvider().editImage(image, prompt);
+    const imagePath = await uploadImage(editedImage, req.userId);
 
-    res.json({ imageUrl: editedImage });
+    res.json({ imagePath, imageUrl: getImageUrl(imagePath) });
   } catch (error: any) {
+    if (error instanceof StorageQuotaError) {
+      return res.status(error.status).json(error);
+    }
     console.error('Error editing image:', error);
     res.status(500).json({ error: error.message || 'Failed to edit image' });
   }
 });
 
-export default router;
+// Letter an image with caption boxes and speech/thought bubbles. The image may be
+// base64 or an uploaded image path; the lettered image is stored as a new image.
+router.post('/letter', async (req: AuthRequest, res: Response) => {
+  try {
+    const { imageBase64 } = req.body;
+
+    if (!imageBase64 || !isImageInput(imageBase64)) {
+      return res.status(400).json({ error: 'Image must be a base64 image or an uploaded image path' });
+    }
+
+    let elements: LetteringElement[];
+    try {
+      elements = parseLetteringElements(req.body.elements);
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
 
+    // Stored images of other users are answered as missing
+    const storedPath = toStoredImagePath(imageBase64);
+    if (storedPath && !(await canUseImage(storedPath, req.userId!))) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+    let image: string;
+    try {
+      image = storedPath ? await readImageAsBase64(storedPath) : imageBase64;
+    } catch {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+
+    const decoded = decodeBase64Image(image);
+    if (!decoded) {
+      return res.status(400).json({ error: 'Invalid image data' });
+    }
+
+    const lettered = await letterPanel(decoded.buffer, elements);
+    const imagePath = await uploadImage(`data:image/png;base64,${lettered.toString('base64')}`, req.userId);
+
+    res.json({ imagePath, imageUrl: getImageUrl(imagePath) });
+  } catch (error: any) {
+    if (error instanceof StorageQuotaError) {
+      return res.status(error.status).json(error);
+    }
+    console.error('Error lettering image:', error);
+    res.status(500).json({ error: error.message || 'Failed to letter image' });
+  }
+});
+
+export default router;
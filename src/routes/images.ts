@@ -1,21 +1,42 @@
 import express, { Response } from 'express';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
-import { uploadImage, deleteImage, isBase64Image, getImageUrl } from '../services/imageUpload.js';
+import {
+  uploadImageData,
+  reuseImage,
+  deleteImage,
+  isBase64Image,
+  getImageUrl,
+  getImageRenditionUrls,
+  toStoredImagePath,
+  UploadedImage,
+} from '../services/imageUpload.js';
+import { getImageComicIds, getImageRecord, removeImageOwner } from '../services/images.js';
+import { getStorageUsage, StorageQuotaError } from '../services/storageQuota.js';
+import { isImageReferenced } from '../services/panelRevisions.js';
 
 const router = express.Router();
 
 // All routes require authentication
 router.use(authenticateToken);
 
+const toUploadResponse = ({ imagePath, hash, deduplicated }: UploadedImage) => ({
+  imagePath,
+  imageUrl: getImageUrl(imagePath),
+  hash,
+  deduplicated,
+  ...getImageRenditionUrls(imagePath),
+});
+
 /**
  * POST /api/images/upload
- * Upload a base64 image to the server
- * Body: { imageBase64: string, fileName?: string }
- * Returns: { imagePath: string, imageUrl: string }
+ * Upload a base64 image to the server. Identical images are stored once;
+ * `deduplicated` is true when the content was already stored.
+ * Body: { imageBase64: string }
+ * Returns: { imagePath, imageUrl, hash, deduplicated, thumbnailUrl, mediumUrl }
  */
 router.post('/upload', async (req: AuthRequest, res: Response) => {
   try {
-    const { imageBase64, fileName } = req.body;
+    const { imageBase64 } = req.body;
 
     if (!imageBase64) {
       return res.status(400).json({ error: 'imageBase64 is required' });
@@ -25,17 +46,11 @@ router.post('/upload', async (req: AuthRequest, res: Response) => {
       return res.status(400).json({ error: 'Invalid base64 image format' });
     }
 
-    // Upload image
-    const imagePath = await uploadImage(imageBase64, fileName);
-    
-    // Return path and full URL with backend domain
-    const imageUrl = getImageUrl(imagePath);
-
-    res.json({
-      imagePath,
-      imageUrl,
-    });
+    res.json(toUploadResponse(await uploadImageData(imageBase64, req.userId)));
   } catch (error: any) {
+    if (error instanceof StorageQuotaError) {
+      return res.status(error.status).json(error);
+    }
     console.error('Error uploading image:', error);
     res.status(500).json({ error: 'Failed to upload image' });
   }
@@ -44,8 +59,8 @@ router.post('/upload', async (req: AuthRequest, res: Response) => {
 /**
  * POST /api/images/upload-multiple
  * Upload multiple base64 images
- * Body: { images: Array<{ imageBase64: string, fileName?: string }> }
- * Returns: Array<{ imagePath: string, imageUrl: string }>
+ * Body: { images: Array<{ imageBase64: string }> }
+ * Returns: Array<{ imagePath, imageUrl, hash, deduplicated, thumbnailUrl, mediumUrl }>
  */
 router.post('/upload-multiple', async (req: AuthRequest, res: Response) => {
   try {
@@ -55,36 +70,103 @@ router.post('/upload-multiple', async (req: AuthRequest, res: Response) => {
       return res.status(400).json({ error: 'images array is required' });
     }
 
-    const uploadPromises = images.map(async (img: { imageBase64: string; fileName?: string }) => {
-      if (!isBase64Image(img.imageBase64)) {
-        throw new Error('Invalid base64 image format');
-      }
-      const imagePath = await uploadImage(img.imageBase64, img.fileName);
-      return {
-        imagePath,
-        imageUrl: getImageUrl(imagePath),
-      };
-    });
+    if (images.some((img: { imageBase64?: unknown }) => typeof img?.imageBase64 !== 'string' || !isBase64Image(img.imageBase64))) {
+      return res.status(400).json({ error: 'Invalid base64 image format' });
+    }
 
-    const results = await Promise.all(uploadPromises);
+    // One at a time, so duplicates within the request are stored once
+    const results = [];
+    for (const img of images as Array<{ imageBase64: string }>) {
+      results.push(toUploadResponse(await uploadImageData(img.imageBase64, req.userId)));
+    }
 
     res.json(results);
   } catch (error: any) {
+    if (error instanceof StorageQuotaError) {
+      return res.status(error.status).json(error);
+    }
     console.error('Error uploading images:', error);
     res.status(500).json({ error: error.message || 'Failed to upload images' });
   }
 });
 
+/**
+ * POST /api/images/reuse
+ * Use an image the user already uploaded, by the SHA-256 hash of its content,
+ * without uploading it again. Other users' images are not found; their content
+ * has to be uploaded (and is then deduplicated).
+ * Body: { hash: string }
+ * Returns: { imagePath, imageUrl, hash, deduplicated, thumbnailUrl, mediumUrl }, or 404 if unknown
+ */
+router.post('/reuse', async (req: AuthRequest, res: Response) => {
+  try {
+    const { hash } = req.body;
+
+    if (typeof hash !== 'string' || !/^[a-f0-9]{64}$/i.test(hash)) {
+      return res.status(400).json({ error: 'hash must be a SHA-256 hex digest' });
+    }
+
+    const image = await reuseImage(hash.toLowerCase(), req.userId!);
+    if (!image) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+
+    res.json(toUploadResponse(image));
+  } catch (error: any) {
+    if (error instanceof StorageQuotaError) {
+      return res.status(error.status).json(error);
+    }
+    console.error('Error reusing image:', error);
+    res.status(500).json({ error: 'Failed to reuse image' });
+  }
+});
+
+/**
+ * GET /api/images/usage
+ * Storage used by the user's images and their quota
+ * Returns: { usedBytes: number, quotaBytes: number | null, imageCount: number }
+ */
+router.get('/usage', async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await getStorageUsage(req.userId!));
+  } catch (error: any) {
+    console.error('Error fetching storage usage:', error);
+    res.status(500).json({ error: 'Failed to fetch storage usage' });
+  }
+});
+
 /**
  * DELETE /api/images/:path
- * Delete an image (path should be URL encoded)
+ * Delete one of the user's images (path should be URL encoded).
+ * Images still used by one of the user's comics, panel revisions or characters are kept.
+ * Returns 409 with the ids of the user's comics using the image.
+ * The file itself is removed once no other user owns or uses it.
  */
 router.delete('/:path(*)', async (req: AuthRequest, res: Response) => {
   try {
-    const imagePath = decodeURIComponent(req.params.path);
-    
-    await deleteImage(imagePath);
-    
+    const imagePath = toStoredImagePath(decodeURIComponent(req.params.path).replace(/^\/?uploads\//, ''));
+    if (!imagePath) {
+      return res.status(400).json({ error: 'Invalid image path' });
+    }
+
+    // Other users' images are reported as missing, like other resources they own
+    const image = await getImageRecord(imagePath);
+    if (!image || !image.ownerIds.includes(String(req.userId))) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+
+    if (await isImageReferenced(imagePath, req.userId!)) {
+      return res.status(409).json({
+        error: 'Image is still in use',
+        comicIds: await getImageComicIds(image.id, req.userId!),
+      });
+    }
+
+    await removeImageOwner(image.id, req.userId!);
+    if (image.ownerIds.length === 1 && !(await isImageReferenced(imagePath))) {
+      await deleteImage(imagePath);
+    }
+
     res.status(204).send();
   } catch (error: any) {
     console.error('Error deleting image:', error);
@@ -0,0 +1,42 @@
+import express, { Request, Response } from 'express';
+import { getStorage, isSafeStorageKey } from '../services/storage.js';
+
+const router = express.Router();
+
+/**
+ * GET /uploads/:key
+ * Stream a stored image from storage that is not served from local disk,
+ * so `/uploads/...` URLs keep working after switching drivers.
+ * Public, like the static uploads folder.
+ */
+router.get('/*', async (req: Request, res: Response) => {
+  try {
+    const key = req.params[0];
+    const storage = getStorage();
+
+    const object = key && isSafeStorageKey(key) ? await storage.stat(key) : null;
+    const stream = object ? await storage.stream(key) : null;
+
+    if (!object || !stream) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+
+    res.set({
+      'Content-Type': object.contentType,
+      'Content-Length': object.size.toString(),
+      'Last-Modified': object.lastModified.toUTCString(),
+      'Cache-Control': 'public, max-age=86400',
+    });
+
+    stream.on('error', (error) => {
+      console.error('Error streaming image:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error: any) {
+    console.error('Error serving image:', error);
+    res.status(500).json({ error: 'Failed to load image' });
+  }
+});
+
+export default router;
@@ -0,0 +1,39 @@
+/**
+ * Clean Up Images
+ *
+ * Deletes stored images that no comic, panel revision, generation job or
+ * character uses and that are older than IMAGE_CLEANUP_GRACE_HOURS (default 24).
+ * The server also does this periodically; this runs it on demand.
+ *
+ * Usage: npm run cleanup-images [-- --dry-run] [-- --grace-hours=N]
+ */
+
+import pool from '../config/database.js';
+import { cleanupOrphanedImages } from '../services/imageCleanup.js';
+
+const dryRun = process.argv.includes('--dry-run');
+const graceArg = process.argv.find(arg => arg.startsWith('--grace-hours='));
+const graceHours = graceArg ? parseFloat(graceArg.split('=')[1]) : undefined;
+
+if (graceHours !== undefined && !(graceHours >= 0)) {
+  console.error('--grace-hours must be a number of hours');
+  process.exit(1);
+}
+
+try {
+  console.log(dryRun ? 'Looking for unused images (dry run)...' : 'Deleting unused images...');
+  const { checked, deleted, freedBytes, removedRecords } = await cleanupOrphanedImages({ graceHours, dryRun });
+
+  for (const imagePath of deleted) {
+    console.log(`  ${imagePath}`);
+  }
+  console.log(
+    `Done: ${checked} images checked, ${deleted.length} ${dryRun ? 'unused' : 'deleted'} ` +
+    `(${(freedBytes / 1024 / 1024).toFixed(1)} MB), ${removedRecords} records of missing files ${dryRun ? 'found' : 'removed'}`
+  );
+} catch (error) {
+  console.error('Failed to clean up images:', error);
+  process.exitCode = 1;
+} finally {
+  await pool.end();
+}
@@ -0,0 +1,110 @@
+/**
+ * Extract Inline Images
+ *
+ * Older comics stored their reference photo and panel images inline as base64
+ * data URLs. This moves every inline image into storage and replaces
+ * it with the stored path, owned by the comic's owner. Images are stored by
+ * content hash, so identical images are written once. Safe to run again.
+ *
+ * Usage: npm run extract-inline-images
+ */
+
+import pool from '../config/database.js';
+import { uploadImageData } from '../services/imageUpload.js';
+import { syncComicImages } from '../services/images.js';
+import type { ComicPanels } from '../services/generationProvider.js';
+
+const INLINE_IMAGE = 'data:image/%';
+
+// Image files written during this run (not counting ones already stored)
+let writtenImages = 0;
+
+// Comics whose image references changed
+const updatedComics = new Set<number>();
+
+const storeInlineImage = async (dataUrl: string, userId: number): Promise<string> => {
+  const { imagePath, deduplicated } = await uploadImageData(dataUrl, userId);
+  if (!deduplicated) {
+    writtenImages++;
+  }
+  return imagePath;
+};
+
+const extractComicImages = async (): Promise<number> => {
+  const [rows] = await pool.execute(
+    'SELECT id, user_id FROM comics WHERE original_image LIKE ?',
+    [INLINE_IMAGE]
+  ) as any[];
+
+  for (const { id, user_id } of rows) {
+    const [comics] = await pool.execute('SELECT original_image FROM comics WHERE id = ?', [id]) as any[];
+    const imagePath = await storeInlineImage(comics[0].original_image, user_id);
+    await pool.execute('UPDATE comics SET original_image = ? WHERE id = ?', [imagePath, id]);
+    updatedComics.add(id);
+  }
+
+  return rows.length;
+};
+
+const extractPageImages = async (): Promise<number> => {
+  const [rows] = await pool.execute(
+    `SELECT p.id, p.comic_id, c.user_id
+     FROM comic_pages p
+     JOIN comics c ON c.id = p.comic_id
+     WHERE CAST(p.panels AS CHAR) LIKE ?`,
+    [`%${INLINE_IMAGE}`]
+  ) as any[];
+
+  for (const { id, comic_id, user_id } of rows) {
+    updatedComics.add(comic_id);
+    const [pages] = await pool.execute('SELECT panels FROM comic_pages WHERE id = ?', [id]) as any[];
+    const panels: ComicPanels = typeof pages[0].panels === 'string' ? JSON.parse(pages[0].panels) : pages[0].panels;
+
+    for (const [key, panel] of Object.entries(panels)) {
+      if (panel?.imageUrl?.startsWith('data:image/')) {
+        // Only this panel is replaced, in case the page was edited meanwhile
+        await pool.execute(
+          'UPDATE comic_pages SET panels = JSON_SET(panels, ?, ?) WHERE id = ?',
+          [`$.${key}.imageUrl`, await storeInlineImage(panel.imageUrl, user_id), id]
+        );
+      }
+    }
+  }
+
+  return rows.length;
+};
+
+const extractRevisionImages = async (): Promise<number> => {
+  const [rows] = await pool.execute(
+    `SELECT r.id, r.comic_id, c.user_id
+     FROM panel_revisions r
+     JOIN comics c ON c.id = r.comic_id
+     WHERE r.image_url LIKE ?`,
+    [INLINE_IMAGE]
+  ) as any[];
+
+  for (const { id, comic_id, user_id } of rows) {
+    updatedComics.add(comic_id);
+    const [revisions] = await pool.execute('SELECT image_url FROM panel_revisions WHERE id = ?', [id]) as any[];
+    const imagePath = await storeInlineImage(revisions[0].image_url, user_id);
+    await pool.execute('UPDATE panel_revisions SET image_url = ? WHERE id = ?', [imagePath, id]);
+  }
+
+  return rows.length;
+};
+
+try {
+  console.log('Extracting inline images...');
+  console.log(`Comics: ${await extractComicImages()}`);
+  console.log(`Pages: ${await extractPageImages()}`);
+  console.log(`Panel revisions: ${await extractRevisionImages()}`);
+  for (const comicId of updatedComics) {
+    await syncComicImages(comicId);
+  }
+  console.log(`Done, ${writtenImages} image files written`);
+} catch (error) {
+  console.error('Failed to extract inline images:', error);
+  process.exitCode = 1;
+} finally {
+  await pool.end();
+}
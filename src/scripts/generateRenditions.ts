@@ -0,0 +1,50 @@
+/**
+ * Generate Renditions
+ *
+ * Images stored before renditions were introduced only have their original
+ * file. This creates the thumbnail, medium and configured format variants
+ * (IMAGE_VARIANT_FORMATS) for every stored original that has no thumbnail yet.
+ * Pass --force to recreate renditions for every image, e.g. after adding a format.
+ *
+ * Usage: npm run generate-renditions [-- --force]
+ */
+
+import dotenv from 'dotenv';
+import { getStorage } from '../services/storage.js';
+import { createImageRenditions } from '../services/imageUpload.js';
+import { getOriginalPaths, getRenditionPath } from '../services/imageProcessing.js';
+
+dotenv.config();
+
+const force = process.argv.includes('--force');
+
+const keys = await getStorage().list('images/');
+const keySet = new Set(keys);
+const originals = getOriginalPaths(keys);
+
+let created = 0;
+let skipped = 0;
+let failed = 0;
+
+console.log(`Checking ${originals.length} images...`);
+
+for (const key of originals) {
+  if (!force && keySet.has(getRenditionPath(key, 'thumbnail'))) {
+    skipped++;
+    continue;
+  }
+
+  try {
+    if (await createImageRenditions(key)) {
+      created++;
+    } else {
+      skipped++;
+    }
+  } catch (error) {
+    console.error(`Failed to create renditions for ${key}:`, error);
+    failed++;
+  }
+}
+
+console.log(`Done: ${created} created, ${skipped} skipped, ${failed} failed`);
+process.exitCode = failed > 0 ? 1 : 0;
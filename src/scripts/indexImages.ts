@@ -0,0 +1,44 @@
+/**
+ * Index Images
+ *
+ * Images that existed before the `images` table were recorded by migration 011
+ * with their owner only. This reads each of those files from storage and fills
+ * in its size, MIME type and content hash. Safe to run again.
+ *
+ * Usage: npm run index-images
+ */
+
+import { createHash } from 'crypto';
+import pool from '../config/database.js';
+import { getStorage, readObject } from '../services/storage.js';
+import { sniffImageType } from '../services/imageProcessing.js';
+
+let indexed = 0;
+let missing = 0;
+
+try {
+  const [rows] = await pool.execute('SELECT id, path FROM images WHERE hash IS NULL') as any[];
+  console.log(`Indexing ${rows.length} images...`);
+
+  for (const { id, path } of rows) {
+    const data = await readObject(getStorage(), path);
+    if (!data) {
+      console.warn(`Missing file: ${path}`);
+      missing++;
+      continue;
+    }
+
+    await pool.execute(
+      'UPDATE images SET size = ?, mime_type = ?, hash = ? WHERE id = ?',
+      [data.length, sniffImageType(data), createHash('sha256').update(data).digest('hex'), id]
+    );
+    indexed++;
+  }
+
+  console.log(`Done: ${indexed} indexed, ${missing} missing`);
+} catch (error) {
+  console.error('Failed to index images:', error);
+  process.exitCode = 1;
+} finally {
+  await pool.end();
+}
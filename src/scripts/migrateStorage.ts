@@ -0,0 +1,57 @@
+/**
+ * Migrate Storage
+ *
+ * Copies every image from the local uploads folder to the storage configured
+ * by STORAGE_DRIVER (e.g. an S3 bucket). Keys stay the same, so stored image
+ * paths in the database keep working. Objects that already exist with the same
+ * size are skipped, so the command can be re-run after an interruption.
+ * Local files are left in place.
+ *
+ * Usage: STORAGE_DRIVER=s3 npm run migrate-storage
+ */
+
+import dotenv from 'dotenv';
+import { getStorage, getStorageDriver, readObject } from '../services/storage.js';
+
+dotenv.config();
+
+const target = getStorage();
+if (target.name === 'local') {
+  console.error('STORAGE_DRIVER is "local"; set it to the storage to copy the local files to');
+  process.exit(1);
+}
+
+const source = getStorageDriver('local');
+
+let copied = 0;
+let skipped = 0;
+let failed = 0;
+
+const keys = await source.list('');
+console.log(`Copying ${keys.length} files to ${target.name} storage...`);
+
+for (const key of keys) {
+  try {
+    const object = await source.stat(key);
+    const existing = await target.stat(key);
+    if (!object || (existing && existing.size === object.size)) {
+      skipped++;
+      continue;
+    }
+
+    const data = await readObject(source, key);
+    if (!data) {
+      skipped++;
+      continue;
+    }
+
+    await target.upload(key, data, object.contentType);
+    copied++;
+  } catch (error) {
+    console.error(`Failed to copy ${key}:`, error);
+    failed++;
+  }
+}
+
+console.log(`Done: ${copied} copied, ${skipped} skipped, ${failed} failed`);
+process.exitCode = failed > 0 ? 1 : 0;
@@ -1,21 +1,29 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import path from 'path';
-import { fileURLToPath } from 'url';
 import authRoutes from './routes/auth.js';
+import charactersRoutes from './routes/characters.js';
 import comicsRoutes from './routes/comics.js';
 import imageEditorRoutes from './routes/imageEditor.js';
 import imagesRoutes from './routes/images.js';
+import uploadsRoutes from './routes/uploads.js';
+import { startGenerationWorker } from './services/generationJobs.js';
+import { startImageCleanup } from './services/imageCleanup.js';
+import { getStorage } from './services/storage.js';
+import { getLocalUploadsDir } from './services/localStorageDriver.js';
 
 dotenv.config();
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Behind a reverse proxy, take the client IP (used by rate limits) from X-Forwarded-For:
+// TRUST_PROXY is "true", a number of proxy hops, or proxy addresses/subnets
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy && trustProxy !== 'false') {
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy === 'true' || trustProxy);
+}
+
 // Middleware
 app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
@@ -24,12 +32,16 @@ app.use(cors({
 app.use(express.json({ limit: '50mb' })); // Increased limit for base64 images
 app.use(express.urlencoded({ extended: true, limit: '50mb' }));
 
-// Serve static files from uploads folder
-const uploadsDir = path.join(__dirname, '../uploads');
-app.use('/uploads', express.static(uploadsDir));
+// Serve uploaded images: from the uploads folder with local storage, otherwise streamed from the bucket
+if (getStorage().name === 'local') {
+  app.use('/uploads', express.static(getLocalUploadsDir()));
+} else {
+  app.use('/uploads', uploadsRoutes);
+}
 
 // Routes
 app.use('/api/auth', authRoutes);
+app.use('/api/characters', charactersRoutes);
 app.use('/api/comics', comicsRoutes);
 app.use('/api/image-editor', imageEditorRoutes);
 app.use('/api/images', imagesRoutes);
@@ -49,5 +61,11 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+
+  // Process queued comic generation jobs (including ones interrupted by a restart)
+  startGenerationWorker();
+
+  // Delete images nothing uses any more, after a grace period
+  startImageCleanup();
 });
 
@@ -0,0 +1,151 @@
+/**
+ * Account Emails
+ *
+ * Email verification, email change and password reset links. Each link carries a random
+ * token that is stored only as its SHA-256 hash in `account_tokens`, expires,
+ * and works once; sending a new link of the same kind invalidates the older
+ * ones. Emails go out through the configured mail transport.
+ *
+ * Configuration:
+ * - FRONTEND_URL: base of the links (pages /verify-email, /confirm-email and /reset-password read `?token=`)
+ * - EMAIL_VERIFICATION_EXPIRES_HOURS: lifetime of verification and email change links (default 48)
+ * - PASSWORD_RESET_EXPIRES_MINUTES: lifetime of password reset links (default 60)
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { Connection } from 'mysql2/promise';
+import pool from '../config/database.js';
+import { sendMail } from './mailer.js';
+
+export type AccountTokenPurpose = 'verify-email' | 'reset-password' | 'change-email';
+
+export interface AccountToken {
+  userId: string;
+  email: string | null; // New address of an email change
+}
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+const getTokenTtlMs = (purpose: AccountTokenPurpose): number =>
+  purpose !== 'reset-password'
+    ? parseFloat(process.env.EMAIL_VERIFICATION_EXPIRES_HOURS || '48') * 60 * 60 * 1000
+    : parseFloat(process.env.PASSWORD_RESET_EXPIRES_MINUTES || '60') * 60 * 1000;
+
+const getLink = (page: string, token: string): string =>
+  `${(process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '')}/${page}?token=${token}`;
+
+/**
+ * Create a token for a user, replacing their unused tokens of the same purpose
+ * @param email - New address, for an email change
+ * @returns the token to send; only its hash is stored
+ */
+export const createAccountToken = async (
+  userId: string | number,
+  purpose: AccountTokenPurpose,
+  email: string | null = null
+): Promise<string> => {
+  await pool.execute(
+    'DELETE FROM account_tokens WHERE user_id = ? AND purpose = ? AND used_at IS NULL',
+    [userId, purpose]
+  );
+
+  const token = randomBytes(32).toString('base64url');
+  await pool.execute(
+    'INSERT INTO account_tokens (user_id, purpose, email, token_hash, expires_at) VALUES (?, ?, ?, ?, ?)',
+    [userId, purpose, email, hashToken(token), new Date(Date.now() + getTokenTtlMs(purpose))]
+  );
+  return token;
+};
+
+/**
+ * Use up a token. Run it in the transaction that acts on it, so a failed
+ * change leaves the token usable.
+ * @returns the token's user (and new email), or null if the token is unknown, expired or already used
+ */
+export const consumeAccountToken = async (
+  token: string,
+  purpose: AccountTokenPurpose,
+  db: Connection = pool
+): Promise<AccountToken | null> => {
+  const tokenHash = hashToken(token);
+  const [rows] = await db.execute(
+    `SELECT id, user_id, email FROM account_tokens
+     WHERE token_hash = ? AND purpose = ? AND used_at IS NULL AND expires_at > ?
+     FOR UPDATE`,
+    [tokenHash, purpose, new Date()]
+  ) as any[];
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  await db.execute('UPDATE account_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = ?', [rows[0].id]);
+  return { userId: rows[0].user_id.toString(), email: rows[0].email };
+};
+
+/**
+ * Send a user the link that verifies their email address
+ */
+export const sendVerificationEmail = async (user: { id: string | number; email: string; name: string }) => {
+  const token = await createAccountToken(user.id, 'verify-email');
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: `Hi ${user.name},
+
+Please confirm your email address by opening this link:
+
+${getLink('verify-email', token)}
+
+The link expires in ${process.env.EMAIL_VERIFICATION_EXPIRES_HOURS || '48'} hours. If you did not create an account, you can ignore this email.`,
+  });
+};
+
+/**
+ * Send a user the link that lets them choose a new password
+ */
+export const sendPasswordResetEmail = async (user: { id: string | number; email: string; name: string }) => {
+  const token = await createAccountToken(user.id, 'reset-password');
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your password',
+    text: `Hi ${user.name},
+
+Someone asked to reset the password of your account. To choose a new password, open this link:
+
+${getLink('reset-password', token)}
+
+The link expires in ${process.env.PASSWORD_RESET_EXPIRES_MINUTES || '60'} minutes and works once. If you did not ask for this, you can ignore this email; your password stays the same.`,
+  });
+};
+
+/**
+ * Send the link that confirms a new email address to that address
+ */
+export const sendEmailChangeEmail = async (user: { id: string | number; name: string }, newEmail: string) => {
+  const token = await createAccountToken(user.id, 'change-email', newEmail);
+  await sendMail({
+    to: newEmail,
+    subject: 'Confirm your new email address',
+    text: `Hi ${user.name},
+
+To use this address for your account, open this link:
+
+${getLink('confirm-email', token)}
+
+The link expires in ${process.env.EMAIL_VERIFICATION_EXPIRES_HOURS || '48'} hours. Until then, your account keeps its current address. If you did not ask for this, you can ignore this email.`,
+  });
+};
+
+/**
+ * Tell a user at their old address that the account's email changed
+ */
+export const sendEmailChangedNotice = async (user: { email: string; name: string }, newEmail: string) => {
+  await sendMail({
+    to: user.email,
+    subject: 'Your email address was changed',
+    text: `Hi ${user.name},
+
+The email address of your account was changed to ${newEmail}. If you did not make this change, reset your password and contact support.`,
+  });
+};
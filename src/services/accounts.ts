@@ -0,0 +1,146 @@
+/**
+ * Accounts
+ *
+ * Users who sign in with an OpenID Connect provider get an account without a
+ * password, linked through `user_identities`. A provider account whose email
+ * the provider has verified is linked to an existing account with that email.
+ * If that account's own email was never verified, whoever set its password did
+ * not prove they own the address, so the password is removed and its sessions
+ * are ended.
+ *
+ * Deleting an account removes the user row; comics (with their pages and
+ * revisions), characters, generation jobs, sessions and image ownership go
+ * with it through ON DELETE CASCADE. The user's image files are deleted
+ * afterwards, except ones other users also own or still use, since identical
+ * uploads share one file.
+ */
+
+import pool from '../config/database.js';
+import { sendVerificationEmail } from './accountEmails.js';
+import { deleteImage } from './imageUpload.js';
+import { getImageRecord } from './images.js';
+import { OidcClaims, OidcLoginError } from './oidc.js';
+import { isImageReferenced } from './panelRevisions.js';
+import { revokeAllSessions } from './sessions.js';
+
+const USER_COLUMNS = 'id, email, name, phone, email_verified_at';
+
+/**
+ * Find the user of a provider account, linking or creating one on first sign-in
+ * @returns the user row
+ * @throws OidcLoginError if the provider account cannot be matched to a user
+ */
+export const findOrCreateOidcUser = async (claims: OidcClaims): Promise<any> => {
+  const [linked] = await pool.execute(
+    `SELECT u.id, u.email, u.name, u.phone, u.email_verified_at FROM user_identities ui
+     JOIN users u ON u.id = ui.user_id
+     WHERE ui.issuer = ? AND ui.subject = ?`,
+    [claims.issuer, claims.subject]
+  ) as any[];
+
+  if (linked.length > 0) {
+    await pool.execute(
+      'UPDATE user_identities SET last_login_at = CURRENT_TIMESTAMP, email = ? WHERE issuer = ? AND subject = ?',
+      [claims.email, claims.issuer, claims.subject]
+    );
+    return linked[0];
+  }
+
+  if (!claims.email) {
+    throw new OidcLoginError('The sign-in provider did not share an email address');
+  }
+
+  const [existing] = await pool.execute(
+    `SELECT ${USER_COLUMNS} FROM users WHERE email = ?`,
+    [claims.email]
+  ) as any[];
+
+  if (existing.length > 0) {
+    if (!claims.emailVerified) {
+      throw new OidcLoginError('An account with this email already exists. Log in with your password instead.');
+    }
+
+    const user = existing[0];
+    if (user.email_verified_at === null) {
+      await pool.execute(
+        'UPDATE users SET password_hash = NULL, email_verified_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [user.id]
+      );
+      await revokeAllSessions(user.id);
+      user.email_verified_at = new Date();
+    }
+    await pool.execute(
+      'INSERT INTO user_identities (user_id, issuer, subject, email) VALUES (?, ?, ?, ?)',
+      [user.id, claims.issuer, claims.subject, claims.email]
+    );
+    return user;
+  }
+
+  const name = claims.name?.trim() || claims.email.split('@')[0];
+  const connection = await pool.getConnection();
+  let userId: number;
+  try {
+    await connection.beginTransaction();
+    const [result] = await connection.execute(
+      'INSERT INTO users (email, password_hash, name, email_verified_at) VALUES (?, NULL, ?, ?)',
+      [claims.email, name, claims.emailVerified ? new Date() : null]
+    ) as any[];
+    userId = result.insertId;
+    await connection.execute(
+      'INSERT INTO user_identities (user_id, issuer, subject, email) VALUES (?, ?, ?, ?)',
+      [userId, claims.issuer, claims.subject, claims.email]
+    );
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+
+  if (!claims.emailVerified) {
+    try {
+      await sendVerificationEmail({ id: userId, email: claims.email, name });
+    } catch (error) {
+      console.error('Error sending verification email:', error);
+    }
+  }
+
+  const [users] = await pool.execute(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`, [userId]) as any[];
+  return users[0];
+};
+
+/**
+ * Delete a user and their data
+ * @returns null if the user does not exist, otherwise the deleted image paths
+ */
+export const deleteAccount = async (userId: string | number): Promise<{ deletedImages: string[] } | null> => {
+  const [owned] = await pool.execute(
+    `SELECT i.path FROM image_owners o
+     JOIN images i ON i.id = o.image_id
+     WHERE o.user_id = ?`,
+    [userId]
+  ) as any[];
+
+  const [result] = await pool.execute('DELETE FROM users WHERE id = ?', [userId]) as any[];
+  if (result.affectedRows === 0) {
+    return null;
+  }
+
+  // Files are removed after the user is gone, once nothing of theirs refers to them
+  const deletedImages: string[] = [];
+  for (const { path: imagePath } of owned) {
+    try {
+      const image = await getImageRecord(imagePath);
+      if (image && image.ownerIds.length === 0 && !(await isImageReferenced(imagePath))) {
+        await deleteImage(imagePath);
+        deletedImages.push(imagePath);
+      }
+    } catch (error) {
+      // Left for the cleanup sweep
+      console.error('Error deleting image of deleted account:', { imagePath, error });
+    }
+  }
+
+  return { deletedImages };
+};
@@ -16,6 +16,18 @@ export interface CharacterDescription {
   consistentFeatures: string; // Key features that must remain the same
 }
 
+/**
+ * Visual signature of a character, written by script generation and
+ * stored with the comic so every panel and regeneration uses the same look
+ */
+export interface CharacterSignature {
+  name: string;
+  outfit: string;
+  hair: string;
+  colors: string; // Dominant color palette of the character
+  accessories: string;
+}
+
 export interface CharacterConsistencyConfig {
   maintainConsistentCast: boolean;
   consistencyPrompt: string;
@@ -55,6 +67,85 @@ export function createCharacterDescription(
   };
 }
 
+/**
+ * Structured visual traits saved with a character
+ */
+export interface CharacterTraits {
+  physicalDescription?: string;
+  clothing?: string;
+  facialFeatures?: string;
+  accessories?: string;
+  bodyType?: string;
+}
+
+/**
+ * Create a character description from saved traits instead of generic boilerplate
+ */
+export function buildCharacterDescription(
+  name: string,
+  traits: CharacterTraits = {}
+): CharacterDescription {
+  const details = [
+    traits.physicalDescription,
+    traits.facialFeatures && `Facial features: ${traits.facialFeatures}`,
+    traits.bodyType && `Body type: ${traits.bodyType}`,
+    traits.clothing && `Wearing: ${traits.clothing}`,
+    traits.accessories && `Accessories: ${traits.accessories}`,
+  ].filter(Boolean).join('. ');
+
+  if (!details) {
+    return createCharacterDescription(name);
+  }
+
+  const lockedTraits = [
+    traits.facialFeatures && 'Facial features',
+    traits.bodyType && 'body type',
+    traits.clothing && `clothing (${traits.clothing})`,
+    traits.accessories && `accessories (${traits.accessories})`,
+  ].filter(Boolean) as string[];
+  const lockedSummary = lockedTraits.join(', ');
+
+  return {
+    name,
+    physicalDescription: `Named ${name}. ${details}`,
+    clothing: traits.clothing,
+    accessories: traits.accessories,
+    facialFeatures: traits.facialFeatures,
+    bodyType: traits.bodyType,
+    consistentFeatures: lockedTraits.length > 0
+      ? `${lockedSummary.charAt(0).toUpperCase()}${lockedSummary.slice(1)}, hair color/style and eye color must remain identical across all panels.`
+      : 'Facial features, hair color/style, eye color, body proportions, and clothing style must remain identical across all panels.',
+  };
+}
+
+/**
+ * Create a character description from a script visual signature
+ */
+export function signatureToCharacterDescription(signature: CharacterSignature): CharacterDescription {
+  return {
+    name: signature.name,
+    physicalDescription: `Named ${signature.name}. Hair: ${signature.hair}. Outfit: ${signature.outfit}. Color palette: ${signature.colors}. Accessories: ${signature.accessories}`,
+    clothing: signature.outfit,
+    accessories: signature.accessories,
+    consistentFeatures: `The same outfit (${signature.outfit}), hair (${signature.hair}), colors (${signature.colors}) and accessories (${signature.accessories}) in every panel.`,
+  };
+}
+
+/**
+ * Combine saved descriptions with ones from the script.
+ * Saved descriptions (e.g. library characters) win for the same name.
+ */
+export function mergeCharacterDescriptions(
+  saved: CharacterDescription[],
+  fromScript: CharacterDescription[]
+): CharacterDescription[] {
+  const savedNames = saved.map(desc => desc.name.toLowerCase());
+  return [
+    ...saved,
+    ...fromScript.filter(desc => !savedNames.includes(desc.name.toLowerCase())),
+  ];
+}
+
 /**
  * Build character consistency prompt for image generation
  */
@@ -115,8 +206,15 @@ export function extractCharacterDescriptionsFromScript(
 ): CharacterDescription[] {
   const descriptions: CharacterDescription[] = [];
 
-  // Try to extract from script if it includes character descriptions
-  if (scriptResponse.character_descriptions) {
+  // Structured visual signatures, as requested by the script schema
+  if (Array.isArray(scriptResponse.character_descriptions)) {
+    for (const signature of scriptResponse.character_descriptions as CharacterSignature[]) {
+      if (signature && signature.name) {
+        descriptions.push(signatureToCharacterDescription(signature));
+      }
+    }
+  } else if (scriptResponse.character_descriptions) {
+    // Free-text descriptions keyed by character name
     for (const [name, desc] of Object.entries(scriptResponse.character_descriptions)) {
       descriptions.push({
         name,
@@ -137,22 +235,28 @@ export function extractCharacterDescriptionsFromScript(
 }
 
 /**
- * Build comprehensive image generation prompt with character consistency
+ * Build comprehensive image generation prompt with character consistency.
+ * Characters in `referencedNames` have their own labeled reference images.
  */
 export function buildImagePromptWithConsistency(
   sceneDescription: string,
   characterNames: string[],
   characterDescriptions: CharacterDescription[],
-  referenceImageContext: string = "the provided reference image"
+  referenceImageContext: string = "the provided reference image",
+  referencedNames: string[] = []
 ): string {
   const consistencyPrompt = buildCharacterConsistencyPrompt(characterDescriptions);
   const enhancedScene = enhanceSceneWithCharacters(sceneDescription, characterNames, characterDescriptions);
 
   const mainCharacter = characterNames[0];
-  const characterContext = characterNames.length > 0
+  let characterContext = characterNames.length > 0
     ? `The main character ${mainCharacter} MUST closely resemble the person in ${referenceImageContext}, rendered in proper comic book/manga illustration style. Maintain their facial features, clothing, and appearance with bold lines and vibrant colors.`
     : "";
 
+  if (referencedNames.length > 0) {
+    characterContext = `${referencedNames.join(", ")} MUST each closely resemble the reference images labeled with their own name, rendered in proper comic book/manga illustration style. Never swap or blend faces between characters. Maintain each character's facial features, clothing, and appearance with bold lines and vibrant colors.`;
+  }
+
   return `
 Create a comic book panel illustration.
 Style: Comic book/manga style, bold lines, vibrant colors, professional illustration quality.
@@ -0,0 +1,264 @@
+/**
+ * Character Library
+ *
+ * Users save recurring characters (name, reference photo, chosen avatar and
+ * structured visual traits) in the `characters` table, so comics can reuse
+ * the same detailed description instead of generic boilerplate.
+ */
+
+import type { Connection } from 'mysql2/promise';
+import pool from '../config/database.js';
+import {
+  buildCharacterDescription,
+  CharacterDescription,
+  CharacterTraits,
+} from './characterConsistency.js';
+import type { CharacterReferenceImages } from './comicGeneration.js';
+
+export interface Character {
+  id: string;
+  userId: string;
+  name: string;
+  referenceImage: string; // Stored path of the primary reference photo
+  referenceImages: string[]; // Stored paths of all reference photos, primary first
+  avatarImage: string | null; // Stored path of the chosen comic avatar
+  avatarVariations: string[]; // Stored paths of generated avatars to choose from
+  description: CharacterTraits;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Trait fields accepted from clients
+export const CHARACTER_TRAIT_FIELDS: (keyof CharacterTraits)[] = [
+  'physicalDescription',
+  'clothing',
+  'facialFeatures',
+  'accessories',
+  'bodyType',
+];
+
+const mapCharacterRow = (row: any): Character => {
+  let description: CharacterTraits = {};
+  try {
+    description = typeof row.description === 'string' ? JSON.parse(row.description) : row.description;
+  } catch (e) {
+    console.error('Error parsing character description:', e);
+  }
+
+  let referenceImages: string[] = [];
+  try {
+    referenceImages = typeof row.reference_images === 'string'
+      ? JSON.parse(row.reference_images)
+      : row.reference_images;
+  } catch (e) {
+    console.error('Error parsing character reference images:', e);
+  }
+
+  let avatarVariations: string[] = [];
+  try {
+    avatarVariations = typeof row.avatar_variations === 'string'
+      ? JSON.parse(row.avatar_variations)
+      : row.avatar_variations;
+  } catch (e) {
+    console.error('Error parsing character avatar variations:', e);
+  }
+
+  return {
+    id: row.id.toString(),
+    userId: row.user_id.toString(),
+    name: row.name,
+    referenceImage: row.reference_image,
+    referenceImages: referenceImages && referenceImages.length > 0 ? referenceImages : [row.reference_image],
+    avatarImage: row.avatar_image,
+    avatarVariations: avatarVariations || [],
+    description: description || {},
+    createdAt: new Date(row.created_at).getTime(),
+    updatedAt: new Date(row.updated_at).getTime(),
+  };
+};
+
+/**
+ * Keep only known trait fields with non-empty string values.
+ * Throws if the value is not an object or a field is not a string.
+ */
+export const parseCharacterTraits = (value: any): CharacterTraits => {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('description must be an object');
+  }
+
+  const traits: CharacterTraits = {};
+  for (const field of CHARACTER_TRAIT_FIELDS) {
+    const trait = value[field];
+    if (trait === undefined || trait === null || trait === '') {
+      continue;
+    }
+    if (typeof trait !== 'string') {
+      throw new Error(`description.${field} must be a string`);
+    }
+    traits[field] = trait.trim();
+  }
+  return traits;
+};
+
+/**
+ * List a user's characters, newest first
+ */
+export const listCharacters = async (userId: string | number): Promise<Character[]> => {
+  const [rows] = await pool.execute(
+    'SELECT * FROM characters WHERE user_id = ? ORDER BY created_at DESC',
+    [userId]
+  ) as any[];
+
+  return rows.map(mapCharacterRow);
+};
+
+/**
+ * Get a character if it belongs to the user
+ */
+export const getCharacter = async (
+  id: string | number,
+  userId: string | number,
+  db: Connection = pool
+): Promise<Character | null> => {
+  const [rows] = await db.execute(
+    'SELECT * FROM characters WHERE id = ? AND user_id = ?',
+    [id, userId]
+  ) as any[];
+
+  return rows.length > 0 ? mapCharacterRow(rows[0]) : null;
+};
+
+/**
+ * Get several of a user's characters in the order of `ids`.
+ * Ids that are unknown or belong to another user are skipped.
+ */
+export const getCharactersByIds = async (
+  ids: (string | number)[],
+  userId: string | number
+): Promise<Character[]> => {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const [rows] = await pool.execute(
+    `SELECT * FROM characters WHERE user_id = ? AND id IN (${ids.map(() => '?').join(', ')})`,
+    [userId, ...ids]
+  ) as any[];
+
+  const byId = new Map<string, Character>(
+    rows.map((row: any) => [row.id.toString(), mapCharacterRow(row)])
+  );
+
+  return ids
+    .map(id => byId.get(String(id)))
+    .filter((character): character is Character => Boolean(character));
+};
+
+/**
+ * Save a new character
+ */
+export const createCharacter = async (
+  userId: string | number,
+  character: Pick<Character, 'name' | 'referenceImages' | 'avatarImage' | 'description'>
+): Promise<Character> => {
+  const [result] = await pool.execute(
+    `INSERT INTO characters (user_id, name, reference_image, reference_images, avatar_image, description)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      userId,
+      character.name,
+      character.referenceImages[0],
+      JSON.stringify(character.referenceImages),
+      character.avatarImage,
+      JSON.stringify(character.description),
+    ]
+  ) as any[];
+
+  return (await getCharacter(result.insertId, userId))!;
+};
+
+/**
+ * Update a character's fields
+ * @returns the updated character, or null if it does not exist
+ */
+export const updateCharacter = async (
+  id: string | number,
+  userId: string | number,
+  changes: Partial<Pick<Character, 'name' | 'referenceImages' | 'avatarImage' | 'avatarVariations' | 'description'>>
+): Promise<Character | null> => {
+  const updates: string[] = [];
+  const values: any[] = [];
+
+  if (changes.name !== undefined) {
+    updates.push('name = ?');
+    values.push(changes.name);
+  }
+  if (changes.referenceImages !== undefined) {
+    updates.push('reference_image = ?', 'reference_images = ?');
+    values.push(changes.referenceImages[0], JSON.stringify(changes.referenceImages));
+  }
+  if (changes.avatarImage !== undefined) {
+    updates.push('avatar_image = ?');
+    values.push(changes.avatarImage);
+  }
+  if (changes.avatarVariations !== undefined) {
+    updates.push('avatar_variations = ?');
+    values.push(JSON.stringify(changes.avatarVariations));
+  }
+  if (changes.description !== undefined) {
+    updates.push('description = ?');
+    values.push(JSON.stringify(changes.description));
+  }
+
+  if (updates.length > 0) {
+    values.push(id, userId);
+    await pool.execute(
+      `UPDATE characters SET ${updates.join(', ')} WHERE id = ? AND user_id = ?`,
+      values
+    );
+  }
+
+  return getCharacter(id, userId);
+};
+
+/**
+ * Delete a character
+ * @returns false if the character does not exist
+ */
+export const deleteCharacter = async (
+  id: string | number,
+  userId: string | number
+): Promise<boolean> => {
+  const [result] = await pool.execute(
+    'DELETE FROM characters WHERE id = ? AND user_id = ?',
+    [id, userId]
+  ) as any[];
+
+  return result.affectedRows > 0;
+};
+
+/**
+ * Consistency description used in panel prompts
+ */
+export const toCharacterDescription = (character: Character): CharacterDescription =>
+  buildCharacterDescription(character.name, character.description);
+
+/**
+ * Image that best represents the character: the chosen avatar, else the reference photo
+ */
+export const getCharacterImage = (character: Character): string =>
+  character.avatarImage || character.referenceImage;
+
+/**
+ * All of a character's images for panel generation: the chosen avatar, then the reference photos
+ */
+export const getCharacterReferenceImages = (character: Character): CharacterReferenceImages => ({
+  name: character.name,
+  imagePaths: [...new Set([
+    ...(character.avatarImage ? [character.avatarImage] : []),
+    ...character.referenceImages,
+  ])],
+});
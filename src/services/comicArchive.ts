@@ -0,0 +1,313 @@
+/**
+ * Comic Archives
+ *
+ * Packages one comic, or a collection of a user's comics, for comic reader
+ * apps: a CBZ archive (page images plus ComicInfo.xml) or a fixed-layout
+ * EPUB 3 (one pre-paginated page per comic page). Pages are rendered with the
+ * same composition as the PNG export, from the stored comic rows and images.
+ * Metadata comes from the title, category, character names and creation date;
+ * panel narration and dialogue are the alt text of each page.
+ */
+
+import { createHash } from 'crypto';
+import JSZip from 'jszip';
+import sharp from 'sharp';
+import type { ComicPage } from './comicPages.js';
+import { renderComicPage } from './comicExport.js';
+import { getLayout, getPanelKeys } from './layouts.js';
+
+export type ArchiveFormat = 'cbz' | 'epub';
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ['cbz', 'epub'];
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  cbz: 'application/vnd.comicbook+zip',
+  epub: 'application/epub+zip',
+};
+
+export interface ArchiveComic {
+  id: string;
+  title: string;
+  category: string | null;
+  characterNames: string[];
+  createdAt: number;
+  pages: ComicPage[];
+}
+
+export interface ArchiveOptions {
+  title?: string; // Title of a collection; defaults to the comic's title for a single comic
+}
+
+interface RenderedPage {
+  comic: ArchiveComic;
+  page: ComicPage;
+  fileName: string; // e.g. "page-001.jpg"
+  buffer: Buffer;
+  width: number;
+  height: number;
+  altText: string;
+}
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Narration of a page's panels in reading order
+ */
+const getPageNarration = (page: ComicPage): string =>
+  getPanelKeys(getLayout(page.layout))
+    .map(key => page.panels[key]?.narration?.trim())
+    .filter(Boolean)
+    .join(' ');
+
+/**
+ * Narration and dialogue of a page's panels in reading order, for alt text
+ */
+const getPageText = (page: ComicPage): string =>
+  getPanelKeys(getLayout(page.layout))
+    .flatMap(key => [
+      page.panels[key]?.narration?.trim(),
+      ...(page.panels[key]?.dialogue || []).map(line => `${line.speaker}: ${line.text}`),
+    ])
+    .filter(Boolean)
+    .join(' ');
+
+const getArchiveTitle = (comics: ArchiveComic[], options: ArchiveOptions): string =>
+  options.title?.trim() || (comics.length === 1 ? comics[0].title : 'Comic Collection');
+
+const unique = (values: (string | null | undefined)[]): string[] =>
+  [...new Set(values.filter((value): value is string => Boolean(value?.trim())).map(value => value.trim()))];
+
+/**
+ * Render every page of the comics, in order, as JPEG page images
+ */
+const renderPages = async (comics: ArchiveComic[]): Promise<RenderedPage[]> => {
+  const rendered: RenderedPage[] = [];
+
+  for (const comic of comics) {
+    for (const [i, page] of comic.pages.entries()) {
+      const png = await renderComicPage(page, { title: i === 0 ? comic.title : null });
+      const { data, info } = await sharp(png).jpeg({ quality: 90 }).toBuffer({ resolveWithObject: true });
+      rendered.push({
+        comic,
+        page,
+        fileName: `page-${String(rendered.length + 1).padStart(3, '0')}.jpg`,
+        buffer: data,
+        width: info.width,
+        height: info.height,
+        altText: getPageText(page) || `${comic.title}, page ${page.pageNumber}`,
+      });
+    }
+  }
+
+  return rendered;
+};
+
+/**
+ * ComicInfo.xml (ComicRack schema 2.0) for a set of rendered pages
+ */
+const buildComicInfo = (comics: ArchiveComic[], pages: RenderedPage[], options: ArchiveOptions): string => {
+  const date = new Date(Math.min(...comics.map(comic => comic.createdAt)));
+  const summary = comics.length === 1
+    ? comics[0].pages.map(getPageNarration).filter(Boolean).join('\n\n')
+    : comics.map(comic => comic.title).join('\n');
+
+  const fields: [string, string | number][] = [
+    ['Title', getArchiveTitle(comics, options)],
+    ...(comics.length > 1 ? [['Series', getArchiveTitle(comics, options)] as [string, string]] : []),
+    ['Summary', summary],
+    ['Year', date.getUTCFullYear()],
+    ['Month', date.getUTCMonth() + 1],
+    ['Day', date.getUTCDate()],
+    ['Genre', unique(comics.map(comic => comic.category)).join(', ')],
+    ['Characters', unique(comics.flatMap(comic => comic.characterNames)).join(', ')],
+    ['PageCount', pages.length],
+    ['LanguageISO', 'en'],
+    ['Manga', 'No'],
+  ];
+
+  const pageEntries = pages.map((page, i) => {
+    const firstOfComic = i === 0 || pages[i - 1].comic !== page.comic;
+    const bookmark = firstOfComic && comics.length > 1 ? page.comic.title : page.page.chapterTitle;
+    const attributes = [
+      `Image="${i}"`,
+      ...(i === 0 ? ['Type="FrontCover"'] : []),
+      `ImageSize="${page.buffer.length}"`,
+      `ImageWidth="${page.width}"`,
+      `ImageHeight="${page.height}"`,
+      ...(bookmark ? [`Bookmark="${escapeXml(bookmark)}"`] : []),
+    ];
+    return `    <Page ${attributes.join(' ')} />`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<ComicInfo xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema">',
+    ...fields
+      .filter(([, value]) => value !== '')
+      .map(([name, value]) => `  <${name}>${escapeXml(String(value))}</${name}>`),
+    '  <Pages>',
+    ...pageEntries,
+    '  </Pages>',
+    '</ComicInfo>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Build a CBZ archive: page images in reading order and ComicInfo.xml
+ */
+export const buildComicCbz = async (comics: ArchiveComic[], options: ArchiveOptions = {}): Promise<Buffer> => {
+  const pages = await renderPages(comics);
+  const zip = new JSZip();
+
+  for (const page of pages) {
+    // Already compressed
+    zip.file(page.fileName, page.buffer, { compression: 'STORE' });
+  }
+  zip.file('ComicInfo.xml', buildComicInfo(comics, pages, options));
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+};
+
+// Stable identifier for the same set of comics, formatted as a UUID
+const getBookId = (comics: ArchiveComic[]): string => {
+  const hex = createHash('sha1').update(`comics:${comics.map(comic => comic.id).join(',')}`).digest('hex');
+  return `urn:uuid:${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-a${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
+const xhtmlPage = (title: string, head: string, body: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeXml(title)}</title>
+${head ? `${head}\n` : ''}</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+/**
+ * Build a fixed-layout EPUB 3: one pre-paginated XHTML page per comic page,
+ * each showing the page image at its own size with its words as alt text
+ */
+export const buildComicEpub = async (comics: ArchiveComic[], options: ArchiveOptions = {}): Promise<Buffer> => {
+  const pages = await renderPages(comics);
+  const title = getArchiveTitle(comics, options);
+  const date = new Date(Math.min(...comics.map(comic => comic.createdAt)));
+  const zip = new JSZip();
+
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file(
+    'META-INF/container.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/package.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>
+`
+  );
+
+  for (const page of pages) {
+    const name = page.fileName.replace(/\.jpg$/, '');
+    zip.file(`OEBPS/images/${page.fileName}`, page.buffer, { compression: 'STORE' });
+    zip.file(
+      `OEBPS/pages/${name}.xhtml`,
+      xhtmlPage(
+        `${page.comic.title}, page ${page.page.pageNumber}`,
+        `  <meta name="viewport" content="width=${page.width}, height=${page.height}" />
+  <style>html, body { margin: 0; padding: 0; } img { display: block; width: ${page.width}px; height: ${page.height}px; }</style>`,
+        `  <img src="../images/${page.fileName}" alt="${escapeXml(page.altText)}" />`
+      )
+    );
+  }
+
+  // Table of contents: each comic, with its pages when it has several
+  const tocEntries = comics.map(comic => {
+    const comicPages = pages.filter(page => page.comic === comic);
+    const href = (page: RenderedPage) => `pages/${page.fileName.replace(/\.jpg$/, '.xhtml')}`;
+    const pageList = comicPages.length > 1
+      ? `\n      <ol>\n${comicPages
+          .map(page => `        <li><a href="${href(page)}">${escapeXml(page.page.chapterTitle || `Page ${page.page.pageNumber}`)}</a></li>`)
+          .join('\n')}\n      </ol>\n    `
+      : '';
+    return `    <li><a href="${href(comicPages[0])}">${escapeXml(comic.title)}</a>${pageList}</li>`;
+  });
+  zip.file(
+    'OEBPS/nav.xhtml',
+    xhtmlPage(
+      title,
+      '',
+      `  <nav epub:type="toc" id="toc">
+    <h1>${escapeXml(title)}</h1>
+    <ol>
+${tocEntries.join('\n')}
+    </ol>
+  </nav>`
+    )
+  );
+
+  const categories = unique(comics.map(comic => comic.category));
+  const characters = unique(comics.flatMap(comic => comic.characterNames));
+  const metadata = [
+    `    <dc:identifier id="book-id">${getBookId(comics)}</dc:identifier>`,
+    `    <dc:title>${escapeXml(title)}</dc:title>`,
+    '    <dc:language>en</dc:language>',
+    `    <dc:date>${date.toISOString().slice(0, 10)}</dc:date>`,
+    ...categories.map(category => `    <dc:subject>${escapeXml(category)}</dc:subject>`),
+    ...(characters.length > 0 ? [`    <dc:description>Characters: ${escapeXml(characters.join(', '))}</dc:description>`] : []),
+    `    <meta property="dcterms:modified">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</meta>`,
+    '    <meta property="rendition:layout">pre-paginated</meta>',
+    '    <meta property="rendition:orientation">portrait</meta>',
+    '    <meta property="rendition:spread">none</meta>',
+  ];
+  const manifest = [
+    '    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />',
+    ...pages.flatMap((page, i) => {
+      const name = page.fileName.replace(/\.jpg$/, '');
+      return [
+        `    <item id="${name}" href="pages/${name}.xhtml" media-type="application/xhtml+xml" />`,
+        `    <item id="${name}-image" href="images/${page.fileName}" media-type="image/jpeg"${i === 0 ? ' properties="cover-image"' : ''} />`,
+      ];
+    }),
+  ];
+  const spine = pages.map(page => `    <itemref idref="${page.fileName.replace(/\.jpg$/, '')}" />`);
+
+  zip.file(
+    'OEBPS/package.opf',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en"
+  prefix="rendition: http://www.idpf.org/vocab/rendition/#">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${metadata.join('\n')}
+  </metadata>
+  <manifest>
+${manifest.join('\n')}
+  </manifest>
+  <spine>
+${spine.join('\n')}
+  </spine>
+</package>
+`
+  );
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+};
+
+/**
+ * Build an archive in the given format
+ */
+export const buildComicArchive = (
+  format: ArchiveFormat,
+  comics: ArchiveComic[],
+  options: ArchiveOptions = {}
+): Promise<Buffer> => (format === 'cbz' ? buildComicCbz(comics, options) : buildComicEpub(comics, options));
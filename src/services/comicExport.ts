@@ -0,0 +1,265 @@
+/**
+ * Comic Export
+ *
+ * Renders a comic page server-side onto one image: the panels are arranged
+ * by the page's layout template (rows of side-by-side panels, e.g. two rows
+ * of two with a full-width fifth panel for classic-5), each panel is lettered
+ * with its narration caption and dialogue bubbles, and the title is on top.
+ * Pages can be downloaded as PNG, or all together as a print PDF with bleed
+ * and margins.
+ *
+ * Configuration:
+ * - EXPORT_PAGE_WIDTH: width in pixels of exported PNG pages (default 1600)
+ * - EXPORT_PRINT_DPI: resolution of page images in print PDFs (default 300)
+ */
+
+import sharp, { type OverlayOptions } from 'sharp';
+import PDFDocument from 'pdfkit';
+import type { ComicPage } from './comicPages.js';
+import type { ComicPanel } from './generationProvider.js';
+import { getLayout, getPanelKeys, PanelAspectRatio } from './layouts.js';
+import { readImageAsBase64 } from './imageUpload.js';
+import { decodeBase64Image } from './imageProcessing.js';
+import { getPanelLettering, letterPanel } from './lettering.js';
+
+export type PrintPageSize = 'a4' | 'letter';
+
+export const PRINT_PAGE_SIZES: Record<PrintPageSize, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 }, // Points (1/72 inch)
+  letter: { width: 612, height: 792 },
+};
+
+export interface PageRenderOptions {
+  title?: string | null; // Shown on top of the page
+  width?: number; // Pixels
+  maxHeight?: number; // Pixels; taller pages are scaled down to fit
+}
+
+export interface PrintOptions {
+  title?: string | null;
+  pageSize?: PrintPageSize;
+  bleedMm?: number; // Extra background around the trimmed page (default 3)
+  marginMm?: number; // Space between the trim edge and the artwork (default 12)
+}
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const BACKGROUND = '#ffffff';
+const PLACEHOLDER = '#e5e5e5';
+const MM_TO_POINTS = 72 / 25.4;
+
+const ASPECT_RATIOS: Record<PanelAspectRatio, number> = {
+  '4:3': 4 / 3,
+  '16:9': 16 / 9,
+  '1:1': 1,
+  '3:4': 3 / 4,
+};
+
+const escapeMarkup = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Render wrapped text to a transparent PNG
+ */
+const renderText = async (
+  text: string,
+  width: number,
+  fontSize: number,
+  options: { bold?: boolean; align?: 'left' | 'centre' } = {}
+): Promise<{ buffer: Buffer; width: number; height: number }> => {
+  const { data, info } = await sharp({
+    text: {
+      text: `<span foreground="#111111">${escapeMarkup(text)}</span>`,
+      font: `sans${options.bold ? ' bold' : ''} ${fontSize}`,
+      width: Math.max(1, Math.round(width)),
+      align: options.align || 'left',
+      wrap: 'word',
+      rgba: true,
+    },
+  })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  return { buffer: data, width: info.width, height: info.height };
+};
+
+/**
+ * Load a panel image, which may be a stored path, a full URL of this server's
+ * uploads or an inline data URL. Missing or unreadable images give null.
+ */
+const loadPanelImage = async (image: string | undefined): Promise<Buffer | null> => {
+  if (!image) {
+    return null;
+  }
+
+  try {
+    const uploadsIndex = image.indexOf('/uploads/');
+    const dataUrl = image.startsWith('data:image/')
+      ? image
+      : await readImageAsBase64(uploadsIndex >= 0 ? image.slice(uploadsIndex + 1) : image);
+    return decodeBase64Image(dataUrl)?.buffer ?? null;
+  } catch (error) {
+    console.error('Error loading panel image for export:', { image: image.slice(0, 100), error });
+    return null;
+  }
+};
+
+/**
+ * Position of each panel on the page: rows of side-by-side panels sharing the
+ * content width, each panel as tall as its aspect ratio asks
+ */
+const layoutPanels = (page: ComicPage, left: number, top: number, width: number, gutter: number): Box[] => {
+  const slots = getLayout(page.layout).panels;
+  const rows = [...new Set(slots.map(slot => slot.row))].sort((a, b) => a - b);
+  const boxes: Box[] = [];
+  let y = top;
+
+  for (const row of rows) {
+    const rowSlots = slots.filter(slot => slot.row === row);
+    const panelWidth = (width - gutter * (rowSlots.length - 1)) / rowSlots.length;
+    const rowHeight = Math.max(...rowSlots.map(slot => panelWidth / ASPECT_RATIOS[slot.aspectRatio]));
+
+    rowSlots.forEach((_, i) => {
+      boxes.push({ left: left + i * (panelWidth + gutter), top: y, width: panelWidth, height: rowHeight });
+    });
+    y += rowHeight + gutter;
+  }
+
+  return boxes.map(box => ({
+    left: Math.round(box.left),
+    top: Math.round(box.top),
+    width: Math.round(box.width),
+    height: Math.round(box.height),
+  }));
+};
+
+/**
+ * Panel art cropped to its box and lettered, with a border
+ */
+const renderPanel = async (
+  image: Buffer | null,
+  panel: ComicPanel | undefined,
+  box: Box,
+  pageWidth: number
+): Promise<OverlayOptions[]> => {
+  const border = Math.max(2, Math.round(pageWidth / 400));
+  const art = (image
+    ? await sharp(image).rotate().resize(box.width, box.height, { fit: 'cover' }).png().toBuffer().catch(() => null)
+    : null)
+    || await sharp({ create: { width: box.width, height: box.height, channels: 4, background: PLACEHOLDER } }).png().toBuffer();
+
+  return [
+    { input: panel ? await letterPanel(art, getPanelLettering(panel)) : art, left: box.left, top: box.top },
+    {
+      input: Buffer.from(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${box.width}" height="${box.height}">
+          <rect x="${border / 2}" y="${border / 2}" width="${box.width - border}" height="${box.height - border}"
+            fill="none" stroke="#111111" stroke-width="${border}"/>
+        </svg>`
+      ),
+      left: box.left,
+      top: box.top,
+    },
+  ];
+};
+
+/**
+ * Letter a single panel's stored image with its caption and dialogue
+ * @returns PNG, or null if the panel has no readable image
+ */
+export const renderLetteredPanel = async (panel: ComicPanel): Promise<Buffer | null> => {
+  const image = await loadPanelImage(panel.imageUrl);
+  if (!image) {
+    return null;
+  }
+  return letterPanel(await sharp(image).rotate().png().toBuffer(), getPanelLettering(panel));
+};
+
+/**
+ * Render one comic page as a PNG
+ */
+export const renderComicPage = async (page: ComicPage, options: PageRenderOptions = {}): Promise<Buffer> => {
+  const width = Math.round(options.width || parseInt(process.env.EXPORT_PAGE_WIDTH || '1600'));
+  const padding = Math.round(width * 0.04);
+  const gutter = Math.round(width * 0.015);
+  const contentWidth = width - padding * 2;
+  const overlays: OverlayOptions[] = [];
+  let top = padding;
+
+  for (const [heading, fontSize] of [[options.title, width / 28], [page.chapterTitle, width / 48]] as const) {
+    if (heading?.trim()) {
+      const text = await renderText(heading.trim(), contentWidth, Math.round(fontSize), { bold: true, align: 'centre' });
+      overlays.push({ input: text.buffer, left: padding + Math.round((contentWidth - text.width) / 2), top });
+      top += text.height + gutter;
+    }
+  }
+
+  const boxes = layoutPanels(page, padding, top, contentWidth, gutter);
+  const keys = getPanelKeys(getLayout(page.layout));
+  const images = await Promise.all(keys.map(key => loadPanelImage(page.panels[key]?.imageUrl)));
+
+  for (const [i, box] of boxes.entries()) {
+    overlays.push(...(await renderPanel(images[i], page.panels[keys[i]], box, width)));
+  }
+
+  const height = Math.max(...boxes.map(box => box.top + box.height), top) + padding;
+  const composed = await sharp({ create: { width, height, channels: 3, background: BACKGROUND } })
+    .composite(overlays)
+    .png()
+    .toBuffer();
+
+  if (options.maxHeight && height > options.maxHeight) {
+    return sharp(composed).resize({ height: Math.round(options.maxHeight) }).png().toBuffer();
+  }
+  return composed;
+};
+
+/**
+ * Render comic pages as a print PDF, one page each. Every PDF page is the trim
+ * size plus bleed on all sides (with TrimBox and BleedBox set for the printer),
+ * and the artwork is centered inside the margins.
+ */
+export const renderComicPdf = async (pages: ComicPage[], options: PrintOptions = {}): Promise<Buffer> => {
+  const trim = PRINT_PAGE_SIZES[options.pageSize || 'a4'];
+  const bleed = (options.bleedMm ?? 3) * MM_TO_POINTS;
+  const margin = (options.marginMm ?? 12) * MM_TO_POINTS;
+  const dpi = parseInt(process.env.EXPORT_PRINT_DPI || '300');
+  const liveWidth = trim.width - margin * 2;
+  const liveHeight = trim.height - margin * 2;
+
+  const doc = new PDFDocument({ autoFirstPage: false, info: { Title: options.title || 'Comic' } });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  for (const [i, page] of pages.entries()) {
+    const png = await renderComicPage(page, {
+      title: i === 0 ? options.title : null,
+      width: (liveWidth / 72) * dpi,
+      maxHeight: (liveHeight / 72) * dpi,
+    });
+    const artwork = await sharp(png).jpeg({ quality: 92 }).toBuffer();
+
+    doc.addPage({ size: [trim.width + bleed * 2, trim.height + bleed * 2], margin: 0 });
+    Object.assign(doc.page.dictionary.data, {
+      TrimBox: [bleed, bleed, bleed + trim.width, bleed + trim.height],
+      BleedBox: [0, 0, trim.width + bleed * 2, trim.height + bleed * 2],
+    });
+    doc.rect(0, 0, doc.page.width, doc.page.height).fill(BACKGROUND);
+    doc.image(artwork, bleed + margin, bleed + margin, {
+      fit: [liveWidth, liveHeight],
+      align: 'center',
+      valign: 'center',
+    });
+  }
+
+  doc.end();
+  return done;
+};
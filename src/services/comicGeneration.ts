@@ -0,0 +1,275 @@
+/**
+ * Comic Generation Pipeline
+ *
+ * Runs the script + panel image generation for a comic and reports each
+ * finished step through hooks, so callers can persist or stream progress
+ * instead of waiting for the slowest panel.
+ *
+ * A comic may span several pages: the story arc is planned first, then each
+ * page's script is written with the narration of the pages before it as context.
+ *
+ * The first script also fixes each character's visual signature (outfit, hair,
+ * colors, accessories), which is repeated in every panel prompt. Panels are
+ * rendered with each character's own reference images and the most recently
+ * rendered panel as a style anchor.
+ */
+
+import {
+  getGenerationProvider,
+  CharacterReference,
+  ComicCategory,
+  ComicPanel,
+  SourceType,
+  StoryContext,
+} from "./generationProvider.js";
+import {
+  extractCharacterDescriptionsFromScript,
+  mergeCharacterDescriptions,
+  CharacterDescription,
+  CharacterSignature,
+} from "./characterConsistency.js";
+import { readImageAsBase64, uploadImage } from "./imageUpload.js";
+import { getLayout, getPanelKeys, LayoutTemplate } from "./layouts.js";
+import { collectNarration, ComicPage } from "./comicPages.js";
+
+export interface CharacterReferenceImages {
+  name: string;
+  imagePaths: string[]; // Stored paths, most representative first
+}
+
+export interface ComicContinuation {
+  title: string;
+  previousPages: ComicPage[];
+  direction?: string; // Optional user guidance for the next page
+}
+
+export interface ComicGenerationInput {
+  category: ComicCategory;
+  sourceType: SourceType;
+  imageBase64: string;
+  characterNames: string[];
+  characterDescriptions?: CharacterDescription[]; // Saved traits of library characters
+  characterReferences?: CharacterReferenceImages[]; // Per-character reference images
+  characterSignatures?: CharacterSignature[]; // Signatures already stored with the comic
+  layout: LayoutTemplate;
+  pageCount?: number; // Pages to generate (default 1)
+  continuation?: ComicContinuation; // Set when appending to an existing comic
+  userId?: string; // Owner of the generated panel images
+}
+
+export interface ComicScript {
+  title: string;
+  pages: ComicPage[];
+  characterSignatures: CharacterSignature[];
+}
+
+export interface ComicGenerationHooks {
+  onScript?: (script: ComicScript) => Promise<void> | void;
+  onPanel?: (
+    pageIndex: number, // 0-based index into script.pages
+    panelKey: string,
+    panelIndex: number, // 1-based position within the page layout
+    panel: ComicPanel
+  ) => Promise<void> | void;
+  // Stops the generation before the next model call once aborted
+  signal?: AbortSignal;
+}
+
+/**
+ * Write the scripts for every page to be generated
+ */
+const generateScript = async (input: ComicGenerationInput): Promise<ComicScript> => {
+  const { category, sourceType, imageBase64, characterNames, layout, continuation } = input;
+  const provider = getGenerationProvider();
+  const pageCount = Math.max(1, input.pageCount || 1);
+  let characterSignatures = input.characterSignatures || [];
+
+  // Single standalone page: no story context needed
+  if (!continuation && pageCount === 1) {
+    const script = await provider.generateComicScript(
+      category, sourceType, imageBase64, characterNames, layout
+    );
+    return {
+      title: script.title,
+      pages: [{ pageNumber: 1, layout: layout.name, panels: script.panels }],
+      characterSignatures: characterSignatures.length > 0 ? characterSignatures : script.characterSignatures,
+    };
+  }
+
+  const firstPageNumber = continuation ? continuation.previousPages.length + 1 : 1;
+  const arc = continuation
+    ? null
+    : await provider.planStoryArc(category, sourceType, imageBase64, characterNames, pageCount);
+
+  const title = continuation?.title || arc!.title;
+  const pages: ComicPage[] = [];
+  const earlierNarration = continuation ? collectNarration(continuation.previousPages) : [];
+
+  // Pages are written in order so each one sees the narration of the pages before it
+  for (let i = 0; i < pageCount; i++) {
+    const arcPage = arc?.pages[i];
+    const storyContext: StoryContext = {
+      title,
+      pageNumber: firstPageNumber + i,
+      pageCount: arc ? pageCount : undefined,
+      chapterTitle: arcPage?.chapterTitle,
+      pageSummary: arcPage?.summary,
+      previousNarration: [...earlierNarration, ...collectNarration(pages)],
+      direction: continuation?.direction,
+      characterSignatures: characterSignatures.length > 0 ? characterSignatures : undefined,
+    };
+
+    const script = await provider.generateComicScript(
+      category, sourceType, imageBase64, characterNames, layout, storyContext
+    );
+    const { panels } = script;
+
+    // The first page written decides the signatures for the rest of the comic
+    if (characterSignatures.length === 0) {
+      characterSignatures = script.characterSignatures;
+    }
+
+    pages.push({
+      pageNumber: firstPageNumber + i,
+      layout: layout.name,
+      chapterTitle: arcPage?.chapterTitle,
+      panels,
+    });
+  }
+
+  return { title, pages, characterSignatures };
+};
+
+/**
+ * Descriptions used in panel prompts: saved (library) descriptions, plus
+ * the script's visual signatures for everyone else
+ */
+export const buildPanelCharacterDescriptions = (
+  characterNames: string[],
+  savedDescriptions: CharacterDescription[] = [],
+  characterSignatures: CharacterSignature[] = []
+): CharacterDescription[] =>
+  mergeCharacterDescriptions(
+    savedDescriptions,
+    extractCharacterDescriptionsFromScript({ character_descriptions: characterSignatures }, characterNames)
+  );
+
+// Reference images sent per character, to keep prompts a manageable size
+export const MAX_REFERENCE_IMAGES_PER_CHARACTER = 3;
+
+/**
+ * Load stored reference images as base64, skipping files that no longer exist
+ */
+export const loadCharacterReferences = async (
+  references: CharacterReferenceImages[] = []
+): Promise<CharacterReference[]> =>
+  Promise.all(
+    references.map(async ({ name, imagePaths }) => {
+      const images = await Promise.all(
+        imagePaths.slice(0, MAX_REFERENCE_IMAGES_PER_CHARACTER).map(imagePath =>
+          readImageAsBase64(imagePath).catch(error => {
+            console.error('Error loading character reference image:', { imagePath, error });
+            return null;
+          })
+        )
+      );
+      return { name, images: images.filter((image): image is string => image !== null) };
+    })
+  );
+
+/**
+ * Stored path of the last panel with an image, in reading order
+ */
+const lastRenderedPanel = (pages: ComicPage[]): string | undefined => {
+  for (const page of [...pages].reverse()) {
+    const keys = getPanelKeys(getLayout(page.layout)).reverse();
+    const key = keys.find(k => page.panels[k]?.imageUrl);
+    if (key) {
+      return page.panels[key].imageUrl;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Generate a comic, resuming from a previously generated script and any
+ * panels that already have an image.
+ * Panel images are uploaded as they finish; `imageUrl` holds the stored path.
+ */
+export const runComicGeneration = async (
+  input: ComicGenerationInput,
+  hooks: ComicGenerationHooks = {},
+  resumeFrom?: ComicScript
+): Promise<ComicScript> => {
+  const { imageBase64, characterNames } = input;
+  const provider = getGenerationProvider();
+
+  let script = resumeFrom;
+  if (!script) {
+    script = await generateScript(input);
+    hooks.signal?.throwIfAborted();
+    await hooks.onScript?.(script);
+  }
+
+  const characterSignatures = script.characterSignatures || [];
+  const characterDescriptions = buildPanelCharacterDescriptions(
+    characterNames, input.characterDescriptions, characterSignatures
+  );
+
+  const pages = script.pages.map(page => ({ ...page, panels: { ...page.panels } }));
+  const characterReferences = await loadCharacterReferences(input.characterReferences);
+
+  // Continue the style of the comic's existing pages when appending
+  let styleAnchor = lastRenderedPanel(pages) || lastRenderedPanel(input.continuation?.previousPages || []);
+
+  const renderPanels = async (pageIndex: number, keys: string[]) => {
+    hooks.signal?.throwIfAborted();
+    const page = pages[pageIndex];
+    const layout = getLayout(page.layout);
+    const panelKeys = getPanelKeys(layout);
+    const previousPanel = styleAnchor ? await readImageAsBase64(styleAnchor).catch(() => undefined) : undefined;
+
+    const results = await Promise.allSettled(
+      keys.map(async (key) => {
+        const panelIndex = panelKeys.indexOf(key) + 1;
+        const image = await provider.generatePanelImage(
+          imageBase64,
+          page.panels[key].scene,
+          characterNames,
+          characterDescriptions,
+          panelIndex,
+          layout,
+          { characters: characterReferences, previousPanel }
+        );
+        const imagePath = await uploadImage(image, input.userId);
+
+        page.panels[key] = { ...page.panels[key], imageUrl: imagePath };
+        await hooks.onPanel?.(pageIndex, key, panelIndex, page.panels[key]);
+      })
+    );
+
+    // Finished panels have already been reported; surface the first failure
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+  };
+
+  // Pages render one after another; panels within a page render in parallel
+  for (const [pageIndex, page] of pages.entries()) {
+    const panelKeys = getPanelKeys(getLayout(page.layout));
+    const pendingKeys = panelKeys.filter(key => page.panels[key] && !page.panels[key].imageUrl);
+
+    // Without an earlier panel to anchor on, render the first one alone so the rest can match it
+    if (!styleAnchor && pendingKeys.length > 1) {
+      const firstKey = pendingKeys.shift()!;
+      await renderPanels(pageIndex, [firstKey]);
+      styleAnchor = page.panels[firstKey].imageUrl;
+    }
+
+    await renderPanels(pageIndex, pendingKeys);
+    styleAnchor = lastRenderedPanel([page]) || styleAnchor;
+  }
+
+  return { title: script.title, pages, characterSignatures };
+};
@@ -0,0 +1,214 @@
+/**
+ * Comic Pages
+ *
+ * A comic is made of one or more pages stored in the `comic_pages` table.
+ * Each page has its own layout template and `box1`…`boxN` panels.
+ */
+
+import type { Connection } from 'mysql2/promise';
+import pool from '../config/database.js';
+import type { ComicPanel, ComicPanels } from './generationProvider.js';
+import { getLayout, sortPanelKeys } from './layouts.js';
+
+export interface ComicPage {
+  pageNumber: number; // 1-based
+  layout: string;
+  chapterTitle?: string | null;
+  panels: ComicPanels;
+}
+
+// Most pages a comic may have, whether generated at once or added later
+export const MAX_COMIC_PAGES = parseInt(process.env.MAX_COMIC_PAGES || '10');
+
+const mapPageRow = (row: any): ComicPage => {
+  let panels: ComicPanels = {};
+  try {
+    panels = typeof row.panels === 'string' ? JSON.parse(row.panels) : row.panels;
+  } catch (e) {
+    console.error('Error parsing page panels:', e);
+  }
+
+  return {
+    pageNumber: row.page_number,
+    layout: getLayout(row.layout).name,
+    chapterTitle: row.chapter_title,
+    panels: panels || {},
+  };
+};
+
+/**
+ * Get all pages of a comic in reading order
+ */
+export const getComicPages = async (
+  comicId: string | number,
+  db: Connection = pool
+): Promise<ComicPage[]> => {
+  const [rows] = await db.execute(
+    'SELECT * FROM comic_pages WHERE comic_id = ? ORDER BY page_number',
+    [comicId]
+  ) as any[];
+
+  return rows.map(mapPageRow);
+};
+
+/**
+ * Get a single page of a comic
+ */
+export const getComicPage = async (
+  comicId: string | number,
+  pageNumber: number,
+  db: Connection = pool
+): Promise<ComicPage | null> => {
+  const [rows] = await db.execute(
+    'SELECT * FROM comic_pages WHERE comic_id = ? AND page_number = ?',
+    [comicId, pageNumber]
+  ) as any[];
+
+  return rows.length > 0 ? mapPageRow(rows[0]) : null;
+};
+
+/**
+ * Insert pages for a comic, numbering them from `firstPageNumber`
+ */
+export const insertComicPages = async (
+  comicId: string | number,
+  pages: Omit<ComicPage, 'pageNumber'>[],
+  firstPageNumber: number = 1,
+  db: Connection = pool
+): Promise<ComicPage[]> => {
+  const inserted: ComicPage[] = [];
+
+  for (const [i, page] of pages.entries()) {
+    const pageNumber = firstPageNumber + i;
+    await db.execute(
+      `INSERT INTO comic_pages (comic_id, page_number, chapter_title, layout, panels)
+       VALUES (?, ?, ?, ?, ?)`,
+      [comicId, pageNumber, page.chapterTitle || null, page.layout, JSON.stringify(page.panels)]
+    );
+    inserted.push({ ...page, pageNumber });
+  }
+
+  return inserted;
+};
+
+/**
+ * Append a page after the comic's current last page.
+ * Must run inside a transaction on `db` so concurrent appends get distinct numbers.
+ */
+export const appendComicPage = async (
+  comicId: string | number,
+  page: Omit<ComicPage, 'pageNumber'>,
+  db: Connection
+): Promise<ComicPage> => {
+  // Lock the comic row so page numbers are assigned one at a time
+  await db.execute('SELECT id FROM comics WHERE id = ? FOR UPDATE', [comicId]);
+
+  const [rows] = await db.execute(
+    'SELECT COALESCE(MAX(page_number), 0) AS last_page FROM comic_pages WHERE comic_id = ?',
+    [comicId]
+  ) as any[];
+
+  const [inserted] = await insertComicPages(comicId, [page], rows[0].last_page + 1, db);
+  return inserted;
+};
+
+/**
+ * Update a page's layout, chapter title and/or panels
+ * @returns false if the page does not exist
+ */
+export const updateComicPage = async (
+  comicId: string | number,
+  pageNumber: number,
+  changes: Partial<Omit<ComicPage, 'pageNumber'>>,
+  db: Connection = pool
+): Promise<boolean> => {
+  const updates: string[] = [];
+  const values: any[] = [];
+
+  if (changes.layout !== undefined) {
+    updates.push('layout = ?');
+    values.push(changes.layout);
+  }
+  if (changes.chapterTitle !== undefined) {
+    updates.push('chapter_title = ?');
+    values.push(changes.chapterTitle);
+  }
+  if (changes.panels !== undefined) {
+    updates.push('panels = ?');
+    values.push(JSON.stringify(changes.panels));
+  }
+
+  if (updates.length === 0) {
+    return true;
+  }
+
+  values.push(comicId, pageNumber);
+
+  const [result] = await db.execute(
+    `UPDATE comic_pages SET ${updates.join(', ')} WHERE comic_id = ? AND page_number = ?`,
+    values
+  ) as any[];
+
+  return result.affectedRows > 0;
+};
+
+/**
+ * Replace a single panel of a page without touching the other panels
+ * @returns false if the page does not exist
+ */
+export const updateComicPanel = async (
+  comicId: string | number,
+  pageNumber: number,
+  panelKey: string,
+  panel: ComicPanel,
+  db: Connection = pool
+): Promise<boolean> => {
+  // JSON_SET keeps concurrent edits of other panels on the same page
+  const [result] = await db.execute(
+    `UPDATE comic_pages SET panels = JSON_SET(panels, ?, CAST(? AS JSON))
+     WHERE comic_id = ? AND page_number = ?`,
+    [`$.${panelKey}`, JSON.stringify(panel), comicId, pageNumber]
+  ) as any[];
+
+  return result.affectedRows > 0;
+};
+
+/**
+ * Delete a page and close the gap in page numbers.
+ * Must run inside a transaction on `db`.
+ * @returns false if the page does not exist
+ */
+export const deleteComicPage = async (
+  comicId: string | number,
+  pageNumber: number,
+  db: Connection
+): Promise<boolean> => {
+  const [result] = await db.execute(
+    'DELETE FROM comic_pages WHERE comic_id = ? AND page_number = ?',
+    [comicId, pageNumber]
+  ) as any[];
+
+  if (result.affectedRows === 0) {
+    return false;
+  }
+
+  // Ascending order keeps the (comic_id, page_number) unique key valid while renumbering
+  await db.execute(
+    `UPDATE comic_pages SET page_number = page_number - 1
+     WHERE comic_id = ? AND page_number > ?
+     ORDER BY page_number`,
+    [comicId, pageNumber]
+  );
+
+  return true;
+};
+
+/**
+ * Narration of every panel across the given pages, in reading order
+ */
+export const collectNarration = (pages: ComicPage[]): string[] =>
+  pages.flatMap(page =>
+    sortPanelKeys(Object.keys(page.panels))
+      .map(key => page.panels[key]?.narration)
+      .filter((narration): narration is string => Boolean(narration))
+  );
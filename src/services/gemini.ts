@@ -3,8 +3,31 @@ import {
   buildImagePromptWithConsistency,
   createCharacterDescription,
   extractCharacterDescriptionsFromScript,
-  CharacterDescription
+  CharacterDescription,
+  CharacterSignature
 } from "./characterConsistency.js";
+import {
+  describeAspectRatio,
+  getPanelKeys,
+  getStoryBeats,
+  LayoutTemplate,
+  LAYOUT_TEMPLATES,
+  DEFAULT_LAYOUT,
+} from "./layouts.js";
+import type {
+  ComicCategory,
+  ComicPanels,
+  FaceAnalysisResult,
+  ComicPanel,
+  GenerationProvider,
+  PanelReferences,
+  PanelRewriteContext,
+  SourceType,
+  StoryArc,
+  StoryContext,
+} from "./generationProvider.js";
+import { prepareImageForModel } from "./imageProcessing.js";
+import { normalizeDialogue } from "./lettering.js";
 
 const getAiClient = () => {
   const apiKey = process.env.API_KEY;
@@ -14,20 +37,52 @@ const getAiClient = () => {
   return new GoogleGenAI({ apiKey });
 };
 
-// --- Image Analysis ---
+// Inline image part for a base64 image, downscaled and labeled with its real MIME type
+const inlineImagePart = async (imageBase64: string) => ({
+  inlineData: await prepareImageForModel(imageBase64),
+});
+
+// Structured dialogue of a panel, lettered as bubbles on top of the art
+const dialogueSchema = {
+  type: Type.ARRAY,
+  description: "Lines spoken or thought by the characters, in reading order. May be empty.",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      speaker: { type: Type.STRING, description: "Name of the character speaking." },
+      text: { type: Type.STRING, description: "What they say, at most 15 words." },
+      style: { type: Type.STRING, enum: ["speech", "thought"] },
+      position: {
+        type: Type.STRING,
+        enum: ["Left", "Center", "Right"],
+        description: "Where the speaker stands in the panel.",
+      },
+    },
+    required: ["speaker", "text", "style", "position"],
+  },
+};
 
-export interface FaceAnalysisResult {
-    faceCount: number;
-    characters: {
-        gender: 'Boy' | 'Girl' | 'Man' | 'Woman';
-        estimatedAge: number; // We still infer this for internal generation prompt
-        position: 'Left' | 'Right' | 'Center' | 'Single';
-    }[];
-}
+const toComicPanel = (result: any): ComicPanel => ({
+  scene: result?.scene || "",
+  narration: result?.narration || "",
+  dialogue: normalizeDialogue(result?.dialogue),
+});
+
+// Data URL of the first image in a model response, if any
+const responseImage = (parts: any[] | undefined): string | null => {
+  for (const part of parts || []) {
+    if (part.inlineData && part.inlineData.data) {
+      return `data:${part.inlineData.mimeType || "image/png"};base64,${part.inlineData.data}`;
+    }
+  }
+  return null;
+};
+
+// --- Image Analysis ---
 
 export const analyzeImageFaces = async (imageBase64: string): Promise<FaceAnalysisResult> => {
     const ai = getAiClient();
-    const base64Data = imageBase64.split(',')[1];
+    const imagePart = await inlineImagePart(imageBase64);
 
     const prompt = `
       Analyze this image and identify the human faces.
@@ -46,7 +101,7 @@ export const analyzeImageFaces = async (imageBase64: string): Promise<FaceAnalys
             model: 'gemini-2.5-flash',
             contents: {
                 parts: [
-                    { inlineData: { data: base64Data, mimeType: 'image/jpeg' } },
+                    imagePart,
                     { text: prompt }
                 ]
             },
@@ -93,7 +148,7 @@ export const generateCharacterVariations = async (
   gender: string
 ): Promise<string[]> => {
   const ai = getAiClient();
-  const base64Data = imageBase64.split(',')[1];
+  const imagePart = await inlineImagePart(imageBase64);
 
   // We will generate 4 variations in parallel
   const prompt = `
@@ -131,7 +186,7 @@ export const generateCharacterVariations = async (
         model: 'gemini-3-pro-image-preview',
         contents: {
           parts: [
-            { inlineData: { data: base64Data, mimeType: 'image/jpeg' } },
+            imagePart,
             { text: prompt },
           ],
         },
@@ -140,15 +195,7 @@ export const generateCharacterVariations = async (
         },
       });
 
-      const parts = response.candidates?.[0]?.content?.parts;
-      if (parts && parts.length > 0) {
-        for (const part of parts) {
-          if (part.inlineData && part.inlineData.data) {
-            return `data:image/png;base64,${part.inlineData.data}`;
-          }
-        }
-      }
-      return null;
+      return responseImage(response.candidates?.[0]?.content?.parts);
     } catch (e) {
       console.error("Avatar generation failed", e);
       return null;
@@ -163,31 +210,26 @@ export const generateCharacterVariations = async (
   return results.filter((img): img is string => img !== null);
 };
 
-export interface ComicPanel {
-  scene: string;
-  narration: string;
-  imageUrl?: string;
-}
-
-export interface ComicPanels {
-  box1: ComicPanel;
-  box2: ComicPanel;
-  box3: ComicPanel;
-  box4: ComicPanel;
-  box5: ComicPanel;
-}
-
-export type ComicCategory = 'Adventure' | 'Fairy Tale' | 'Mythology' | 'Sci-Fi' | 'Superhero' | 'Fantasy';
-export type SourceType = 'Predefined' | 'AI';
-
 export const generateComicScript = async (
   category: ComicCategory,
   sourceType: SourceType,
   imageBase64: string,
-  characterNames: string[]
-): Promise<{ title: string; panels: ComicPanels }> => {
+  characterNames: string[],
+  layout: LayoutTemplate = LAYOUT_TEMPLATES[DEFAULT_LAYOUT],
+  storyContext?: StoryContext
+): Promise<{ title: string; panels: ComicPanels; characterSignatures: CharacterSignature[] }> => {
   const ai = getAiClient();
 
+  const panelKeys = getPanelKeys(layout);
+  const panelCount = panelKeys.length;
+
+  // A page is the end of the story unless more pages are planned after it
+  const isFinalPage = !storyContext?.pageCount || storyContext.pageNumber >= storyContext.pageCount;
+  const storyBeats = getStoryBeats(panelCount, isFinalPage);
+  if (storyContext && storyContext.pageNumber > 1) {
+    storyBeats[0] = 'Opening scene - Pick up exactly where the previous page left off.';
+  }
+
   const mainChar = characterNames[0] || "The Hero";
   const secondChar = characterNames[1] ? ` and ${characterNames[1]}` : "";
   const charsDescription = `${mainChar}${secondChar}`;
@@ -238,9 +280,82 @@ export const generateComicScript = async (
   `;
   
 
+  const storyStructure = layout.panels
+    .map((slot, i) => `    - Box ${i + 1}: ${storyBeats[i]}${slot.beat ? ` ${slot.beat}` : ""}`)
+    .join("\n");
+
+  const panelConstraints = panelKeys
+    .map((_, i) => {
+      const number = i + 1;
+      let continuity = "Maintain exact same character appearances.";
+      if (number === 1) {
+        continuity = "Include specific character appearance details.";
+      } else if (number === 2) {
+        continuity = "Ensure characters look identical to Box 1.";
+      }
+      let ending = "";
+      if (number === panelCount) {
+        ending = isFinalPage
+          ? " CONCLUSION - must wrap up the story with a satisfying ending."
+          : " PAGE ENDING - must leave the reader wanting to turn the page.";
+      }
+      return `    - Box ${number}: Scene Description (visuals), Narration (caption) & Dialogue (what the characters say or think). ${continuity}${ending} Describe in comic book/manga style.`;
+    })
+    .join("\n");
+
+  const panelProperties = Object.fromEntries(
+    panelKeys.map((key, i) => {
+      const isLast = isFinalPage && i === panelCount - 1;
+      return [key, {
+        type: Type.OBJECT,
+        properties: {
+          scene: {
+            type: Type.STRING,
+            description: isLast
+              ? "Visual description of the scene. This is the CONCLUSION."
+              : "Visual description of the scene.",
+          },
+          narration: {
+            type: Type.STRING,
+            description: isLast
+              ? "The narrator's caption that concludes the story. No dialogue."
+              : "The narrator's caption. No dialogue.",
+          },
+          dialogue: dialogueSchema,
+        },
+        required: ["scene", "narration", "dialogue"],
+      }];
+    })
+  );
+
+  const continuationInstructions = storyContext ? `
+    STORY CONTINUITY (THIS PAGE IS PART OF A LONGER STORY):
+    - Story Title: ${storyContext.title}
+    - This is page ${storyContext.pageNumber}${storyContext.pageCount ? ` of ${storyContext.pageCount}` : ""}.${storyContext.chapterTitle ? `
+    - Chapter: ${storyContext.chapterTitle}` : ""}${storyContext.pageSummary ? `
+    - What happens on this page: ${storyContext.pageSummary}` : ""}${storyContext.direction ? `
+    - Requested direction: ${storyContext.direction}` : ""}
+    - Keep the same characters, outfits, and visual signature as the earlier pages.
+    ${storyContext.previousNarration.length > 0 ? `- The story so far (narration of earlier panels, in order):
+${storyContext.previousNarration.map((line, i) => `      ${i + 1}. ${line}`).join("\n")}` : ""}
+  ` : "";
+
+  // Later pages reuse the signatures established by the first page
+  const establishedSignatures = storyContext?.characterSignatures || [];
+  const signatureInstruction = establishedSignatures.length > 0
+    ? `- Visual Signature: The characters' look is already established. Return it unchanged in 'character_descriptions' and INCLUDE it in every 'scene' description:
+${establishedSignatures.map(sig => `      - ${sig.name}: outfit ${sig.outfit}; hair ${sig.hair}; colors ${sig.colors}; accessories ${sig.accessories}`).join("\n")}`
+    : `- Visual Signature: For EVERY character, define a specific outfit (e.g., "red cape and blue shirt"), hair, color palette, and accessories based on the uploaded photo. Return them in 'character_descriptions' and INCLUDE them in every 'scene' description.`;
+
+  const endingInstruction = isFinalPage
+    ? `CRITICAL: The story MUST conclude and feel complete in Box ${panelCount}. Box ${panelCount} should provide a clear ending, resolution, or satisfying conclusion to the adventure.`
+    : `CRITICAL: The story continues on the next page. Box ${panelCount} should end this page on a hook, NOT conclude the story.`;
+
   const prompt = `
     You are the engine of a comic-story creation app.
-    Your task is to generate a complete 5-panel comic story that fits on a single page.
+    Your task is to generate ${storyContext
+      ? `page ${storyContext.pageNumber} of a continuing comic story, as ${panelCount} panels that fit on a single page`
+      : `a complete ${panelCount}-panel comic story that fits on a single page`}.
     
     IMPORTANT: Use clear, engaging English suitable for teenagers and general audiences.
     
@@ -250,28 +365,23 @@ export const generateComicScript = async (
     3. Story Source: ${sourceType === 'Predefined' ? 'Pick a classic trope from this category' : 'Create a fresh, original short story'}
 
     ${consistencyInstructions}
+    ${continuationInstructions}
+    Page Layout: ${layout.description}.
 
-    Story Structure (5 panels that tell a complete story):
-    - Box 1: Opening scene - Introduce the character and setting. Start the adventure.
-    - Box 2: Rising action - Something interesting happens or a challenge appears.
-    - Box 3: Development - The character faces the challenge or explores further.
-    - Box 4: Climax - The most exciting moment or turning point.
-    - Box 5: Resolution - A satisfying conclusion that wraps up the story nicely.
+    Story Structure (${panelCount} panels${isFinalPage ? " that tell a complete story" : ""}):
+${storyStructure}
     
-    CRITICAL: The story MUST conclude and feel complete in Box 5. Box 5 should provide a clear ending, resolution, or satisfying conclusion to the adventure.
+    ${endingInstruction}
     
     Output Constraints:
     - Title: A catchy, engaging name for this story.
-    - Visual Signature: Define a specific outfit for the main character (e.g., "red cape and blue shirt") and INCLUDE it in every 'scene' description.
-    - Box 1: Scene Description (visuals) & Narration (engaging text). Include specific character appearance details. Opening scene. Describe scenes as they would appear in a comic book/manga illustration.
-    - Box 2: Scene Description (visuals) & Narration (engaging text). Ensure characters look identical to Box 1. Rising action. Describe in comic book/manga style.
-    - Box 3: Scene Description (visuals) & Narration (engaging text). Maintain exact same character appearances. Development. Describe in comic book/manga style.
-    - Box 4: Scene Description (visuals) & Narration (engaging text). Maintain exact same character appearances. Climax/turning point. Describe in comic book/manga style.
-    - Box 5: Scene Description (visuals) & Narration (engaging text). Maintain exact same character appearances. CONCLUSION - must wrap up the story with a satisfying ending. Describe in comic book/manga style.
+    ${signatureInstruction}
+${panelConstraints}
     - Tone: Engaging, exciting, and appropriate for all ages.
     - Safety: No excessive violence, inappropriate, or harmful content.
     - Style Note: All scene descriptions should be written with comic book/manga illustration style in mind (bold lines, vibrant colors, professional illustration quality).
     - Character Context: The main character looks like the person in the uploaded photo, but rendered in proper comic book/manga illustration style.
+    - Dialogue: 0-3 short lines per panel, each spoken or thought by one of the characters (${characterNames.join(", ") || mainChar}). Keep narration for the narrator only. Say in the 'scene' where each speaker stands, matching the dialogue position.
   `;
 
   // Using Gemini 2.5 Flash for text logic
@@ -282,12 +392,7 @@ export const generateComicScript = async (
         role: 'user',
         parts: [
           // We pass the image to the text model so it "sees" the character for context if needed
-          {
-            inlineData: {
-              mimeType: 'image/jpeg',
-              data: imageBase64.split(',')[1], 
-            },
-          },
+          await inlineImagePart(imageBase64),
           { text: prompt },
         ],
       },
@@ -301,95 +406,247 @@ export const generateComicScript = async (
             type: Type.STRING,
             description: "A creative title for the comic story.",
           },
-          box1: {
-            type: Type.OBJECT,
-            properties: {
-              scene: { type: Type.STRING, description: "Visual description of the scene." },
-              narration: { type: Type.STRING, description: "The caption text or dialogue." },
-            },
-            required: ["scene", "narration"],
-          },
-          box2: {
-            type: Type.OBJECT,
-            properties: {
-              scene: { type: Type.STRING, description: "Visual description of the scene." },
-              narration: { type: Type.STRING, description: "The caption text or dialogue." },
-            },
-            required: ["scene", "narration"],
-          },
-          box3: {
-            type: Type.OBJECT,
-            properties: {
-              scene: { type: Type.STRING, description: "Visual description of the scene." },
-              narration: { type: Type.STRING, description: "The caption text or dialogue." },
+          character_descriptions: {
+            type: Type.ARRAY,
+            description: "Visual signature of every character, used to keep them consistent across panels.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                outfit: { type: Type.STRING, description: "Specific clothing worn in every panel." },
+                hair: { type: Type.STRING, description: "Hair color, length and style." },
+                colors: { type: Type.STRING, description: "Dominant color palette of the character." },
+                accessories: { type: Type.STRING, description: "Accessories, or 'none'." },
+              },
+              required: ["name", "outfit", "hair", "colors", "accessories"],
             },
-            required: ["scene", "narration"],
-          },
-          box4: {
-            type: Type.OBJECT,
-            properties: {
-              scene: { type: Type.STRING, description: "Visual description of the scene." },
-              narration: { type: Type.STRING, description: "The caption text or dialogue." },
-            },
-            required: ["scene", "narration"],
-          },
-          box5: {
-            type: Type.OBJECT,
-            properties: {
-              scene: { type: Type.STRING, description: "Visual description of the scene. This is the CONCLUSION." },
-              narration: { type: Type.STRING, description: "The caption text or dialogue that concludes the story." },
-            },
-            required: ["scene", "narration"],
           },
+          ...panelProperties,
         },
-        required: ["title", "box1", "box2", "box3", "box4", "box5"],
+        required: ["title", "character_descriptions", ...panelKeys],
       },
     },
   });
 
   const jsonText = response.text || "{}";
   const result = JSON.parse(jsonText);
+  return {
+    // A continued story keeps its existing title
+    title: storyContext?.title || result.title || "Untitled Adventure",
+    panels: Object.fromEntries(panelKeys.map(key => [key, toComicPanel(result[key])])),
+    characterSignatures: establishedSignatures.length > 0
+      ? establishedSignatures
+      : (Array.isArray(result.character_descriptions) ? result.character_descriptions : [])
+        .filter((sig: CharacterSignature) => sig && sig.name),
+  };
+};
+
+export const planStoryArc = async (
+  category: ComicCategory,
+  sourceType: SourceType,
+  imageBase64: string,
+  characterNames: string[],
+  pageCount: number
+): Promise<StoryArc> => {
+  const ai = getAiClient();
+
+  const mainChar = characterNames[0] || "The Hero";
+  const secondChar = characterNames[1] ? ` and ${characterNames[1]}` : "";
+
+  const prompt = `
+    You are the engine of a comic-story creation app.
+    Plan a comic story told across exactly ${pageCount} pages. Each page is one chapter of the story.
+
+    IMPORTANT: Use clear, engaging English suitable for teenagers and general audiences.
+
+    Inputs:
+    1. Characters: ${mainChar}${secondChar}. The same characters appear throughout every chapter.
+    2. Selected Category: ${category}
+    3. Story Source: ${sourceType === 'Predefined' ? 'Pick a classic trope from this category' : 'Create a fresh, original story'}
+
+    Output Constraints:
+    - Title: A catchy, engaging name for the whole story.
+    - Pages: Exactly ${pageCount} entries, in reading order. For each page give a short chapter title and a 2-3 sentence summary of what happens.
+    - Arc: Page 1 introduces the characters and setting, the middle pages build the challenge, and page ${pageCount} reaches the climax and a satisfying conclusion.
+    - Continuity: Events on each page must follow from the previous page.
+    - Tone: Engaging, exciting, and appropriate for all ages.
+    - Safety: No excessive violence, inappropriate, or harmful content.
+  `;
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: [
+      {
+        role: 'user',
+        parts: [
+          await inlineImagePart(imageBase64),
+          { text: prompt },
+        ],
+      },
+    ],
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING, description: "A creative title for the whole story." },
+          pages: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                chapterTitle: { type: Type.STRING, description: "Short title for this chapter." },
+                summary: { type: Type.STRING, description: "What happens on this page." },
+              },
+              required: ["chapterTitle", "summary"],
+            },
+          },
+        },
+        required: ["title", "pages"],
+      },
+    },
+  });
+
+  const result = JSON.parse(response.text || "{}");
+  const pages = Array.isArray(result.pages) ? result.pages.slice(0, pageCount) : [];
+
+  // Pad a short plan so every requested page has an entry
+  while (pages.length < pageCount) {
+    pages.push({
+      chapterTitle: `Chapter ${pages.length + 1}`,
+      summary: pages.length === pageCount - 1 ? "The story reaches its conclusion." : "The adventure continues.",
+    });
+  }
+
   return {
     title: result.title || "Untitled Adventure",
-    panels: {
-      box1: result.box1,
-      box2: result.box2,
-      box3: result.box3,
-      box4: result.box4,
-      box5: result.box5
-    }
+    pages,
   };
 };
 
+export const rewritePanel = async (
+  panel: ComicPanel,
+  instruction: string,
+  context: PanelRewriteContext
+): Promise<Pick<ComicPanel, 'scene' | 'narration' | 'dialogue'>> => {
+  const ai = getAiClient();
+
+  const signatures = (context.characterSignatures || [])
+    .map(sig => `      - ${sig.name}: outfit ${sig.outfit}; hair ${sig.hair}; colors ${sig.colors}; accessories ${sig.accessories}`)
+    .join("\n");
+
+  const prompt = `
+    You are the engine of a comic-story creation app.
+    Rewrite ONE panel of the comic "${context.title}" following the user's instruction.
+
+    IMPORTANT: Use clear, engaging English suitable for teenagers and general audiences.
+
+    Characters: ${context.characterNames.join(", ") || "The Hero"}.
+    ${signatures ? `Visual Signature (INCLUDE it in the scene description, unchanged):
+${signatures}` : ""}
+
+    ${context.previousNarration.length > 0 ? `Narration before this panel, in order:
+${context.previousNarration.map((line, i) => `      ${i + 1}. ${line}`).join("\n")}` : "This is the first panel of the comic."}
+    ${context.nextNarration.length > 0 ? `Narration right after this panel:
+${context.nextNarration.map((line, i) => `      ${i + 1}. ${line}`).join("\n")}` : ""}
+
+    Current panel:
+    - Scene: ${panel.scene}
+    - Narration: ${panel.narration}
+    - Dialogue:${(panel.dialogue || []).length > 0
+      ? `\n${(panel.dialogue || []).map(line => `      - ${line.speaker}${line.style === 'thought' ? " (thinks)" : ""}: ${line.text}`).join("\n")}`
+      : " none"}
+
+    Instruction: ${instruction}
+
+    Output Constraints:
+    - Change only what the instruction asks for; the panel must still fit between the narration before and after it.
+    - Scene: Visual description of the panel, written with comic book/manga illustration style in mind.
+    - Narration: The narrator's caption, without dialogue.
+    - Dialogue: 0-3 short lines spoken or thought by the characters, in reading order.
+    - Safety: No excessive violence, inappropriate, or harmful content.
+  `;
+
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          scene: { type: Type.STRING, description: "Visual description of the scene." },
+          narration: { type: Type.STRING, description: "The narrator's caption. No dialogue." },
+          dialogue: dialogueSchema,
+        },
+        required: ["scene", "narration", "dialogue"],
+      },
+    },
+  });
+
+  const result = JSON.parse(response.text || "{}");
+  if (!result.scene || !result.narration) {
+    throw new Error("No panel rewrite returned");
+  }
+  const { scene, narration, dialogue } = toComicPanel(result);
+  return { scene, narration, dialogue };
+};
+
 export const generatePanelImage = async (
   originalImageBase64: string,
   sceneDescription: string,
   characterNames: string[] = [],
   characterDescriptions: CharacterDescription[] = [],
-  panelIndex?: number // 1-5 to indicate which panel this is
+  panelIndex: number = 1, // 1-based position of this panel in the layout
+  layout: LayoutTemplate = LAYOUT_TEMPLATES[DEFAULT_LAYOUT],
+  references: PanelReferences = {}
 ): Promise<string> => {
   const ai = getAiClient();
 
+  const characterReferences = (references.characters || []).filter(character => character.images.length > 0);
+  const referencedNames = characterReferences.map(character => character.name);
+
   // Use character descriptions if provided, otherwise create them from names
   const finalCharacterDescriptions = characterDescriptions.length > 0
     ? characterDescriptions
     : characterNames.map(name => createCharacterDescription(name, originalImageBase64));
 
-  // All images must be in 4:3 aspect ratio regardless of input image dimensions
-  const aspectRatio = "4:3 landscape format (wider than tall) - MANDATORY: Output must be 4:3 even if input image has different aspect ratio";
-  
-  const panelLayout = panelIndex === 5
-    ? "full-width panel at the bottom of the page"
-    : "side-by-side panel in the top or middle row";
+  // The layout slot decides the panel's aspect ratio regardless of input image dimensions
+  const slot = layout.panels[panelIndex - 1] || layout.panels[layout.panels.length - 1];
+  const ratio = slot.aspectRatio;
+  const aspectRatio = describeAspectRatio(ratio);
+  const panelLayout = slot.layout;
 
   // Build enhanced prompt using character consistency utilities
   const consistencyPrompt = buildImagePromptWithConsistency(
     sceneDescription,
     characterNames,
     finalCharacterDescriptions,
-    "the provided reference image"
+    "the provided reference image",
+    referencedNames
   );
 
+  // Each image gets a text label so the model knows whose face it shows
+  const referenceParts: any[] = [];
+  const characterImages = characterReferences.flatMap(character => character.images);
+  if (!characterImages.includes(originalImageBase64)) {
+    referenceParts.push({ text: "Original reference photo:" }, await inlineImagePart(originalImageBase64));
+  }
+  for (const character of characterReferences) {
+    for (const [i, image] of character.images.entries()) {
+      referenceParts.push(
+        { text: `Reference image ${i + 1} of ${character.images.length} for ${character.name}:` },
+        await inlineImagePart(image)
+      );
+    }
+  }
+  if (references.previousPanel) {
+    referenceParts.push(
+      { text: "Previous panel of this comic (style anchor): match its art style, line work, color palette and character designs, but do NOT copy its composition or scene:" },
+      await inlineImagePart(references.previousPanel)
+    );
+  }
+
   // Final prompt with detailed positive requirements
   const prompt = `
 ${consistencyPrompt}
@@ -403,10 +660,10 @@ This image MUST be a professional comic book/manga panel illustration suitable f
 The aesthetic must be high-quality comic book/manga illustration style with professional appearance.
 
 CRITICAL ASPECT RATIO REQUIREMENT:
-- The output image MUST be in 4:3 aspect ratio (landscape format, wider than tall).
+- The output image MUST be in ${aspectRatio}.
 - IGNORE the aspect ratio of the input/reference image completely.
-- The generated output MUST ALWAYS be 4:3 regardless of the uploaded image's dimensions (square, portrait, landscape, etc.).
-- Do NOT match or preserve the input image's aspect ratio - always output 4:3.
+- The generated output MUST ALWAYS be ${ratio} regardless of the uploaded image's dimensions (square, portrait, landscape, etc.).
+- Do NOT match or preserve the input image's aspect ratio - always output ${ratio}.
 
 CHARACTER IDENTITY PRESERVATION:
 - Transform the main character from the reference image into a comic book/manga character
@@ -447,13 +704,13 @@ CHARACTER TRANSFORMATION PROCESS:
 
 LAYOUT & COMPOSITION REQUIREMENTS:
 - Panel Layout: ${panelLayout}
-- CRITICAL ASPECT RATIO REQUIREMENT: The output image MUST be in 4:3 aspect ratio (landscape format, wider than tall).
-- IGNORE the aspect ratio of the input/reference image - the generated output MUST ALWAYS be 4:3 regardless of the uploaded image's dimensions.
+- CRITICAL ASPECT RATIO REQUIREMENT: The output image MUST be in ${aspectRatio}.
+- IGNORE the aspect ratio of the input/reference image - the generated output MUST ALWAYS be ${ratio} regardless of the uploaded image's dimensions.
 - Use clean, simple framing like a printed comic panel
 - Ensure complete characters are visible (no cropped faces or limbs)
 - Center the main action clearly within the frame
 - Maintain proper composition with balanced elements
-- The image must be exactly 4:3 landscape format - do not match the input image's aspect ratio
+- The image must be exactly ${aspectRatio} - do not match the input image's aspect ratio
 
 TECHNICAL REQUIREMENTS:
 - High quality, colorful, professional comic book/manga illustration
@@ -467,21 +724,15 @@ TECHNICAL REQUIREMENTS:
 
 OUTPUT REQUIREMENT:
 Generate ONLY the image. Do not include any text, captions, or dialogue in the image itself.
+Speech bubbles and captions are added on top later, so keep the upper part of the panel free of important detail.
 `;
 
   try {
-    const base64Data = originalImageBase64.split(',')[1];
-
     const response = await ai.models.generateContent({
       model: 'gemini-2.5-flash-image',
       contents: {
         parts: [
-          {
-            inlineData: {
-              data: base64Data,
-              mimeType: 'image/jpeg', 
-            },
-          },
+          ...referenceParts,
           {
             text: prompt,
           },
@@ -492,13 +743,9 @@ Generate ONLY the image. Do not include any text, captions, or dialogue in the i
       },
     });
 
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts && parts.length > 0) {
-      for (const part of parts) {
-        if (part.inlineData && part.inlineData.data) {
-          return `data:image/png;base64,${part.inlineData.data}`;
-        }
-      }
+    const image = responseImage(response.candidates?.[0]?.content?.parts);
+    if (image) {
+      return image;
     }
     
     console.warn("No image data returned for panel, using original.");
@@ -517,20 +764,11 @@ export const editImageWithGemini = async (
   const ai = getAiClient();
 
   try {
-    // Extract base64 and mime type
-    const base64Data = imageBase64.split(',')[1];
-    const mimeType = imageBase64.split(';')[0].split(':')[1] || 'image/jpeg';
-
     const response = await ai.models.generateContent({
       model: 'gemini-2.5-flash-image',
       contents: {
         parts: [
-          {
-            inlineData: {
-              data: base64Data,
-              mimeType: mimeType,
-            },
-          },
+          await inlineImagePart(imageBase64),
           {
             text: prompt,
           },
@@ -542,13 +780,9 @@ export const editImageWithGemini = async (
     });
 
     // Parse the response to find the image
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts && parts.length > 0) {
-        for (const part of parts) {
-            if (part.inlineData && part.inlineData.data) {
-                return `data:image/png;base64,${part.inlineData.data}`;
-            }
-        }
+    const image = responseImage(response.candidates?.[0]?.content?.parts);
+    if (image) {
+        return image;
     }
     
     throw new Error("No image data returned from Gemini.");
@@ -559,3 +793,13 @@ export const editImageWithGemini = async (
   }
 };
 
+export const geminiProvider: GenerationProvider = {
+  name: 'gemini',
+  generateComicScript,
+  planStoryArc,
+  rewritePanel,
+  generatePanelImage,
+  editImage: editImageWithGemini,
+  analyzeImageFaces,
+  generateCharacterVariations,
+};
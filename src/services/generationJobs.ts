@@ -0,0 +1,444 @@
+/**
+ * Comic Generation Jobs
+ *
+ * Persists comic generation requests in the `generation_jobs` table and
+ * processes them in a background worker loop. Progress (script, then each
+ * panel) is written as it happens, so a job interrupted by a failure or a
+ * server restart resumes from the last finished panel.
+ *
+ * A `comic` job generates a new comic of one or more pages; the client saves
+ * the result. A `page` job continues an existing comic and appends the new
+ * page to it when done.
+ */
+
+import { randomUUID } from 'crypto';
+import pool from '../config/database.js';
+import { ComicCategory, SourceType } from './generationProvider.js';
+import type { CharacterDescription, CharacterSignature } from './characterConsistency.js';
+import {
+  runComicGeneration,
+  CharacterReferenceImages,
+  ComicContinuation,
+  ComicScript,
+} from './comicGeneration.js';
+import { appendComicPage, ComicPage, getComicPages, MAX_COMIC_PAGES } from './comicPages.js';
+import { recordComicRevision } from './panelRevisions.js';
+import { getLayout } from './layouts.js';
+import { readImageAsBase64 } from './imageUpload.js';
+
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type GenerationJobKind = 'comic' | 'page';
+
+export interface GenerationJobInput {
+  category: ComicCategory;
+  sourceType: SourceType;
+  characterNames: string[];
+  characterIds?: string[]; // Library characters the comic was started with
+  characterDescriptions?: CharacterDescription[]; // Their traits when the job was queued
+  characterReferences?: CharacterReferenceImages[]; // Stored reference images per character
+  layout: string; // Layout template name
+  pageCount?: number; // Pages to generate (default 1)
+  direction?: string; // Page jobs: optional guidance for where the story goes next
+  originalImage: string; // Stored path of the uploaded reference image
+}
+
+export interface GenerationJob {
+  id: string;
+  userId: string;
+  kind: GenerationJobKind;
+  comicId: string | null; // Comic a page job appends to
+  status: GenerationJobStatus;
+  input: GenerationJobInput;
+  title: string | null;
+  pages: ComicPage[] | null;
+  characterSignatures: CharacterSignature[] | null;
+  completedPanels: number;
+  totalPanels: number;
+  error: string | null;
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+  completedAt: number | null;
+}
+
+interface ClaimedJob extends GenerationJob {
+  lockToken: string;
+}
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000');
+const CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || '2');
+const MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '3');
+// A running job whose lock has not been refreshed for this long is considered abandoned
+const LOCK_TIMEOUT_SECONDS = parseInt(process.env.JOB_LOCK_TIMEOUT_SECONDS || '120');
+const HEARTBEAT_INTERVAL_MS = Math.max(1000, (LOCK_TIMEOUT_SECONDS * 1000) / 4);
+
+// Identifies this process in `locked_by`
+const workerId = randomUUID();
+
+const parseJson = <T>(value: any): T | null => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  try {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  } catch (e) {
+    console.error('Error parsing job JSON column:', e);
+    return null;
+  }
+};
+
+const toTimestamp = (value: any): number | null =>
+  value ? new Date(value).getTime() : null;
+
+const mapJobRow = (row: any): GenerationJob => ({
+  id: row.id.toString(),
+  userId: row.user_id.toString(),
+  kind: row.kind,
+  comicId: row.comic_id ? row.comic_id.toString() : null,
+  status: row.status,
+  input: parseJson<GenerationJobInput>(row.input) as GenerationJobInput,
+  title: row.title,
+  pages: parseJson<ComicPage[]>(row.pages),
+  characterSignatures: parseJson<CharacterSignature[]>(row.character_signatures),
+  completedPanels: row.completed_panels,
+  totalPanels: row.total_panels,
+  error: row.error,
+  attempts: row.attempts,
+  createdAt: toTimestamp(row.created_at) as number,
+  updatedAt: toTimestamp(row.updated_at) as number,
+  completedAt: toTimestamp(row.completed_at),
+});
+
+/**
+ * Queue a new generation job. Page jobs must pass the comic to append to.
+ */
+export const createGenerationJob = async (
+  userId: string,
+  input: GenerationJobInput,
+  kind: GenerationJobKind = 'comic',
+  comicId: string | null = null
+): Promise<GenerationJob> => {
+  const totalPanels = getLayout(input.layout).panels.length * (input.pageCount || 1);
+
+  const [result] = await pool.execute(
+    'INSERT INTO generation_jobs (user_id, kind, comic_id, input, total_panels) VALUES (?, ?, ?, ?, ?)',
+    [userId, kind, comicId, JSON.stringify(input), totalPanels]
+  ) as any[];
+
+  wakeGenerationWorker();
+
+  return (await getGenerationJob(result.insertId.toString(), userId)) as GenerationJob;
+};
+
+/**
+ * Get a job owned by the given user
+ */
+export const getGenerationJob = async (
+  jobId: string,
+  userId: string
+): Promise<GenerationJob | null> => {
+  const [rows] = await pool.execute(
+    'SELECT * FROM generation_jobs WHERE id = ? AND user_id = ?',
+    [jobId, userId]
+  ) as any[];
+
+  return rows.length > 0 ? mapJobRow(rows[0]) : null;
+};
+
+/**
+ * Put a failed job back in the queue. Finished script and panels are kept.
+ * @returns false if the job does not exist or has not failed
+ */
+export const retryGenerationJob = async (
+  jobId: string,
+  userId: string
+): Promise<boolean> => {
+  const [result] = await pool.execute(
+    `UPDATE generation_jobs
+     SET status = 'queued', error = NULL, attempts = 0, locked_by = NULL, locked_at = NULL
+     WHERE id = ? AND user_id = ? AND status = 'failed'`,
+    [jobId, userId]
+  ) as any[];
+
+  if (result.affectedRows === 0) {
+    return false;
+  }
+
+  wakeGenerationWorker();
+  return true;
+};
+
+// --- Worker ---
+
+/**
+ * Atomically claim the oldest queued (or abandoned) job. The status check is
+ * repeated on the outer UPDATE so two workers that pick the same id in the
+ * subquery cannot both claim it.
+ */
+const claimNextJob = async (): Promise<ClaimedJob | null> => {
+  const lockToken = `${workerId}:${randomUUID()}`;
+
+  const [result] = await pool.execute(
+    `UPDATE generation_jobs
+     SET status = 'running', locked_by = ?, locked_at = NOW(), attempts = attempts + 1
+     WHERE id = (
+       SELECT id FROM (
+         SELECT id FROM generation_jobs
+         WHERE status = 'queued'
+            OR (status = 'running' AND locked_at < NOW() - INTERVAL ? SECOND)
+         ORDER BY created_at
+         LIMIT 1
+       ) AS next_job
+     )
+     AND (status = 'queued' OR (status = 'running' AND locked_at < NOW() - INTERVAL ? SECOND))`,
+    [lockToken, LOCK_TIMEOUT_SECONDS, LOCK_TIMEOUT_SECONDS]
+  ) as any[];
+
+  if (result.affectedRows === 0) {
+    return null;
+  }
+
+  const [rows] = await pool.execute(
+    'SELECT * FROM generation_jobs WHERE locked_by = ?',
+    [lockToken]
+  ) as any[];
+
+  return rows.length > 0 ? { ...mapJobRow(rows[0]), lockToken } : null;
+};
+
+// Thrown when a job's lock went stale and another worker reclaimed it
+const lockLostError = () => new Error('Job was reclaimed by another worker');
+
+/**
+ * Mark a job failed, unless another worker has reclaimed it in the meantime
+ */
+const failJob = async (job: ClaimedJob, message: string): Promise<void> => {
+  await pool.execute(
+    `UPDATE generation_jobs
+     SET status = 'failed', error = ?, locked_by = NULL, locked_at = NULL
+     WHERE id = ? AND locked_by = ?`,
+    [message, job.id, job.lockToken]
+  );
+};
+
+/**
+ * Mark a job completed; page jobs also append their pages to the comic
+ * in the same transaction so a retry can never add a page twice. Only the
+ * worker holding the job's lock completes it, so a worker whose lock went
+ * stale cannot append the pages a second time. Throws if the pages would take
+ * the comic past MAX_COMIC_PAGES, e.g. when several page jobs were queued at once.
+ * @returns false if another worker has reclaimed the job
+ */
+const completeJob = async (
+  job: ClaimedJob,
+  pages: ComicPage[],
+  characterSignatures: CharacterSignature[]
+): Promise<boolean> => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+
+    const [completed] = await connection.execute(
+      `UPDATE generation_jobs
+       SET status = 'completed', error = NULL, locked_by = NULL, locked_at = NULL, completed_at = NOW()
+       WHERE id = ? AND locked_by = ? AND status = 'running'`,
+      [job.id, job.lockToken]
+    ) as any[];
+    if (completed.affectedRows === 0) {
+      await connection.rollback();
+      return false;
+    }
+
+    if (job.kind === 'page') {
+      // Lock the comic row so concurrent page jobs count each other's pages
+      await connection.execute('SELECT id FROM comics WHERE id = ? FOR UPDATE', [job.comicId]);
+      const [counts] = await connection.execute(
+        'SELECT COUNT(*) AS page_count FROM comic_pages WHERE comic_id = ?',
+        [job.comicId]
+      ) as any[];
+      if (counts[0].page_count + pages.length > MAX_COMIC_PAGES) {
+        throw new Error(`A comic can have at most ${MAX_COMIC_PAGES} pages`);
+      }
+
+      const appended: ComicPage[] = [];
+      for (const page of pages) {
+        appended.push(await appendComicPage(job.comicId!, page, connection));
+      }
+      // Record the page numbers actually assigned
+      await connection.execute(
+        'UPDATE generation_jobs SET pages = ? WHERE id = ?',
+        [JSON.stringify(appended), job.id]
+      );
+      // Comics saved before signatures existed adopt the ones written for the new page
+      await connection.execute(
+        'UPDATE comics SET character_signatures = ? WHERE id = ? AND character_signatures IS NULL',
+        [JSON.stringify(characterSignatures), job.comicId]
+      );
+      await recordComicRevision(job.comicId!, 'generated', connection);
+    }
+
+    await connection.commit();
+    return true;
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+const processJob = async (job: ClaimedJob): Promise<void> => {
+  if (job.attempts > MAX_ATTEMPTS) {
+    await failJob(job, 'Generation exceeded the maximum number of attempts');
+    return;
+  }
+
+  // Keep the lock fresh so other workers don't reclaim a job that is still running
+  const heartbeat = setInterval(() => {
+    pool.execute(
+      'UPDATE generation_jobs SET locked_at = NOW() WHERE id = ? AND locked_by = ?',
+      [job.id, job.lockToken]
+    ).catch(error => console.error('Job heartbeat failed:', { jobId: job.id, error }));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const imageBase64 = await readImageAsBase64(job.input.originalImage);
+
+    const resumeFrom: ComicScript | undefined = job.title && job.pages
+      ? { title: job.title, pages: job.pages, characterSignatures: job.characterSignatures || [] }
+      : undefined;
+
+    // Page jobs continue the story from the comic's current pages, keeping its signatures
+    let continuation: ComicContinuation | undefined;
+    let characterSignatures: CharacterSignature[] | undefined;
+    if (job.kind === 'page' && !resumeFrom) {
+      const [comics] = await pool.execute(
+        'SELECT title, character_signatures FROM comics WHERE id = ?',
+        [job.comicId]
+      ) as any[];
+      if (comics.length === 0) {
+        throw new Error('Comic no longer exists');
+      }
+      continuation = {
+        title: comics[0].title,
+        previousPages: await getComicPages(job.comicId!),
+        direction: job.input.direction,
+      };
+      characterSignatures = parseJson<CharacterSignature[]>(comics[0].character_signatures) || undefined;
+    }
+
+    const result = await runComicGeneration(
+      {
+        category: job.input.category,
+        sourceType: job.input.sourceType,
+        imageBase64,
+        characterNames: job.input.characterNames,
+        characterDescriptions: job.input.characterDescriptions,
+        characterReferences: job.input.characterReferences,
+        characterSignatures,
+        layout: getLayout(job.input.layout),
+        pageCount: job.input.pageCount,
+        continuation,
+        userId: job.userId,
+      },
+      {
+        onScript: async ({ title, pages, characterSignatures }) => {
+          const [updated] = await pool.execute(
+            `UPDATE generation_jobs
+             SET title = ?, pages = ?, character_signatures = ?, locked_at = NOW()
+             WHERE id = ? AND locked_by = ?`,
+            [title, JSON.stringify(pages), JSON.stringify(characterSignatures), job.id, job.lockToken]
+          ) as any[];
+          // A worker that lost its lock stops instead of paying for more panels
+          if (updated.affectedRows === 0) {
+            throw lockLostError();
+          }
+        },
+        onPanel: async (pageIndex, panelKey, _panelIndex, panel) => {
+          // JSON_SET keeps concurrent panel updates from overwriting each other
+          const [updated] = await pool.execute(
+            `UPDATE generation_jobs
+             SET pages = JSON_SET(pages, ?, ?), completed_panels = completed_panels + 1, locked_at = NOW()
+             WHERE id = ? AND locked_by = ?`,
+            [`$[${pageIndex}].panels.${panelKey}.imageUrl`, panel.imageUrl, job.id, job.lockToken]
+          ) as any[];
+          if (updated.affectedRows === 0) {
+            throw lockLostError();
+          }
+        },
+      },
+      resumeFrom
+    );
+
+    if (!(await completeJob(job, result.pages, result.characterSignatures))) {
+      console.warn('Generation job finished after another worker reclaimed it, result dropped:', { id: job.id });
+      return;
+    }
+
+    console.log('Generation job completed:', { id: job.id });
+  } catch (error: any) {
+    console.error('Generation job failed:', { id: job.id, error });
+    await failJob(job, error.message || 'Failed to generate comic');
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
+
+let activeJobs = 0;
+let polling = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Claim and start jobs until the concurrency limit is reached or the queue is empty
+ */
+const pollJobs = async (): Promise<void> => {
+  if (polling) {
+    return;
+  }
+  polling = true;
+
+  try {
+    while (activeJobs < CONCURRENCY) {
+      const job = await claimNextJob();
+      if (!job) {
+        return;
+      }
+
+      activeJobs++;
+      processJob(job)
+        .catch(error => console.error('Unexpected job error:', error))
+        .finally(() => {
+          activeJobs--;
+          wakeGenerationWorker();
+        });
+    }
+  } catch (error) {
+    console.error('Error claiming generation job:', error);
+  } finally {
+    polling = false;
+  }
+};
+
+/**
+ * Check the queue now instead of waiting for the next poll
+ */
+export const wakeGenerationWorker = (): void => {
+  if (pollTimer) {
+    setImmediate(() => void pollJobs());
+  }
+};
+
+/**
+ * Start the background worker loop.
+ * Jobs left running by a previous process are picked up again once their lock expires.
+ */
+export const startGenerationWorker = (): void => {
+  if (pollTimer) {
+    return;
+  }
+
+  pollTimer = setInterval(() => void pollJobs(), POLL_INTERVAL_MS);
+  void pollJobs();
+
+  console.log(`Generation worker started (concurrency ${CONCURRENCY})`);
+};
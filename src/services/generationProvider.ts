@@ -0,0 +1,194 @@
+/**
+ * Generation Provider
+ *
+ * Common interface for the text and image model backends. Routes and the
+ * generation pipeline talk to `getGenerationProvider()` instead of a vendor
+ * SDK, so the backend can switch vendors or run offline with the mock provider.
+ *
+ * Select the provider with GENERATION_PROVIDER ("gemini" by default, or "mock").
+ */
+
+import type { CharacterDescription, CharacterSignature } from "./characterConsistency.js";
+import type { LayoutTemplate } from "./layouts.js";
+import { geminiProvider } from "./gemini.js";
+import { mockProvider } from "./mockProvider.js";
+
+export interface FaceAnalysisResult {
+  faceCount: number;
+  characters: {
+    gender: 'Boy' | 'Girl' | 'Man' | 'Woman';
+    estimatedAge: number; // We still infer this for internal generation prompt
+    position: 'Left' | 'Right' | 'Center' | 'Single';
+  }[];
+}
+
+export type DialogueStyle = 'speech' | 'thought';
+
+export type SpeakerPosition = 'Left' | 'Center' | 'Right';
+
+/**
+ * One line a character says (or thinks) in a panel, lettered as a bubble
+ */
+export interface DialogueLine {
+  speaker: string; // Character name
+  text: string;
+  style?: DialogueStyle; // Default 'speech'
+  position?: SpeakerPosition; // Where the speaker stands in the panel, for the bubble tail
+  tail?: { x: number; y: number }; // Exact point the tail points at, 0–1 from the panel's top-left corner
+}
+
+export interface ComicPanel {
+  scene: string;
+  narration: string; // Caption text
+  dialogue?: DialogueLine[]; // In reading order
+  imageUrl?: string;
+}
+
+/**
+ * Images of one character, sent to the image model as separately labeled parts
+ */
+export interface CharacterReference {
+  name: string;
+  images: string[]; // Base64 data URLs: chosen avatar and/or reference photos
+}
+
+/**
+ * Extra reference images for rendering a panel
+ */
+export interface PanelReferences {
+  characters?: CharacterReference[];
+  previousPanel?: string; // Base64 data URL of an already rendered panel, used as a style anchor
+}
+
+// Keyed box1…boxN, with N set by the comic's layout template
+export type ComicPanels = Record<string, ComicPanel>;
+
+export interface StoryArcPage {
+  chapterTitle: string;
+  summary: string; // What happens on this page
+}
+
+export interface StoryArc {
+  title: string;
+  pages: StoryArcPage[];
+}
+
+/**
+ * Where a page sits in a longer story, passed to script generation
+ * for multi-page comics and when appending pages
+ */
+export interface StoryContext {
+  title: string;
+  pageNumber: number; // 1-based number of the page being written
+  pageCount?: number; // Planned total pages, if known
+  chapterTitle?: string;
+  pageSummary?: string; // Plan for this page from the story arc
+  previousNarration: string[]; // Narration of earlier panels, in reading order
+  direction?: string; // Optional user guidance for where the story goes next
+  characterSignatures?: CharacterSignature[]; // Visual signatures established by earlier pages
+}
+
+/**
+ * What a panel rewrite needs to know about the rest of the comic
+ */
+export interface PanelRewriteContext {
+  title: string;
+  characterNames: string[];
+  characterSignatures?: CharacterSignature[];
+  previousNarration: string[]; // Narration of the panels before this one, in reading order
+  nextNarration: string[]; // Narration of the panels right after this one
+}
+
+export type ComicCategory = 'Adventure' | 'Fairy Tale' | 'Mythology' | 'Sci-Fi' | 'Superhero' | 'Fantasy';
+export type SourceType = 'Predefined' | 'AI';
+
+export interface GenerationProvider {
+  name: string;
+
+  /**
+   * Write the title, panel scenes, narration and dialogue, and each character's visual signature
+   * for a comic page, one panel per layout slot.
+   * With a story context the page continues an existing story instead of standing alone.
+   */
+  generateComicScript(
+    category: ComicCategory,
+    sourceType: SourceType,
+    imageBase64: string,
+    characterNames: string[],
+    layout?: LayoutTemplate,
+    storyContext?: StoryContext
+  ): Promise<{ title: string; panels: ComicPanels; characterSignatures: CharacterSignature[] }>;
+
+  /**
+   * Outline a story across several pages with the same characters
+   */
+  planStoryArc(
+    category: ComicCategory,
+    sourceType: SourceType,
+    imageBase64: string,
+    characterNames: string[],
+    pageCount: number
+  ): Promise<StoryArc>;
+
+  /**
+   * Rewrite a panel's scene, narration and dialogue following a user instruction,
+   * keeping it consistent with the surrounding story
+   */
+  rewritePanel(
+    panel: ComicPanel,
+    instruction: string,
+    context: PanelRewriteContext
+  ): Promise<Pick<ComicPanel, 'scene' | 'narration' | 'dialogue'>>;
+
+  /**
+   * Render one panel (panelIndex is 1-based within the layout); returns a base64 data URL.
+   * Per-character reference images and the previous panel are passed alongside the original photo.
+   */
+  generatePanelImage(
+    originalImageBase64: string,
+    sceneDescription: string,
+    characterNames?: string[],
+    characterDescriptions?: CharacterDescription[],
+    panelIndex?: number,
+    layout?: LayoutTemplate,
+    references?: PanelReferences
+  ): Promise<string>;
+
+  /**
+   * Apply a text instruction to an image; returns a base64 data URL
+   */
+  editImage(imageBase64: string, prompt: string): Promise<string>;
+
+  /**
+   * Count and describe the faces in a photo
+   */
+  analyzeImageFaces(imageBase64: string): Promise<FaceAnalysisResult>;
+
+  /**
+   * Create comic-style avatar variations of a photo; returns base64 data URLs
+   */
+  generateCharacterVariations(imageBase64: string, gender: string): Promise<string[]>;
+}
+
+const providers: Record<string, GenerationProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Name of the provider configured by GENERATION_PROVIDER
+ */
+export const getGenerationProviderName = (): string =>
+  (process.env.GENERATION_PROVIDER || 'gemini').toLowerCase();
+
+/**
+ * Get the provider configured by GENERATION_PROVIDER
+ */
+export const getGenerationProvider = (): GenerationProvider => {
+  const name = getGenerationProviderName();
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown generation provider "${name}". Expected one of: ${Object.keys(providers).join(', ')}`);
+  }
+  return provider;
+};
@@ -0,0 +1,164 @@
+/**
+ * Image Cleanup
+ *
+ * Deleting a comic, replacing a panel or abandoning a generation leaves image
+ * files nothing refers to. The sweeper finds stored images that no comic,
+ * panel revision, generation job or character uses and deletes them (with
+ * their renditions) once they are older than a grace period, so images that
+ * were just uploaded and are about to be saved with a comic are kept.
+ *
+ * Runs in the server every IMAGE_CLEANUP_INTERVAL_HOURS, or on demand with
+ * `npm run cleanup-images`.
+ *
+ * Configuration:
+ * - IMAGE_CLEANUP_GRACE_HOURS: minimum age of an unused image before it is deleted (default 24)
+ * - IMAGE_CLEANUP_INTERVAL_HOURS: how often the server sweeps (default 24, 0 to disable)
+ */
+
+import pool from '../config/database.js';
+import { getStorage } from './storage.js';
+import { getOriginalPaths } from './imageProcessing.js';
+import { deleteImage } from './imageUpload.js';
+import { deleteImageRecord } from './images.js';
+import { isImageReferenced } from './panelRevisions.js';
+
+export interface CleanupOptions {
+  graceHours?: number;
+  dryRun?: boolean; // Only report what would be deleted
+}
+
+export interface CleanupResult {
+  checked: number; // Stored original images looked at
+  deleted: string[]; // Paths of deleted (or, in a dry run, deletable) images
+  freedBytes: number; // Size of the deleted originals
+  removedRecords: number; // Records of images whose file no longer exists
+}
+
+const getGraceHours = (): number => parseFloat(process.env.IMAGE_CLEANUP_GRACE_HOURS || '24');
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let sweepTimer: NodeJS.Timeout | null = null;
+let sweeping = false;
+
+/**
+ * Check whether any comic still lists the image in comic_images
+ */
+const isUsedByComic = async (imagePath: string): Promise<boolean> => {
+  const [rows] = await pool.execute(
+    `SELECT 1 FROM comic_images ci
+     JOIN images i ON i.id = ci.image_id
+     WHERE i.path = ?
+     LIMIT 1`,
+    [imagePath]
+  ) as any[];
+  return rows.length > 0;
+};
+
+/**
+ * Check whether the image's content was uploaded again, or a user took ownership of
+ * it, after the cutoff (an identical image uploaded again reuses the existing file,
+ * so the file's age is not enough)
+ */
+const wasRecentlyUploaded = async (imagePath: string, cutoff: number): Promise<boolean> => {
+  const [rows] = await pool.execute(
+    `SELECT 1 FROM images i
+     WHERE i.path = ? AND (
+       i.last_uploaded_at >= ?
+       OR EXISTS (SELECT 1 FROM image_owners o WHERE o.image_id = i.id AND o.created_at >= ?)
+     )
+     LIMIT 1`,
+    [imagePath, new Date(cutoff), new Date(cutoff)]
+  ) as any[];
+  return rows.length > 0;
+};
+
+const isUnused = async (imagePath: string): Promise<boolean> =>
+  !(await isUsedByComic(imagePath)) && !(await isImageReferenced(imagePath));
+
+/**
+ * Delete unused images older than the grace period
+ */
+export const cleanupOrphanedImages = async (options: CleanupOptions = {}): Promise<CleanupResult> => {
+  const graceHours = options.graceHours ?? getGraceHours();
+  const cutoff = Date.now() - graceHours * HOUR_MS;
+  const storage = getStorage();
+
+  const storedPaths = await storage.list('images/');
+  const originals = getOriginalPaths(storedPaths);
+  const result: CleanupResult = { checked: originals.length, deleted: [], freedBytes: 0, removedRecords: 0 };
+
+  for (const imagePath of originals) {
+    try {
+      const object = await storage.stat(imagePath);
+      if (
+        !object ||
+        object.lastModified.getTime() > cutoff ||
+        (await wasRecentlyUploaded(imagePath, cutoff)) ||
+        !(await isUnused(imagePath))
+      ) {
+        continue;
+      }
+
+      if (!options.dryRun) {
+        await deleteImage(imagePath);
+      }
+      result.deleted.push(imagePath);
+      result.freedBytes += object.size;
+    } catch (error) {
+      console.error('Error cleaning up image:', { imagePath, error });
+    }
+  }
+
+  // Records of files that are gone would otherwise keep counting towards their owner's quota
+  const existing = new Set(storedPaths);
+  const [records] = await pool.execute(
+    'SELECT path FROM images WHERE created_at < ?',
+    [new Date(cutoff)]
+  ) as any[];
+
+  for (const { path: imagePath } of records) {
+    if (!existing.has(imagePath) && (await isUnused(imagePath))) {
+      if (!options.dryRun) {
+        await deleteImageRecord(imagePath);
+      }
+      result.removedRecords++;
+    }
+  }
+
+  return result;
+};
+
+const sweep = async (): Promise<void> => {
+  if (sweeping) {
+    return;
+  }
+  sweeping = true;
+
+  try {
+    const { checked, deleted, freedBytes, removedRecords } = await cleanupOrphanedImages();
+    if (deleted.length > 0 || removedRecords > 0) {
+      console.log('Image cleanup:', { checked, deleted: deleted.length, freedBytes, removedRecords });
+    }
+  } catch (error) {
+    console.error('Error cleaning up images:', error);
+  } finally {
+    sweeping = false;
+  }
+};
+
+/**
+ * Start sweeping unused images every IMAGE_CLEANUP_INTERVAL_HOURS.
+ * The first sweep runs one interval after startup.
+ */
+export const startImageCleanup = (): void => {
+  const intervalHours = parseFloat(process.env.IMAGE_CLEANUP_INTERVAL_HOURS || '24');
+  if (sweepTimer || !(intervalHours > 0)) {
+    return;
+  }
+
+  sweepTimer = setInterval(() => void sweep(), intervalHours * HOUR_MS);
+  sweepTimer.unref();
+
+  console.log(`Image cleanup scheduled every ${intervalHours}h (grace period ${getGraceHours()}h)`);
+};
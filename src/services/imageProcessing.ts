@@ -0,0 +1,236 @@
+/**
+ * Image Processing
+ *
+ * Images are judged by their content, not by what the client claims: the
+ * format is sniffed from the file's magic bytes, oversized photos are
+ * downscaled before they are sent to a model, and every stored image gets
+ * smaller renditions (thumbnail, medium) plus optional WebP/AVIF copies.
+ *
+ * Configuration:
+ * - MODEL_IMAGE_MAX_DIMENSION: longest side of images sent to models (default 1536)
+ * - IMAGE_RENDITIONS: "false" to skip thumbnail and medium renditions
+ * - IMAGE_VARIANT_FORMATS: extra formats to store, comma-separated "webp" and/or "avif" (default none)
+ */
+
+import sharp, { type Sharp } from 'sharp';
+
+export type ImageMimeType = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/gif' | 'image/avif';
+
+export interface DecodedImage {
+  buffer: Buffer;
+  mimeType: ImageMimeType;
+}
+
+// Longest side in pixels of each rendition
+export const RENDITION_SIZES = {
+  thumbnail: 320,
+  medium: 1024,
+} as const;
+
+export type RenditionName = keyof typeof RENDITION_SIZES;
+
+export type VariantFormat = 'webp' | 'avif';
+
+export interface ImageRendition {
+  rendition: RenditionName | null; // null for a full-size copy in another format
+  format: string; // File extension
+  mimeType: ImageMimeType;
+  buffer: Buffer;
+}
+
+const VARIANT_FORMATS: VariantFormat[] = ['webp', 'avif'];
+
+// Formats image models accept as input
+const MODEL_INPUT_TYPES: ImageMimeType[] = ['image/png', 'image/jpeg', 'image/webp'];
+
+const MIME_EXTENSIONS: Record<ImageMimeType, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+};
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Detect an image format from the first bytes of the file
+ * @returns null if the data is not a supported image format
+ */
+export const sniffImageType = (data: Buffer): ImageMimeType | null => {
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (data.length >= 6 && ['GIF87a', 'GIF89a'].includes(data.toString('ascii', 0, 6))) {
+    return 'image/gif';
+  }
+  if (data.length >= 12 && data.toString('ascii', 4, 8) === 'ftyp' && ['avif', 'avis'].includes(data.toString('ascii', 8, 12))) {
+    return 'image/avif';
+  }
+  return null;
+};
+
+/**
+ * File extension for an image format
+ */
+export const getImageExtension = (mimeType: ImageMimeType): string => MIME_EXTENSIONS[mimeType];
+
+const mimeTypeOf = (extension: string): ImageMimeType =>
+  (Object.keys(MIME_EXTENSIONS) as ImageMimeType[]).find(mimeType => MIME_EXTENSIONS[mimeType] === extension)
+  || 'image/png';
+
+/**
+ * Decode a base64 image (data URL or bare base64) and check its format by its magic bytes.
+ * The MIME type in a data URL prefix is not trusted.
+ * @returns null if the value is not valid base64 of a supported image format
+ */
+export const decodeBase64Image = (value: string): DecodedImage | null => {
+  const prefix = /^data:[^,]*,/.exec(value);
+  const base64 = (prefix ? value.slice(prefix[0].length) : value).replace(/\s/g, '');
+
+  if (!base64 || !BASE64_PATTERN.test(base64)) {
+    return null;
+  }
+
+  const buffer = Buffer.from(base64, 'base64');
+  const mimeType = sniffImageType(buffer);
+  return mimeType ? { buffer, mimeType } : null;
+};
+
+/**
+ * Data URL of an image with its sniffed MIME type
+ */
+export const toDataUrl = ({ buffer, mimeType }: DecodedImage): string =>
+  `data:${mimeType};base64,${buffer.toString('base64')}`;
+
+/**
+ * Prepare an image for a model request: photos larger than MODEL_IMAGE_MAX_DIMENSION
+ * are downscaled, and formats models don't accept are converted.
+ * Throws if the value is not a supported image.
+ * @returns Bare base64 data and its real MIME type
+ */
+export const prepareImageForModel = async (
+  image: string
+): Promise<{ data: string; mimeType: ImageMimeType }> => {
+  const decoded = decodeBase64Image(image);
+  if (!decoded) {
+    throw new Error('Invalid or unsupported image data');
+  }
+
+  const maxDimension = parseInt(process.env.MODEL_IMAGE_MAX_DIMENSION || '1536');
+  const { width = 0, height = 0, hasAlpha } = await sharp(decoded.buffer).metadata();
+
+  if (Math.max(width, height) <= maxDimension && MODEL_INPUT_TYPES.includes(decoded.mimeType)) {
+    return { data: decoded.buffer.toString('base64'), mimeType: decoded.mimeType };
+  }
+
+  // Apply EXIF orientation before resizing, since the metadata is dropped
+  const resized = sharp(decoded.buffer)
+    .rotate()
+    .resize({ width: maxDimension, height: maxDimension, fit: 'inside', withoutEnlargement: true });
+  const buffer = hasAlpha
+    ? await resized.png().toBuffer()
+    : await resized.jpeg({ quality: 90 }).toBuffer();
+
+  return { data: buffer.toString('base64'), mimeType: hasAlpha ? 'image/png' : 'image/jpeg' };
+};
+
+/**
+ * Extra formats configured by IMAGE_VARIANT_FORMATS
+ */
+export const getVariantFormats = (): VariantFormat[] =>
+  (process.env.IMAGE_VARIANT_FORMATS || '')
+    .split(',')
+    .map(format => format.trim().toLowerCase())
+    .filter((format): format is VariantFormat => VARIANT_FORMATS.includes(format as VariantFormat));
+
+/**
+ * Path of a rendition or format variant of a stored image,
+ * e.g. "images/a.png" → "images/a.thumbnail.png", "images/a.thumbnail.webp" or "images/a.webp"
+ */
+export const getRenditionPath = (
+  imagePath: string,
+  rendition: RenditionName | null,
+  format?: string
+): string => {
+  const dot = imagePath.lastIndexOf('.');
+  const base = dot > imagePath.lastIndexOf('/') ? imagePath.slice(0, dot) : imagePath;
+  const extension = dot > imagePath.lastIndexOf('/') ? imagePath.slice(dot + 1) : 'png';
+  return `${base}${rendition ? `.${rendition}` : ''}.${format || extension}`;
+};
+
+/**
+ * Check whether a stored path is a rendition of another image rather than an original
+ */
+export const isRenditionPath = (imagePath: string): boolean =>
+  Object.keys(RENDITION_SIZES).some(rendition => imagePath.includes(`.${rendition}.`));
+
+/**
+ * Pick the original images out of a list of stored paths, leaving out renditions and
+ * full-size format variants (which share their original's name, e.g. "a.webp" next to "a.png")
+ */
+export const getOriginalPaths = (imagePaths: string[]): string[] => {
+  const existing = new Set(imagePaths);
+  const isFormatVariant = (imagePath: string) =>
+    VARIANT_FORMATS.some(format => imagePath.endsWith(`.${format}`)) &&
+    Object.values(MIME_EXTENSIONS).some(extension => {
+      const original = getRenditionPath(imagePath, null, extension);
+      return original !== imagePath && existing.has(original);
+    });
+
+  return imagePaths.filter(imagePath => !isRenditionPath(imagePath) && !isFormatVariant(imagePath));
+};
+
+const encode = (image: Sharp, format: string): Promise<Buffer> => {
+  switch (format) {
+    case 'jpg':
+      return image.jpeg({ quality: 85 }).toBuffer();
+    case 'webp':
+      return image.webp({ quality: 80 }).toBuffer();
+    case 'avif':
+      return image.avif({ quality: 50 }).toBuffer();
+    case 'gif':
+      return image.gif().toBuffer();
+    default:
+      return image.png().toBuffer();
+  }
+};
+
+/**
+ * Renditions of an image: thumbnail and medium sizes (unless IMAGE_RENDITIONS is "false")
+ * in its own format and every variant format, plus full-size copies in the variant formats.
+ * Images smaller than a rendition size are not enlarged.
+ */
+export const createRenditions = async (image: DecodedImage): Promise<ImageRendition[]> => {
+  const extension = getImageExtension(image.mimeType);
+  const variantFormats = getVariantFormats().filter(format => format !== extension);
+  const sizes = process.env.IMAGE_RENDITIONS === 'false' ? [] : Object.entries(RENDITION_SIZES);
+  const renditions: ImageRendition[] = [];
+
+  for (const [rendition, size] of sizes as [RenditionName, number][]) {
+    const resized = sharp(image.buffer)
+      .rotate()
+      .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true });
+
+    for (const format of [extension, ...variantFormats]) {
+      renditions.push({ rendition, format, mimeType: mimeTypeOf(format), buffer: await encode(resized.clone(), format) });
+    }
+  }
+
+  for (const format of variantFormats) {
+    renditions.push({
+      rendition: null,
+      format,
+      mimeType: mimeTypeOf(format),
+      buffer: await encode(sharp(image.buffer).rotate(), format),
+    });
+  }
+
+  return renditions;
+};
@@ -1,109 +1,251 @@
-import fs from 'fs/promises';
-import path from 'path';
-import { fileURLToPath } from 'url';
-import { randomUUID } from 'crypto';
+import { createHash } from 'crypto';
+import { getStorage, isSafeStorageKey, readObject } from './storage.js';
+import {
+  addImageOwner,
+  deleteImageRecord,
+  findImageByHash,
+  getImageComicIds,
+  getImageRecord,
+  recordImage,
+  touchImage,
+} from './images.js';
+import { assertStorageQuota } from './storageQuota.js';
+import {
+  createRenditions,
+  decodeBase64Image,
+  getImageExtension,
+  getRenditionPath,
+  sniffImageType,
+  toDataUrl,
+  DecodedImage,
+  RenditionName,
+  RENDITION_SIZES,
+} from './imageProcessing.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+// Strip the "/uploads/" prefix of served URLs to get the storage key, refusing keys outside the storage root
+const toStorageKey = (imagePath: string): string => {
+  const key = imagePath.replace(/^\/?uploads\//, '').replace(/^\//, '');
+  if (!isSafeStorageKey(key)) {
+    throw new Error(`Invalid image path "${imagePath}"`);
+  }
+  return key;
+};
+
+/**
+ * Thrown when a request refers to a stored image the user may not use. Answered
+ * like a missing image, so other users' image paths cannot be probed.
+ */
+export class ImageAccessError extends Error {
+  readonly code = 'IMAGE_NOT_FOUND';
+  readonly status = 404;
 
-// Path to uploads folder (relative to backend root)
-const UPLOADS_DIR = path.join(__dirname, '../../uploads');
+  constructor(readonly imagePath: string) {
+    super(`Image not found: ${imagePath}`);
+    this.name = 'ImageAccessError';
+  }
+
+  // Response body for API clients
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+    };
+  }
+}
 
 /**
- * Ensure uploads directory exists
+ * Thrown when an image reference to save is neither image data, one of this
+ * server's uploads nor an absolute http(s) URL
  */
-export const ensureUploadsDir = async (): Promise<void> => {
+export class InvalidImageReferenceError extends Error {
+  readonly code = 'INVALID_IMAGE_REFERENCE';
+  readonly status = 400;
+
+  constructor(readonly value: string) {
+    super('Expected image data, an uploaded image path or an http(s) URL');
+    this.name = 'InvalidImageReferenceError';
+  }
+
+  // Response body for API clients
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+    };
+  }
+}
+
+// Check that a value is an absolute http(s) URL
+const isExternalImageUrl = (value: string): boolean => {
   try {
-    await fs.access(UPLOADS_DIR);
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
   } catch {
-    // Directory doesn't exist, create it
-    await fs.mkdir(UPLOADS_DIR, { recursive: true });
+    return false;
   }
 };
 
 /**
- * Convert base64 string to buffer
+ * Decode base64 image data, rejecting anything that is not a supported image
  */
-const base64ToBuffer = (base64String: string): Buffer => {
-  // Remove data URL prefix if present
-  const base64Data = base64String.includes(',') 
-    ? base64String.split(',')[1] 
-    : base64String;
-  
-  return Buffer.from(base64Data, 'base64');
+const decodeImageData = (imageData: string): DecodedImage => {
+  const decoded = decodeBase64Image(imageData);
+  if (!decoded) {
+    throw new Error('Invalid or unsupported image data');
+  }
+  return decoded;
 };
 
 /**
- * Detect MIME type from base64 string
+ * Store the renditions of an image next to it. Failures are logged, since
+ * the original is still usable without them.
  */
-const detectMimeType = (base64String: string): string => {
-  if (base64String.startsWith('data:image/jpeg') || base64String.startsWith('data:image/jpg')) {
-    return 'image/jpeg';
-  } else if (base64String.startsWith('data:image/png')) {
-    return 'image/png';
-  } else if (base64String.startsWith('data:image/webp')) {
-    return 'image/webp';
+const storeRenditions = async (imagePath: string, image: DecodedImage): Promise<void> => {
+  try {
+    for (const { rendition, format, mimeType, buffer } of await createRenditions(image)) {
+      await getStorage().upload(getRenditionPath(imagePath, rendition, format), buffer, mimeType);
+    }
+  } catch (error) {
+    console.error('Error creating image renditions:', { imagePath, error });
   }
-  return 'image/png'; // Default
 };
 
+export interface UploadedImage {
+  imagePath: string; // Relative path, e.g. "images/<hash>.png"
+  hash: string; // SHA-256 of the image content, hex
+  size: number; // Bytes
+  mimeType: string;
+  deduplicated: boolean; // true if identical content was already stored
+}
+
 /**
- * Get file extension from MIME type
+ * Upload an image to the configured storage, with its thumbnail and medium renditions,
+ * and record it in the images table. Images are stored by content hash, so identical
+ * bytes are written once and the owner is added to the existing file.
+ * The format is detected from the image data itself. Throws a StorageQuotaError
+ * if the image would take its owner past their storage quota.
+ * @param imageData - Base64 string (data URL or bare base64)
+ * @param ownerId - User the image belongs to (null when there is none, e.g. migrations)
  */
-const getExtensionFromMimeType = (mimeType: string): string => {
-  const mimeToExt: Record<string, string> = {
-    'image/jpeg': 'jpg',
-    'image/jpg': 'jpg',
-    'image/png': 'png',
-    'image/webp': 'webp',
-  };
-  return mimeToExt[mimeType] || 'png';
+export const uploadImageData = async (
+  imageData: string,
+  ownerId: string | number | null = null
+): Promise<UploadedImage> => {
+  const image = decodeImageData(imageData);
+  const hash = createHash('sha256').update(image.buffer).digest('hex');
+  const details = { size: image.buffer.length, mimeType: image.mimeType, hash };
+
+  // Identical content is stored already (unless its file went missing)
+  const existing = await findImageByHash(hash);
+  if (existing && (await getStorage().stat(existing.path))) {
+    if (ownerId !== null && !existing.ownerIds.includes(String(ownerId))) {
+      await assertStorageQuota(ownerId, image.buffer.length);
+      await addImageOwner(existing.id, ownerId);
+    }
+    // The client may save this path next, so the sweep must treat the file as new
+    await touchImage(existing.id);
+    return { imagePath: existing.path, ...details, deduplicated: true };
+  }
+
+  if (ownerId !== null) {
+    await assertStorageQuota(ownerId, image.buffer.length);
+  }
+
+  // Store in images subfolder; the relative path is the storage key
+  const imagePath = `images/${hash}.${getImageExtension(image.mimeType)}`;
+  await getStorage().upload(imagePath, image.buffer, image.mimeType);
+  await storeRenditions(imagePath, image);
+  await recordImage(imagePath, details, ownerId);
+
+  return { imagePath, ...details, deduplicated: false };
 };
 
 /**
- * Upload an image to the local uploads folder
- * @param imageData - Base64 string
- * @param fileName - Optional custom filename (without extension)
- * @returns Relative path to the uploaded image (e.g., "images/original-abc123-1234567890.png")
+ * Find an image the user already uploaded by its content hash, so clients can
+ * skip uploading it again. File names (and so URLs) reveal the hash, so knowing
+ * it is no proof of having the bytes: images of other users are not found, and
+ * their content has to be uploaded to be shared.
+ * @returns null if the user owns no stored image with that hash
+ */
+export const reuseImage = async (
+  hash: string,
+  ownerId: string | number
+): Promise<UploadedImage | null> => {
+  const existing = await findImageByHash(hash);
+  if (!existing || !existing.ownerIds.includes(String(ownerId)) || !(await getStorage().stat(existing.path))) {
+    return null;
+  }
+
+  const details = { size: existing.size ?? 0, mimeType: existing.mimeType ?? 'image/png', hash };
+  return { imagePath: existing.path, ...details, deduplicated: true };
+};
+
+/**
+ * Upload an image (see uploadImageData)
+ * @returns Relative path to the uploaded image (e.g., "images/3f2a….png")
  */
 export const uploadImage = async (
   imageData: string,
-  fileName?: string
-): Promise<string> => {
-  await ensureUploadsDir();
+  ownerId: string | number | null = null
+): Promise<string> => (await uploadImageData(imageData, ownerId)).imagePath;
 
-  // Generate unique filename if not provided
-  const uniqueId = randomUUID().split('-')[0];
-  const timestamp = Date.now();
-  const mimeType = detectMimeType(imageData);
-  const extension = getExtensionFromMimeType(mimeType);
-  
-  const finalFileName = fileName 
-    ? `${fileName}-${uniqueId}-${timestamp}.${extension}`
-    : `image-${uniqueId}-${timestamp}.${extension}`;
+/**
+ * Read a stored image back as a base64 data URL
+ * @param imagePath - Relative path (e.g., "images/filename.png")
+ * @returns Data URL (e.g., "data:image/png;base64,...")
+ */
+export const readImageAsBase64 = async (imagePath: string): Promise<string> => {
+  const relativePath = toStorageKey(imagePath);
+  const buffer = await readObject(getStorage(), relativePath);
+  if (!buffer) {
+    throw new Error(`Image not found: ${relativePath}`);
+  }
+
+  const mimeType = sniffImageType(buffer);
+  if (!mimeType) {
+    throw new Error(`Stored file is not a supported image: ${relativePath}`);
+  }
 
-  // Store in images subfolder
-  const imagesDir = path.join(UPLOADS_DIR, 'images');
-  await fs.mkdir(imagesDir, { recursive: true });
-  
-  const filePath = path.join(imagesDir, finalFileName);
-  const buffer = base64ToBuffer(imageData);
+  return toDataUrl({ buffer, mimeType });
+};
 
-  // Write file
-  await fs.writeFile(filePath, buffer);
+/**
+ * Create the renditions of an already stored image, e.g. one uploaded before they existed
+ * @returns false if the image does not exist or is not a supported image
+ */
+export const createImageRenditions = async (imagePath: string): Promise<boolean> => {
+  const buffer = await readObject(getStorage(), toStorageKey(imagePath));
+  const mimeType = buffer ? sniffImageType(buffer) : null;
+  if (!buffer || !mimeType) {
+    return false;
+  }
 
-  // Return relative path for URL (e.g., "images/filename.png")
-  return `images/${finalFileName}`;
+  await storeRenditions(toStorageKey(imagePath), { buffer, mimeType });
+  return true;
 };
 
 /**
- * Delete an image from the uploads folder
+ * Delete an image and its renditions from the configured storage, and its record.
+ * Callers check ownership and references first.
  * @param imagePath - Relative path (e.g., "images/filename.png")
  */
 export const deleteImage = async (imagePath: string): Promise<void> => {
+  const key = toStorageKey(imagePath);
+  const extension = key.slice(key.lastIndexOf('.') + 1);
+  const formats = [extension, 'webp', 'avif'];
+
+  // Renditions made with any configuration, including variant formats turned off since
+  const renditionKeys = [
+    ...(Object.keys(RENDITION_SIZES) as RenditionName[]).flatMap(rendition =>
+      formats.map(format => getRenditionPath(key, rendition, format))
+    ),
+    ...formats.filter(format => format !== extension).map(format => getRenditionPath(key, null, format)),
+  ];
+
   try {
-    const fullPath = path.join(UPLOADS_DIR, imagePath);
-    await fs.unlink(fullPath);
+    await getStorage().delete(key);
+    await Promise.all(renditionKeys.map(renditionKey => getStorage().delete(renditionKey)));
+    await deleteImageRecord(key);
   } catch (error) {
     console.error('Error deleting image:', error);
     // Don't throw - deletion is best effort
@@ -111,12 +253,26 @@ export const deleteImage = async (imagePath: string): Promise<void> => {
 };
 
 /**
- * Check if a string is a base64 image
+ * Full URLs of the thumbnail and medium renditions of a stored image.
+ * Inline and external images have no renditions, so their own URL is used.
  */
-export const isBase64Image = (str: string): boolean => {
-  return str.startsWith('data:image/') || (str.length > 100 && !str.startsWith('http'));
+export const getImageRenditionUrls = (imagePath: string): { thumbnailUrl: string; mediumUrl: string } => {
+  const storedPath = toStoredImagePath(imagePath);
+  if (!storedPath) {
+    return { thumbnailUrl: imagePath, mediumUrl: imagePath };
+  }
+  return {
+    thumbnailUrl: getImageUrl(getRenditionPath(storedPath, 'thumbnail')),
+    mediumUrl: getImageUrl(getRenditionPath(storedPath, 'medium')),
+  };
 };
 
+/**
+ * Check if a string is a base64 image: valid base64 (optionally as a data URL)
+ * whose content is a supported image format
+ */
+export const isBase64Image = (str: string): boolean => decodeBase64Image(str) !== null;
+
 /**
  * Check if a string is a URL/path
  */
@@ -125,38 +281,102 @@ export const isImagePath = (str: string): boolean => {
 };
 
 /**
- * Convert a relative image path to a full URL with backend domain
+ * Normalize a stored image path ("images/…" or "/uploads/images/…") to "images/…"
+ * @returns null if the value is not a path inside the uploads folder
+ */
+export const toStoredImagePath = (value: string): string | null => {
+  if (!value.startsWith('images/') && !value.startsWith('/uploads/images/')) {
+    return null;
+  }
+  const imagePath = value.replace(/^\/uploads\//, '');
+  return isSafeStorageKey(imagePath) ? imagePath : null;
+};
+
+/**
+ * Check if a value is a base64 image or an already uploaded image path
+ */
+export const isImageInput = (value: unknown): value is string =>
+  typeof value === 'string' && value !== '' && (
+    toStoredImagePath(value) !== null || (!value.startsWith('http') && isBase64Image(value))
+  );
+
+/**
+ * Check that a user may use a stored image: they uploaded it (or identical
+ * content), or one of their comics already uses it
+ */
+export const canUseImage = async (imagePath: string, userId: string | number): Promise<boolean> => {
+  const image = await getImageRecord(imagePath);
+  if (!image) {
+    return false;
+  }
+  return image.ownerIds.includes(String(userId)) || (await getImageComicIds(image.id, userId)).length > 0;
+};
+
+// Keep an existing stored path only if the owner may use it
+const checkImageAccess = async (imagePath: string, ownerId: string | number | null): Promise<string> => {
+  if (ownerId !== null && !(await canUseImage(imagePath, ownerId))) {
+    throw new ImageAccessError(imagePath);
+  }
+  return imagePath;
+};
+
+/**
+ * Store an image given as base64 (uploaded) or as an already uploaded path (kept as is).
+ * Throws if the value is neither, e.g. an external URL, and an ImageAccessError
+ * if the path is an image the owner may not use.
+ * @returns Relative path of the stored image
+ */
+export const storeImageInput = async (
+  value: unknown,
+  ownerId: string | number | null = null
+): Promise<string> => {
+  if (!isImageInput(value)) {
+    throw new Error('Expected a base64 image or an uploaded image path');
+  }
+  const storedPath = toStoredImagePath(value);
+  return storedPath ? checkImageAccess(storedPath, ownerId) : uploadImage(value, ownerId);
+};
+
+/**
+ * Prepare an image reference for saving in the database: inline base64 data is
+ * uploaded, URLs of this server's uploads become stored paths, and external
+ * http(s) URLs are kept as is. Throws an ImageAccessError for stored images the
+ * owner may not use, and an InvalidImageReferenceError for anything else
+ * (e.g. "//host/x.png" or a path outside the uploads folder).
+ * @returns Relative path of the stored image, or the external URL
+ */
+export const persistImageReference = async (
+  value: string,
+  ownerId: string | number | null = null
+): Promise<string> => {
+  if (value.startsWith('data:image/') || (!isImagePath(value) && isBase64Image(value))) {
+    return uploadImage(value, ownerId);
+  }
+
+  const key = getStorage().keyFromUrl(value);
+  const storedPath = key ? toStoredImagePath(key) : toStoredImagePath(value);
+  if (storedPath) {
+    return checkImageAccess(storedPath, ownerId);
+  }
+  if (!isExternalImageUrl(value)) {
+    throw new InvalidImageReferenceError(value);
+  }
+  return value;
+};
+
+/**
+ * Convert a stored image path to a full URL served by the configured storage
  * @param imagePath - Relative path (e.g., "images/filename.png" or "/uploads/images/filename.png")
- * @returns Full URL (e.g., "https://api.mycomic.online/uploads/images/filename.png")
+ * @returns Full URL (e.g., "https://api.example.com/uploads/images/filename.png", or a signed bucket URL)
  */
 export const getImageUrl = (imagePath: string): string => {
   // If it's already a full URL, return as is
   if (imagePath.startsWith('http')) {
     return imagePath;
   }
-  
-  // Get backend URL from environment variable
-  const backendUrl = process.env.BACKEND_URL || process.env.API_URL || 'https://api.mycomic.online';
-  
-  // Remove trailing slash from backend URL
-  const baseUrl = backendUrl.replace(/\/$/, '');
-  
-  // If path starts with /uploads, use it directly
-  if (imagePath.startsWith('/uploads/')) {
-    return `${baseUrl}${imagePath}`;
-  }
-  
-  // If path starts with /uploads (without trailing), add it
-  if (imagePath.startsWith('/uploads')) {
-    return `${baseUrl}${imagePath}`;
-  }
-  
-  // If path is just "images/...", add /uploads prefix
-  if (imagePath.startsWith('images/')) {
-    return `${baseUrl}/uploads/${imagePath}`;
-  }
-  
-  // Default: assume it's a relative path that needs /uploads prefix
-  return `${baseUrl}/uploads/${imagePath}`;
-};
 
+  // Values that are not storage keys (e.g. rows saved before references were
+  // validated) are returned unchanged rather than failing the whole response
+  const key = imagePath.replace(/^\/?uploads\//, '').replace(/^\//, '');
+  return isSafeStorageKey(key) ? getStorage().getUrl(key) : imagePath;
+};
@@ -0,0 +1,190 @@
+/**
+ * Image Records
+ *
+ * Every stored image file has a row in the `images` table with its size,
+ * MIME type and content hash. Files are stored once per content hash:
+ * `image_owners` lists every user who uploaded the same bytes, and
+ * `comic_images` lists the comics that use each image (as reference photo,
+ * current panel or panel revision). Deleting an image only drops the caller's
+ * ownership while other users still own it; unused files are removed by the
+ * cleanup sweep.
+ */
+
+import type { Connection } from 'mysql2/promise';
+import pool from '../config/database.js';
+
+export interface ImageRecord {
+  id: string;
+  path: string; // Stored path, e.g. "images/3f2a….png"
+  size: number | null; // Bytes
+  mimeType: string | null;
+  hash: string | null; // SHA-256 of the file content, hex
+  ownerIds: string[]; // Users who uploaded the image
+  createdAt: number;
+}
+
+export interface ImageDetails {
+  size: number;
+  mimeType: string;
+  hash: string;
+}
+
+const mapImageRow = (row: any, ownerIds: string[]): ImageRecord => ({
+  id: row.id.toString(),
+  path: row.path,
+  size: row.size,
+  mimeType: row.mime_type,
+  hash: row.hash,
+  ownerIds,
+  createdAt: new Date(row.created_at).getTime(),
+});
+
+const withOwners = async (row: any, db: Connection): Promise<ImageRecord> => {
+  const [owners] = await db.execute(
+    'SELECT user_id FROM image_owners WHERE image_id = ? ORDER BY created_at',
+    [row.id]
+  ) as any[];
+  return mapImageRow(row, owners.map((owner: any) => owner.user_id.toString()));
+};
+
+/**
+ * Add a user to the owners of an image (no-op if they already own it)
+ */
+export const addImageOwner = async (
+  imageId: string | number,
+  userId: string | number,
+  db: Connection = pool
+): Promise<void> => {
+  await db.execute('INSERT IGNORE INTO image_owners (image_id, user_id) VALUES (?, ?)', [imageId, userId]);
+};
+
+/**
+ * Note that an image's content was uploaded again, which the cleanup sweep
+ * counts like a new file
+ */
+export const touchImage = async (imageId: string | number, db: Connection = pool): Promise<void> => {
+  await db.execute('UPDATE images SET last_uploaded_at = CURRENT_TIMESTAMP WHERE id = ?', [imageId]);
+};
+
+/**
+ * Remove a user from the owners of an image
+ */
+export const removeImageOwner = async (
+  imageId: string | number,
+  userId: string | number,
+  db: Connection = pool
+): Promise<void> => {
+  await db.execute('DELETE FROM image_owners WHERE image_id = ? AND user_id = ?', [imageId, userId]);
+};
+
+/**
+ * Record a stored image and its owner. Re-recording a path updates its details.
+ */
+export const recordImage = async (
+  imagePath: string,
+  details: ImageDetails,
+  userId: string | number | null,
+  db: Connection = pool
+): Promise<void> => {
+  await db.execute(
+    `INSERT INTO images (user_id, path, size, mime_type, hash)
+     VALUES (?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       user_id = COALESCE(user_id, VALUES(user_id)),
+       size = VALUES(size),
+       mime_type = VALUES(mime_type),
+       hash = VALUES(hash)`,
+    [userId, imagePath, details.size, details.mimeType, details.hash]
+  );
+
+  if (userId !== null) {
+    await db.execute(
+      `INSERT IGNORE INTO image_owners (image_id, user_id)
+       SELECT id, ? FROM images WHERE path = ?`,
+      [userId, imagePath]
+    );
+  }
+};
+
+/**
+ * Get the record of a stored image with its owners
+ */
+export const getImageRecord = async (
+  imagePath: string,
+  db: Connection = pool
+): Promise<ImageRecord | null> => {
+  const [rows] = await db.execute('SELECT * FROM images WHERE path = ?', [imagePath]) as any[];
+  return rows.length > 0 ? withOwners(rows[0], db) : null;
+};
+
+/**
+ * Find a stored image by the SHA-256 hash of its content.
+ * Older files may share a hash; the first one stored is returned.
+ */
+export const findImageByHash = async (
+  hash: string,
+  db: Connection = pool
+): Promise<ImageRecord | null> => {
+  const [rows] = await db.execute(
+    'SELECT * FROM images WHERE hash = ? ORDER BY id LIMIT 1',
+    [hash]
+  ) as any[];
+  return rows.length > 0 ? withOwners(rows[0], db) : null;
+};
+
+/**
+ * Ids of the comics that use an image, optionally only those of one user
+ */
+export const getImageComicIds = async (
+  imageId: string | number,
+  userId: string | number | null = null,
+  db: Connection = pool
+): Promise<string[]> => {
+  const [rows] = await db.execute(
+    `SELECT ci.comic_id FROM comic_images ci
+     JOIN comics c ON c.id = ci.comic_id
+     WHERE ci.image_id = ?${userId !== null ? ' AND c.user_id = ?' : ''}
+     ORDER BY ci.comic_id`,
+    userId !== null ? [imageId, userId] : [imageId]
+  ) as any[];
+  return rows.map((row: any) => row.comic_id.toString());
+};
+
+/**
+ * Remove the record of a deleted image (its owners and comic references go with it)
+ */
+export const deleteImageRecord = async (imagePath: string, db: Connection = pool): Promise<void> => {
+  await db.execute('DELETE FROM images WHERE path = ?', [imagePath]);
+};
+
+/**
+ * Rebuild the list of images a comic uses from its reference photo, current
+ * panels and panel revisions. Run in the same transaction as the change.
+ */
+export const syncComicImages = async (comicId: string | number, db: Connection = pool): Promise<void> => {
+  const [sources] = await db.execute(
+    `SELECT original_image AS image_path FROM comics WHERE id = ?
+     UNION SELECT image_url FROM panel_revisions WHERE comic_id = ?`,
+    [comicId, comicId]
+  ) as any[];
+  const [pages] = await db.execute('SELECT panels FROM comic_pages WHERE comic_id = ?', [comicId]) as any[];
+
+  const imagePaths = new Set<string>(sources.map((row: any) => row.image_path));
+  for (const page of pages) {
+    const panels = typeof page.panels === 'string' ? JSON.parse(page.panels) : page.panels;
+    for (const panel of Object.values<any>(panels || {})) {
+      imagePaths.add(panel?.imageUrl);
+    }
+  }
+  // Inline and external images have no file to track
+  const storedPaths = [...imagePaths].filter(imagePath => typeof imagePath === 'string' && imagePath.startsWith('images/'));
+
+  await db.execute('DELETE FROM comic_images WHERE comic_id = ?', [comicId]);
+  if (storedPaths.length > 0) {
+    await db.execute(
+      `INSERT INTO comic_images (comic_id, image_id)
+       SELECT ?, id FROM images WHERE path IN (${storedPaths.map(() => '?').join(', ')})`,
+      [comicId, ...storedPaths]
+    );
+  }
+};
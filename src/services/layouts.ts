@@ -0,0 +1,199 @@
+/**
+ * Comic Page Layouts
+ *
+ * Named page templates that decide how many panels a comic has, how they are
+ * arranged on the page, and the aspect ratio of each panel. A template drives
+ * both the story-beat prompt for script generation and the per-panel layout
+ * instructions for image generation.
+ *
+ * Panels are always keyed `box1`…`boxN`, so comics stored before layouts
+ * existed load as the default `classic-5` template.
+ */
+
+export type PanelAspectRatio = '4:3' | '16:9' | '1:1' | '3:4';
+
+export interface PanelSlot {
+  row: number; // 1-based row on the page
+  aspectRatio: PanelAspectRatio;
+  layout: string; // Placement description used in the image prompt
+  beat?: string; // Extra storytelling guidance for this slot
+}
+
+export interface LayoutTemplate {
+  name: string;
+  description: string;
+  panels: PanelSlot[];
+}
+
+export const DEFAULT_LAYOUT = 'classic-5';
+
+export const SUPPORTED_PANEL_COUNTS = [3, 4, 5, 6, 8, 12];
+
+/**
+ * Build an evenly sized grid of `rows` × `columns` panels
+ */
+const grid = (rows: number, columns: number, aspectRatio: PanelAspectRatio): PanelSlot[] =>
+  Array.from({ length: rows * columns }, (_, i) => {
+    const row = Math.floor(i / columns) + 1;
+    return {
+      row,
+      aspectRatio,
+      layout: `one of ${columns} equal panels side by side in row ${row} of ${rows}`,
+    };
+  });
+
+export const LAYOUT_TEMPLATES: Record<string, LayoutTemplate> = {
+  'classic-5': {
+    name: 'classic-5',
+    description: 'Two rows of two side-by-side panels with a full-width panel at the bottom',
+    panels: [
+      { row: 1, aspectRatio: '4:3', layout: 'side-by-side panel in the top or middle row' },
+      { row: 1, aspectRatio: '4:3', layout: 'side-by-side panel in the top or middle row' },
+      { row: 2, aspectRatio: '4:3', layout: 'side-by-side panel in the top or middle row' },
+      { row: 2, aspectRatio: '4:3', layout: 'side-by-side panel in the top or middle row' },
+      { row: 3, aspectRatio: '4:3', layout: 'full-width panel at the bottom of the page' },
+    ],
+  },
+  '3-row': {
+    name: '3-row',
+    description: 'Three full-width panels stacked on top of each other',
+    panels: [1, 2, 3].map(row => ({
+      row,
+      aspectRatio: '16:9' as PanelAspectRatio,
+      layout: `full-width panel in row ${row} of 3`,
+    })),
+  },
+  '2x2': {
+    name: '2x2',
+    description: 'Four equal panels in two rows of two',
+    panels: grid(2, 2, '4:3'),
+  },
+  'splash-plus-strip': {
+    name: 'splash-plus-strip',
+    description: 'One large splash panel on top with a strip of three small panels below',
+    panels: [
+      {
+        row: 1,
+        aspectRatio: '4:3',
+        layout: 'large splash panel filling the top of the page',
+        beat: 'Make this a dramatic, detailed establishing shot.',
+      },
+      { row: 2, aspectRatio: '1:1', layout: 'one of 3 small square panels in the bottom strip' },
+      { row: 2, aspectRatio: '1:1', layout: 'one of 3 small square panels in the bottom strip' },
+      { row: 2, aspectRatio: '1:1', layout: 'one of 3 small square panels in the bottom strip' },
+    ],
+  },
+  'grid-6': {
+    name: 'grid-6',
+    description: 'Six equal panels in three rows of two',
+    panels: grid(3, 2, '4:3'),
+  },
+  'grid-8': {
+    name: 'grid-8',
+    description: 'Eight equal panels in four rows of two',
+    panels: grid(4, 2, '4:3'),
+  },
+  'grid-12': {
+    name: 'grid-12',
+    description: 'Twelve small square panels in four rows of three',
+    panels: grid(4, 3, '1:1'),
+  },
+};
+
+// Template used when only a panel count is requested
+const DEFAULT_LAYOUT_FOR_COUNT: Record<number, string> = {
+  3: '3-row',
+  4: '2x2',
+  5: 'classic-5',
+  6: 'grid-6',
+  8: 'grid-8',
+  12: 'grid-12',
+};
+
+/**
+ * Check that a name is one of the layout templates (and not an inherited
+ * property such as "constructor")
+ */
+export const isLayoutName = (name: unknown): name is string =>
+  typeof name === 'string' && Object.hasOwn(LAYOUT_TEMPLATES, name);
+
+/**
+ * Pick a layout by name, or the default template for a panel count.
+ * Throws if the name or count is not supported.
+ */
+export const resolveLayout = (layoutName?: string | null, panelCount?: number | null): LayoutTemplate => {
+  if (layoutName) {
+    if (!isLayoutName(layoutName)) {
+      throw new Error(`Unknown layout "${layoutName}". Available layouts: ${Object.keys(LAYOUT_TEMPLATES).join(', ')}`);
+    }
+    const layout = LAYOUT_TEMPLATES[layoutName];
+    if (panelCount && layout.panels.length !== panelCount) {
+      throw new Error(`Layout "${layoutName}" has ${layout.panels.length} panels, not ${panelCount}`);
+    }
+    return layout;
+  }
+
+  if (panelCount) {
+    if (!Object.hasOwn(DEFAULT_LAYOUT_FOR_COUNT, panelCount)) {
+      throw new Error(`Unsupported panel count ${panelCount}. Supported counts: ${SUPPORTED_PANEL_COUNTS.join(', ')}`);
+    }
+    return LAYOUT_TEMPLATES[DEFAULT_LAYOUT_FOR_COUNT[panelCount]];
+  }
+
+  return LAYOUT_TEMPLATES[DEFAULT_LAYOUT];
+};
+
+/**
+ * Look up a stored layout name, falling back to the default for legacy rows
+ */
+export const getLayout = (layoutName?: string | null): LayoutTemplate =>
+  LAYOUT_TEMPLATES[isLayoutName(layoutName) ? layoutName : DEFAULT_LAYOUT];
+
+/**
+ * Panel keys for a layout (box1…boxN)
+ */
+export const getPanelKeys = (layout: LayoutTemplate): string[] =>
+  layout.panels.map((_, i) => `box${i + 1}`);
+
+/**
+ * Sort panel keys numerically (box2 before box10)
+ */
+export const sortPanelKeys = (keys: string[]): string[] =>
+  [...keys].sort((a, b) => parseInt(a.replace(/\D/g, '')) - parseInt(b.replace(/\D/g, '')));
+
+/**
+ * Story role of each panel: opening first, climax second to last, resolution last.
+ * Pages before the last page of a multi-page story end on a hook instead of a resolution.
+ */
+export const getStoryBeats = (panelCount: number, finalPage: boolean = true): string[] =>
+  Array.from({ length: panelCount }, (_, i) => {
+    if (i === 0) {
+      return 'Opening scene - Introduce the character and setting. Start the adventure.';
+    }
+    if (i === panelCount - 1) {
+      return finalPage
+        ? 'Resolution - A satisfying conclusion that wraps up the story nicely.'
+        : 'Page ending - A cliffhanger or transition that leads into the next page.';
+    }
+    if (i === panelCount - 2) {
+      return 'Climax - The most exciting moment or turning point.';
+    }
+    if (i === 1) {
+      return 'Rising action - Something interesting happens or a challenge appears.';
+    }
+    return 'Development - The character faces the challenge or explores further.';
+  });
+
+/**
+ * Describe an aspect ratio for prompts, e.g. "4:3 landscape format (wider than tall)"
+ */
+export const describeAspectRatio = (aspectRatio: PanelAspectRatio): string => {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  if (width > height) {
+    return `${aspectRatio} landscape format (wider than tall)`;
+  }
+  if (width < height) {
+    return `${aspectRatio} portrait format (taller than wide)`;
+  }
+  return `${aspectRatio} square format`;
+};
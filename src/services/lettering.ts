@@ -0,0 +1,355 @@
+/**
+ * Lettering
+ *
+ * Letters a panel on the server: the panel's narration goes in a caption box
+ * and each dialogue line in a speech or thought bubble whose tail points at
+ * the speaker. Text is set in the bundled comic font, wrapped to the width of
+ * its box and shrunk until everything fits in the upper part of the panel.
+ * Panel images are generated without text and stored that way, so lettering
+ * can change without rendering the art again.
+ *
+ * Configuration:
+ * - LETTERING_FONT_FILE: font file to letter with (default the bundled assets/fonts/ComicNeue-Bold.ttf)
+ * - LETTERING_FONT_FAMILY: family and style of that font (default "Comic Neue Bold")
+ */
+
+import { fileURLToPath } from 'url';
+import sharp, { type OverlayOptions } from 'sharp';
+import type { ComicPanel, DialogueLine, SpeakerPosition } from './generationProvider.js';
+
+export type LetteringType = 'caption' | 'speech' | 'thought';
+
+export const LETTERING_TYPES: LetteringType[] = ['caption', 'speech', 'thought'];
+
+export interface LetteringPoint {
+  x: number; // 0–1 from the left edge
+  y: number; // 0–1 from the top edge
+}
+
+export interface LetteringElement {
+  type: LetteringType;
+  text: string;
+  position?: LetteringPoint; // Center of the box or bubble; stacked from the top if omitted
+  tail?: LetteringPoint; // Speech and thought bubbles: the point the tail is aimed at
+}
+
+interface PlacedElement {
+  element: LetteringElement;
+  text: { buffer: Buffer; width: number; height: number };
+  left: number; // Bounding box of the caption or bubble body, pixels
+  top: number;
+  width: number;
+  height: number;
+}
+
+const BUNDLED_FONT = fileURLToPath(new URL('../../assets/fonts/ComicNeue-Bold.ttf', import.meta.url));
+
+const INK = '#111111';
+const BUBBLE_FILL = '#ffffff';
+const CAPTION_FILL = '#fff8dc';
+
+// Share of the panel height lettering may cover when stacked automatically
+const MAX_LETTERING_HEIGHT = 0.6;
+
+const SPEAKER_X: Record<SpeakerPosition, number> = { Left: 0.25, Center: 0.5, Right: 0.75 };
+
+// Where speakers' heads roughly are when the script gives no exact point
+const DEFAULT_TAIL_Y = 0.55;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), Math.max(min, max));
+
+const isPoint = (value: any): value is LetteringPoint =>
+  value !== null && typeof value === 'object' &&
+  [value.x, value.y].every(n => typeof n === 'number' && n >= 0 && n <= 1);
+
+const escapeMarkup = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Clean up dialogue from a model or a client: lines need a speaker and text,
+ * unknown styles and positions are dropped, tails must be inside the panel
+ */
+export const normalizeDialogue = (value: unknown): DialogueLine[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter(line => line && typeof line.text === 'string' && line.text.trim())
+    .map(line => ({
+      speaker: typeof line.speaker === 'string' ? line.speaker.trim() : '',
+      text: line.text.trim(),
+      ...(line.style === 'thought' ? { style: 'thought' as const } : {}),
+      ...(line.position in SPEAKER_X ? { position: line.position as SpeakerPosition } : {}),
+      ...(isPoint(line.tail) ? { tail: { x: line.tail.x, y: line.tail.y } } : {}),
+    }));
+};
+
+/**
+ * Check and normalize lettering elements from a request.
+ * Throws with a message for the client if an element is invalid.
+ */
+export const parseLetteringElements = (value: unknown): LetteringElement[] => {
+  if (!Array.isArray(value)) {
+    throw new Error('elements must be an array');
+  }
+
+  return value.map((element, i) => {
+    if (!element || !LETTERING_TYPES.includes(element.type)) {
+      throw new Error(`elements[${i}].type must be one of: ${LETTERING_TYPES.join(', ')}`);
+    }
+    if (typeof element.text !== 'string' || !element.text.trim()) {
+      throw new Error(`elements[${i}].text is required`);
+    }
+    for (const field of ['position', 'tail'] as const) {
+      if (element[field] !== undefined && !isPoint(element[field])) {
+        throw new Error(`elements[${i}].${field} must be { x, y } between 0 and 1`);
+      }
+    }
+    return {
+      type: element.type,
+      text: element.text.trim(),
+      ...(element.position ? { position: element.position } : {}),
+      ...(element.tail ? { tail: element.tail } : {}),
+    };
+  });
+};
+
+/**
+ * Lettering of a panel: its narration as a caption, then its dialogue as bubbles.
+ * Speakers without a position or tail alternate between the left and right of the panel.
+ */
+export const getPanelLettering = (panel: Pick<ComicPanel, 'narration' | 'dialogue'>): LetteringElement[] => {
+  const elements: LetteringElement[] = [];
+  if (panel.narration?.trim()) {
+    elements.push({ type: 'caption', text: panel.narration.trim() });
+  }
+
+  const speakers: string[] = [];
+  for (const line of normalizeDialogue(panel.dialogue)) {
+    if (!speakers.includes(line.speaker)) {
+      speakers.push(line.speaker);
+    }
+    const order = speakers.indexOf(line.speaker);
+    const x = line.position ? SPEAKER_X[line.position] : [0.3, 0.7, 0.5][order % 3];
+
+    elements.push({
+      type: line.style === 'thought' ? 'thought' : 'speech',
+      text: line.text,
+      tail: line.tail || { x, y: DEFAULT_TAIL_Y },
+    });
+  }
+
+  return elements;
+};
+
+const renderText = async (
+  text: string,
+  maxWidth: number,
+  fontSize: number,
+  align: 'left' | 'centre'
+): Promise<PlacedElement['text']> => {
+  const { data, info } = await sharp({
+    text: {
+      text: `<span foreground="${INK}">${escapeMarkup(text)}</span>`,
+      font: `${process.env.LETTERING_FONT_FAMILY || 'Comic Neue Bold'} ${fontSize}`,
+      fontfile: process.env.LETTERING_FONT_FILE || BUNDLED_FONT,
+      width: Math.max(1, Math.round(maxWidth)),
+      align,
+      wrap: 'word-char',
+      rgba: true,
+    },
+  })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+  return { buffer: data, width: info.width, height: info.height };
+};
+
+/**
+ * Size and place every element at one font size.
+ * @returns the placed elements and whether the stacked ones fit the lettering area
+ */
+const layoutElements = async (
+  elements: LetteringElement[],
+  width: number,
+  height: number,
+  fontSize: number
+): Promise<{ placed: PlacedElement[]; fits: boolean }> => {
+  const padding = Math.round(fontSize * 0.5);
+  const margin = Math.round(Math.min(width, height) * 0.03);
+  const gap = Math.round(fontSize * 0.4);
+  const placed: PlacedElement[] = [];
+  let nextTop = margin;
+
+  for (const element of elements) {
+    const isCaption = element.type === 'caption';
+    const text = await renderText(
+      element.text,
+      (isCaption ? width * 0.9 : width * 0.42) - padding * 2,
+      fontSize,
+      isCaption ? 'left' : 'centre'
+    );
+
+    // A bubble's ellipse is big enough to hold the text block's corners
+    const boxWidth = isCaption ? text.width + padding * 2 : Math.round(text.width * Math.SQRT2 + padding * 1.5);
+    const boxHeight = isCaption ? text.height + padding * 2 : Math.round(text.height * Math.SQRT2 + padding * 1.5);
+
+    // Cloud bumps stick out of a thought bubble's ellipse by about half a letter
+    const bumps = element.type === 'thought' ? Math.round(fontSize * 0.7) : 0;
+
+    let left: number;
+    let top: number;
+    if (element.position) {
+      left = element.position.x * width - boxWidth / 2;
+      top = element.position.y * height - boxHeight / 2;
+    } else {
+      const centerX = isCaption ? margin + boxWidth / 2 : (element.tail?.x ?? 0.5) * width;
+      left = centerX - boxWidth / 2;
+      top = nextTop + bumps;
+      nextTop += boxHeight + bumps * 2 + gap;
+    }
+
+    const edge = margin + bumps;
+    placed.push({
+      element,
+      text,
+      left: Math.round(clamp(left, edge, width - boxWidth - edge)),
+      top: Math.round(clamp(top, edge, height - boxHeight - edge)),
+      width: boxWidth,
+      height: boxHeight,
+    });
+  }
+
+  const fits = nextTop - gap <= height * MAX_LETTERING_HEIGHT && placed.every(p => p.width <= width - margin * 2);
+  return { placed, fits };
+};
+
+/**
+ * SVG shapes of a bubble body and tail. They are drawn once thick in ink and
+ * once filled on top, so body and tail merge into one outline.
+ */
+const bubbleShapes = (placed: PlacedElement, width: number, height: number, fontSize: number): string[] => {
+  const { element, left, top, width: boxWidth, height: boxHeight } = placed;
+
+  const cx = left + boxWidth / 2;
+  const cy = top + boxHeight / 2;
+  const rx = boxWidth / 2;
+  const ry = boxHeight / 2;
+  const shapes: string[] = [`<ellipse cx="${cx}" cy="${cy}" rx="${rx}" ry="${ry}"/>`];
+
+  if (element.type === 'thought') {
+    // Scalloped cloud edge
+    const bumps = Math.max(8, Math.round((Math.PI * (rx + ry)) / (fontSize * 1.6)));
+    const bumpRadius = (Math.PI * (rx + ry)) / bumps / 1.6;
+    for (let i = 0; i < bumps; i++) {
+      const angle = (i / bumps) * Math.PI * 2;
+      shapes.push(`<circle cx="${cx + (rx - bumpRadius * 0.4) * Math.cos(angle)}" cy="${cy + (ry - bumpRadius * 0.4) * Math.sin(angle)}" r="${bumpRadius}"/>`);
+    }
+  }
+
+  const tail = element.tail;
+  const targetX = tail ? tail.x * width : cx;
+  const targetY = tail ? tail.y * height : cy;
+  const dx = (targetX - cx) / rx;
+  const dy = (targetY - cy) / ry;
+
+  // No tail when the point is inside the bubble
+  if (tail && Math.hypot(dx, dy) > 1.05) {
+    const angle = Math.atan2(dy, dx);
+    const baseX = cx + rx * Math.cos(angle);
+    const baseY = cy + ry * Math.sin(angle);
+    const distance = Math.hypot(targetX - baseX, targetY - baseY);
+    // Tails point at the speaker without having to reach them
+    const length = Math.min(distance, Math.min(width, height) * 0.12 + fontSize);
+    const tipX = baseX + ((targetX - baseX) * length) / distance;
+    const tipY = baseY + ((targetY - baseY) * length) / distance;
+
+    if (element.type === 'speech') {
+      // Base inside the body, as wide as about one letter
+      const rootX = cx + (baseX - cx) * 0.8;
+      const rootY = cy + (baseY - cy) * 0.8;
+      const along = Math.hypot(tipX - rootX, tipY - rootY) || 1;
+      const normalX = (-(tipY - rootY) / along) * fontSize * 0.55;
+      const normalY = ((tipX - rootX) / along) * fontSize * 0.55;
+      shapes.push(`<path d="M ${rootX + normalX} ${rootY + normalY} L ${tipX} ${tipY} L ${rootX - normalX} ${rootY - normalY} Z"/>`);
+    } else {
+      // Trail of shrinking thought circles
+      [0.3, 0.62, 0.9].forEach((t, i) => {
+        const radius = fontSize * [0.45, 0.32, 0.2][i];
+        shapes.push(`<circle cx="${baseX + (tipX - baseX) * t}" cy="${baseY + (tipY - baseY) * t}" r="${radius}"/>`);
+      });
+    }
+  }
+
+  return shapes;
+};
+
+/**
+ * SVG of all captions and bubbles. Every bubble outline is drawn before any fill,
+ * so a tail that crosses another bubble passes behind it.
+ */
+const letteringSvg = (placed: PlacedElement[], width: number, height: number, fontSize: number): string => {
+  const stroke = Math.max(1.5, width / 300);
+  const bubbles = placed
+    .filter(({ element }) => element.type !== 'caption')
+    .map(bubble => bubbleShapes(bubble, width, height, fontSize).join(''));
+  const captions = placed
+    .filter(({ element }) => element.type === 'caption')
+    .map(({ left, top, width: boxWidth, height: boxHeight }) =>
+      `<rect x="${left}" y="${top}" width="${boxWidth}" height="${boxHeight}" fill="${CAPTION_FILL}" stroke="${INK}" stroke-width="${stroke}"/>`);
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+    <g stroke="${INK}" stroke-width="${stroke * 2}" fill="${INK}">${bubbles.join('')}</g>
+    <g fill="${BUBBLE_FILL}">${bubbles.join('')}</g>
+    ${captions.join('')}
+  </svg>`;
+};
+
+/**
+ * Letter a panel image with captions and speech/thought bubbles.
+ * The font size starts at 1/20 of the panel width and shrinks until the stacked
+ * elements fit in the top 60% of the panel.
+ * @returns PNG of the same size as the image
+ */
+export const letterPanel = async (image: Buffer, elements: LetteringElement[]): Promise<Buffer> => {
+  const { width = 0, height = 0 } = await sharp(image).metadata();
+  if (elements.length === 0 || !width || !height) {
+    return sharp(image).png().toBuffer();
+  }
+
+  const maxFontSize = Math.max(10, Math.round(width / 20));
+  const minFontSize = Math.max(8, Math.round(width / 60));
+  let fontSize = maxFontSize;
+  let layout = await layoutElements(elements, width, height, fontSize);
+  while (!layout.fits && fontSize > minFontSize) {
+    fontSize = Math.max(minFontSize, Math.floor(fontSize * 0.88));
+    layout = await layoutElements(elements, width, height, fontSize);
+  }
+
+  const overlays: OverlayOptions[] = [
+    { input: Buffer.from(letteringSvg(layout.placed, width, height, fontSize)), left: 0, top: 0 },
+  ];
+  for (const { text, left, top, width: boxWidth, height: boxHeight } of layout.placed) {
+    const textLeft = Math.round(left + (boxWidth - text.width) / 2);
+    const textTop = Math.round(top + (boxHeight - text.height) / 2);
+
+    // Text that still doesn't fit the panel at the smallest size is cut off at its edges
+    const visibleLeft = Math.max(0, textLeft);
+    const visibleTop = Math.max(0, textTop);
+    const visibleWidth = Math.min(text.width - (visibleLeft - textLeft), width - visibleLeft);
+    const visibleHeight = Math.min(text.height - (visibleTop - textTop), height - visibleTop);
+    if (visibleWidth <= 0 || visibleHeight <= 0) {
+      continue;
+    }
+
+    overlays.push({
+      input: await sharp(text.buffer)
+        .extract({ left: visibleLeft - textLeft, top: visibleTop - textTop, width: visibleWidth, height: visibleHeight })
+        .toBuffer(),
+      left: visibleLeft,
+      top: visibleTop,
+    });
+  }
+
+  return sharp(image).composite(overlays).png().toBuffer();
+};
@@ -0,0 +1,130 @@
+/**
+ * Local Storage Driver
+ *
+ * Keeps objects as files under the uploads folder (UPLOADS_DIR, default
+ * `uploads/` in the backend root), served by Express at `/uploads/*`.
+ * Only suitable for a single server instance with a persistent disk.
+ */
+
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { StorageDriver, StoredObject } from './storage.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Path to uploads folder (relative to backend root unless UPLOADS_DIR is set)
+ */
+export const getLocalUploadsDir = (): string =>
+  process.env.UPLOADS_DIR
+    ? path.resolve(process.env.UPLOADS_DIR)
+    : path.join(__dirname, '../../uploads');
+
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.avif': 'image/avif',
+};
+
+/**
+ * Base URL of this server, for links to the files it serves
+ */
+const getServerUrl = (): string =>
+  (process.env.BACKEND_URL || process.env.API_URL || `http://localhost:${process.env.PORT || 3001}`)
+    .replace(/\/$/, '');
+
+const isNotFound = (error: any) => error?.code === 'ENOENT';
+
+export const createLocalStorageDriver = (root: string = getLocalUploadsDir()): StorageDriver => {
+  // Resolve a key to a file path, refusing keys that escape the uploads folder
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return filePath;
+  };
+
+  const stat = async (key: string): Promise<StoredObject | null> => {
+    try {
+      const stats = await fs.stat(resolveKey(key));
+      if (!stats.isFile()) {
+        return null;
+      }
+      return {
+        key,
+        size: stats.size,
+        contentType: EXTENSION_CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream',
+        lastModified: stats.mtime,
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  const getUrl = (key: string): string => `${getServerUrl()}/uploads/${key}`;
+
+  return {
+    name: 'local',
+
+    upload: async (key, data) => {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+
+    delete: async (key) => {
+      try {
+        await fs.unlink(resolveKey(key));
+      } catch (error) {
+        if (!isNotFound(error)) {
+          throw error;
+        }
+      }
+    },
+
+    stat,
+
+    stream: async (key) => ((await stat(key)) ? createReadStream(resolveKey(key)) : null),
+
+    list: async (prefix) => {
+      let entries: string[];
+      try {
+        entries = await fs.readdir(root, { recursive: true });
+      } catch (error) {
+        if (isNotFound(error)) {
+          return [];
+        }
+        throw error;
+      }
+
+      const keys: string[] = [];
+      for (const entry of entries) {
+        const key = entry.split(path.sep).join('/');
+        if (key.startsWith(prefix) && (await stat(key))) {
+          keys.push(key);
+        }
+      }
+      return keys.sort();
+    },
+
+    getUrl,
+
+    // Files are served publicly, so there is nothing to sign
+    signUrl: (key) => getUrl(key),
+
+    keyFromUrl: (url) => {
+      const uploadsUrl = `${getServerUrl()}/uploads/`;
+      return url.startsWith(uploadsUrl) ? decodeURIComponent(url.slice(uploadsUrl.length).split('?')[0]) : null;
+    },
+  };
+};
@@ -0,0 +1,101 @@
+/**
+ * Mailer
+ *
+ * Common interface for sending email, so account emails work offline and a
+ * real provider can be added as another transport. The built-in transports
+ * do not send anything:
+ * - "file" (default) writes each message as a `.eml` file to MAIL_DIR and logs where
+ * - "console" prints each message to the server log
+ *
+ * Configuration:
+ * - MAIL_TRANSPORT: transport name (default "file")
+ * - MAIL_DIR: folder for the file transport (default `mail/` in the backend root)
+ * - MAIL_FROM: sender address (default "Comic Generator <no-reply@localhost>")
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+const getMailDir = (): string =>
+  process.env.MAIL_DIR ? path.resolve(process.env.MAIL_DIR) : path.join(__dirname, '../../mail');
+
+// Message in RFC 822 form, readable by mail clients
+const formatMessage = (message: MailMessage & { from: string }): string =>
+  [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text.replace(/\r?\n/g, '\r\n'),
+    '',
+  ].join('\r\n');
+
+const fileTransport: MailTransport = {
+  name: 'file',
+  async send(message) {
+    const dir = getMailDir();
+    const recipient = message.to.replace(/[^\w.@-]+/g, '_');
+    const filePath = path.join(dir, `${Date.now()}-${recipient}.eml`);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(filePath, formatMessage(message));
+    console.log(`Mail to ${message.to} ("${message.subject}") written to ${filePath}`);
+  },
+};
+
+const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(`----- Mail -----\n${formatMessage(message)}----------------`);
+  },
+};
+
+const transports: Record<string, MailTransport> = {
+  file: fileTransport,
+  console: consoleTransport,
+};
+
+/**
+ * Add a transport, e.g. one for an email provider, selectable by MAIL_TRANSPORT
+ */
+export const registerMailTransport = (transport: MailTransport): void => {
+  transports[transport.name.toLowerCase()] = transport;
+};
+
+/**
+ * Get the transport configured by MAIL_TRANSPORT
+ */
+export const getMailTransport = (): MailTransport => {
+  const name = (process.env.MAIL_TRANSPORT || 'file').toLowerCase();
+  const transport = transports[name];
+  if (!transport) {
+    throw new Error(`Unknown mail transport "${name}". Expected one of: ${Object.keys(transports).join(', ')}`);
+  }
+  return transport;
+};
+
+/**
+ * Send an email with the configured transport
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await getMailTransport().send({
+    ...message,
+    from: process.env.MAIL_FROM || 'Comic Generator <no-reply@localhost>',
+  });
+};
@@ -0,0 +1,300 @@
+/**
+ * Mock Generation Provider
+ *
+ * Deterministic offline stand-in for the model backends, selected with
+ * GENERATION_PROVIDER=mock. Scripts are canned per category and images are
+ * generated placeholder PNGs, so the full generation flow runs in CI or
+ * without network access. The same inputs always produce the same outputs.
+ *
+ * MOCK_PROVIDER_DELAY_MS adds an artificial delay to every call (default 0),
+ * which is useful for exercising job progress and streaming.
+ */
+
+import { createHash } from 'crypto';
+import zlib from 'zlib';
+import type { CharacterDescription, CharacterSignature } from './characterConsistency.js';
+import {
+  getPanelKeys,
+  LayoutTemplate,
+  LAYOUT_TEMPLATES,
+  DEFAULT_LAYOUT,
+  PanelAspectRatio,
+} from './layouts.js';
+import type {
+  ComicCategory,
+  ComicPanels,
+  FaceAnalysisResult,
+  ComicPanel,
+  DialogueStyle,
+  GenerationProvider,
+  PanelReferences,
+  PanelRewriteContext,
+  SourceType,
+  StoryArc,
+  StoryContext,
+} from './generationProvider.js';
+
+// --- Placeholder PNG rendering ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (buffer: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+};
+
+type Rgb = [number, number, number];
+
+/**
+ * Encode an RGB image as PNG, calling `pixel` for every coordinate
+ */
+const encodePng = (width: number, height: number, pixel: (x: number, y: number) => Rgb): Buffer => {
+  const raw = Buffer.alloc((width * 3 + 1) * height);
+  let offset = 0;
+  for (let y = 0; y < height; y++) {
+    raw[offset++] = 0; // Filter type: none
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = pixel(x, y);
+      raw[offset++] = r;
+      raw[offset++] = g;
+      raw[offset++] = b;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 2; // Color type: RGB
+  header[10] = 0; // Compression
+  header[11] = 0; // Filter
+  header[12] = 0; // Interlace
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+};
+
+const seedBytes = (...parts: string[]): Buffer =>
+  createHash('sha256').update(parts.join('\u0000')).digest();
+
+/**
+ * Render a framed placeholder whose colors and stripe count derive from the seed
+ */
+const renderPlaceholder = (
+  width: number,
+  height: number,
+  seed: Buffer,
+  stripes: number
+): string => {
+  const background: Rgb = [seed[0], seed[1], seed[2]];
+  const accent: Rgb = [255 - seed[0], 255 - seed[1], 255 - seed[2]];
+  const border = Math.max(4, Math.round(width / 80));
+  const stripeHeight = Math.max(1, Math.floor((height - border * 2) / (stripes * 2 + 1)));
+
+  const png = encodePng(width, height, (x, y) => {
+    if (x < border || y < border || x >= width - border || y >= height - border) {
+      return [0, 0, 0];
+    }
+    const band = Math.floor((y - border) / stripeHeight);
+    const inStripe = band % 2 === 1 && band <= stripes * 2;
+    return inStripe && x > width / 4 && x < (width * 3) / 4 ? accent : background;
+  });
+
+  return `data:image/png;base64,${png.toString('base64')}`;
+};
+
+// --- Canned scripts ---
+
+const TITLES: Record<ComicCategory, string> = {
+  'Adventure': 'The Lost Map',
+  'Fairy Tale': 'The Enchanted Garden',
+  'Mythology': 'Trial of the Ancients',
+  'Sci-Fi': 'Signal from the Stars',
+  'Superhero': 'Power Surge',
+  'Fantasy': 'The Dragon\'s Riddle',
+};
+
+const STORY_BEATS: { scene: string; narration: string; line: string; style: DialogueStyle }[] = [
+  { scene: 'stands at the edge of a bright, colorful town, ready to set out', narration: 'Every adventure starts with a single step.', line: 'Let\'s go!', style: 'speech' },
+  { scene: 'discovers a strange glowing clue hidden in an old wooden chest', narration: 'Something unexpected was waiting to be found.', line: 'What could this be?', style: 'thought' },
+  { scene: 'follows the clue through a winding forest path full of surprises', narration: 'The path was tricky, but courage led the way.', line: 'Stay close, it\'s this way!', style: 'speech' },
+  { scene: 'faces the biggest challenge yet in a dramatic showdown', narration: 'This was the moment everything had been building to.', line: 'It ends here!', style: 'speech' },
+  { scene: 'celebrates a hard-won victory as the sun sets behind them', narration: 'And so the adventure came to a happy end.', line: 'We did it!', style: 'speech' },
+];
+
+// Placeholder dimensions per panel aspect ratio
+const PANEL_SIZES: Record<PanelAspectRatio, [number, number]> = {
+  '4:3': [400, 300],
+  '16:9': [480, 270],
+  '1:1': [300, 300],
+  '3:4': [300, 400],
+};
+
+const delay = async (): Promise<void> => {
+  const ms = parseInt(process.env.MOCK_PROVIDER_DELAY_MS || '0');
+  if (ms > 0) {
+    await new Promise(resolve => setTimeout(resolve, ms));
+  }
+};
+
+// --- Provider ---
+
+export const mockProvider: GenerationProvider = {
+  name: 'mock',
+
+  async generateComicScript(
+    category: ComicCategory,
+    sourceType: SourceType,
+    _imageBase64: string,
+    characterNames: string[],
+    layout: LayoutTemplate = LAYOUT_TEMPLATES[DEFAULT_LAYOUT],
+    storyContext?: StoryContext
+  ) {
+    await delay();
+
+    const mainChar = characterNames[0] || 'The Hero';
+    const secondChar = characterNames[1] ? ` and ${characterNames[1]}` : '';
+    const cast = `${mainChar}${secondChar}`;
+
+    // Keep signatures from earlier pages, like the real provider is asked to
+    const characterSignatures: CharacterSignature[] = storyContext?.characterSignatures?.length
+      ? storyContext.characterSignatures
+      : (characterNames.length > 0 ? characterNames : [mainChar]).map((name, i) => ({
+        name,
+        outfit: i === 0 ? 'a red cape and blue shirt' : 'a green jacket and brown boots',
+        hair: i === 0 ? 'short messy brown hair' : 'long black hair in a ponytail',
+        colors: i === 0 ? 'red, blue and gold' : 'green, brown and white',
+        accessories: i === 0 ? 'a leather satchel' : 'round glasses',
+      }));
+    const outfit = `${characterSignatures[0].outfit}, drawn in comic book style with bold outlines`;
+
+    // Spread the five canned beats across however many panels the layout has
+    const panelKeys = getPanelKeys(layout);
+    const pagePrefix = storyContext ? `Page ${storyContext.pageNumber}, ` : '';
+    const panels: ComicPanels = Object.fromEntries(
+      panelKeys.map((key, i) => {
+        const beatIndex = panelKeys.length > 1
+          ? Math.round((i * (STORY_BEATS.length - 1)) / (panelKeys.length - 1))
+          : 0;
+        const beat = STORY_BEATS[beatIndex];
+        return [key, {
+          scene: `${pagePrefix}Panel ${i + 1}: ${cast}, wearing ${outfit}, ${beat.scene}.`,
+          narration: beat.narration,
+          // The characters take turns speaking
+          dialogue: [{
+            speaker: characterSignatures[i % characterSignatures.length].name,
+            text: beat.line,
+            style: beat.style,
+            position: i % characterSignatures.length === 0 ? 'Left' : 'Right',
+          }],
+        }];
+      })
+    );
+    const baseTitle = TITLES[category] || 'Untitled Adventure';
+    const title = storyContext?.title
+      || (sourceType === 'Predefined' ? baseTitle : `${baseTitle}: ${mainChar}'s Story`);
+
+    return { title, panels, characterSignatures };
+  },
+
+  async planStoryArc(
+    category: ComicCategory,
+    _sourceType: SourceType,
+    _imageBase64: string,
+    characterNames: string[],
+    pageCount: number
+  ): Promise<StoryArc> {
+    await delay();
+
+    const mainChar = characterNames[0] || 'The Hero';
+    return {
+      title: `${TITLES[category] || 'Untitled Adventure'}: The ${pageCount}-Part Saga`,
+      pages: Array.from({ length: pageCount }, (_, i) => ({
+        chapterTitle: `Chapter ${i + 1}`,
+        summary: i === pageCount - 1
+          ? `${mainChar} brings the adventure to a triumphant close.`
+          : `${mainChar} takes the next step of the journey.`,
+      })),
+    };
+  },
+
+  async rewritePanel(panel: ComicPanel, instruction: string, _context: PanelRewriteContext) {
+    await delay();
+    return {
+      scene: `${panel.scene.replace(/ Revised: .*$/, '')} Revised: ${instruction}.`,
+      narration: panel.narration,
+      dialogue: panel.dialogue,
+    };
+  },
+
+  async generatePanelImage(
+    originalImageBase64: string,
+    sceneDescription: string,
+    _characterNames: string[] = [],
+    _characterDescriptions: CharacterDescription[] = [],
+    panelIndex: number = 1,
+    layout: LayoutTemplate = LAYOUT_TEMPLATES[DEFAULT_LAYOUT],
+    references: PanelReferences = {}
+  ) {
+    await delay();
+    // Match the aspect ratio of the layout slot like the real provider's output
+    const slot = layout.panels[panelIndex - 1] || layout.panels[0];
+    const [width, height] = PANEL_SIZES[slot.aspectRatio];
+    // Reference images change the output the way they would for a real model
+    const referenceSeed = (references.characters || [])
+      .map(character => `${character.name}:${character.images.map(image => image.slice(-64)).join(',')}`)
+      .join('|');
+    return renderPlaceholder(
+      width,
+      height,
+      seedBytes('panel', sceneDescription, originalImageBase64.slice(0, 256), referenceSeed),
+      panelIndex
+    );
+  },
+
+  async editImage(imageBase64: string, prompt: string) {
+    await delay();
+    return renderPlaceholder(400, 300, seedBytes('edit', prompt, imageBase64.slice(0, 256)), 1);
+  },
+
+  async analyzeImageFaces(_imageBase64: string): Promise<FaceAnalysisResult> {
+    await delay();
+    return {
+      faceCount: 1,
+      characters: [{ gender: 'Boy', estimatedAge: 10, position: 'Center' }],
+    };
+  },
+
+  async generateCharacterVariations(imageBase64: string, gender: string) {
+    await delay();
+    return [1, 2, 3, 4].map(variation =>
+      renderPlaceholder(256, 256, seedBytes('avatar', gender, String(variation), imageBase64.slice(0, 256)), variation)
+    );
+  },
+};
@@ -0,0 +1,312 @@
+/**
+ * OpenID Connect Login
+ *
+ * Sign-in with an external identity provider (Google, Apple, a company IdP or
+ * a local mock server) using the authorization code flow with PKCE. Each
+ * authorization request gets a random state, nonce and code verifier; the
+ * verifier and nonce are kept in `oidc_login_states` under the state's hash
+ * until the provider sends the user back with a code. The code is exchanged
+ * at the provider's token endpoint and the ID token's signature (from the
+ * provider's JWKS), issuer, audience, expiry and nonce are checked.
+ *
+ * Endpoints and keys come from the issuer's discovery document
+ * (`/.well-known/openid-configuration`) and are cached.
+ *
+ * Configuration:
+ * - OIDC_ISSUER: issuer URL, e.g. https://accounts.google.com (login is off without it)
+ * - OIDC_CLIENT_ID: client id registered with the provider
+ * - OIDC_CLIENT_SECRET: client secret, if the provider requires one (public clients rely on PKCE)
+ * - OIDC_REDIRECT_URI: where the provider sends users back (default FRONTEND_URL/auth/callback)
+ * - OIDC_SCOPES: requested scopes (default "openid email profile")
+ */
+
+import { createHash, createPublicKey, randomBytes, KeyObject, JsonWebKey } from 'crypto';
+import jwt from 'jsonwebtoken';
+import pool from '../config/database.js';
+
+export interface OidcClaims {
+  issuer: string;
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;
+  redirectUri: string;
+  scopes: string;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+// Provider errors the user can fix by signing in again (bad code, expired state, ...)
+export class OidcLoginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcLoginError';
+  }
+}
+
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+// Allowed difference between our clock and the provider's
+const CLOCK_TOLERANCE_SECONDS = 60;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+let discoveryCache: { issuer: string; document: DiscoveryDocument; fetchedAt: number } | null = null;
+let jwksCache: { uri: string; keys: Map<string, KeyObject>; fetchedAt: number } | null = null;
+
+const sha256 = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+/**
+ * OIDC settings from the environment, or null if OIDC login is not configured
+ */
+export const getOidcConfig = (): OidcConfig | null => {
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/$/, '');
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) {
+    return null;
+  }
+
+  return {
+    issuer,
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || null,
+    redirectUri: process.env.OIDC_REDIRECT_URI
+      || `${(process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '')}/auth/callback`,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+  };
+};
+
+const fetchJson = async (url: string, init?: RequestInit): Promise<any> => {
+  const response = await fetch(url, init);
+  const body: any = await response.json().catch(() => null);
+  if (!response.ok) {
+    const detail = body?.error_description || body?.error || `HTTP ${response.status}`;
+    throw Object.assign(new Error(`OIDC request to ${url} failed: ${detail}`), { status: response.status, body });
+  }
+  return body;
+};
+
+const getDiscoveryDocument = async (config: OidcConfig): Promise<DiscoveryDocument> => {
+  if (
+    discoveryCache &&
+    discoveryCache.issuer === config.issuer &&
+    Date.now() - discoveryCache.fetchedAt < DISCOVERY_TTL_MS
+  ) {
+    return discoveryCache.document;
+  }
+
+  const document = await fetchJson(`${config.issuer}/.well-known/openid-configuration`) as DiscoveryDocument;
+  if (document.issuer?.replace(/\/$/, '') !== config.issuer) {
+    throw new Error(`OIDC discovery document is for issuer "${document.issuer}", expected "${config.issuer}"`);
+  }
+
+  discoveryCache = { issuer: config.issuer, document, fetchedAt: Date.now() };
+  return document;
+};
+
+/**
+ * Public key that signed an ID token. Keys are refetched when the token names
+ * one we have not seen, since providers rotate them.
+ */
+const getSigningKey = async (jwksUri: string, kid: string | undefined): Promise<KeyObject> => {
+  const findKey = () => {
+    if (!jwksCache || jwksCache.uri !== jwksUri) {
+      return null;
+    }
+    return kid ? jwksCache.keys.get(kid) ?? null : (jwksCache.keys.size === 1 ? [...jwksCache.keys.values()][0] : null);
+  };
+
+  const recentlyFetched = jwksCache?.uri === jwksUri && Date.now() - jwksCache.fetchedAt < DISCOVERY_TTL_MS;
+  let key = recentlyFetched ? findKey() : null;
+  if (!key) {
+    const { keys } = await fetchJson(jwksUri) as { keys: (JsonWebKey & { kid?: string; use?: string })[] };
+    jwksCache = {
+      uri: jwksUri,
+      keys: new Map(
+        (keys || [])
+          .filter(jwk => jwk.use === undefined || jwk.use === 'sig')
+          .map((jwk, i) => [jwk.kid ?? `key-${i}`, createPublicKey({ key: jwk, format: 'jwk' })])
+      ),
+      fetchedAt: Date.now(),
+    };
+    key = findKey();
+  }
+
+  if (!key) {
+    throw new OidcLoginError('ID token is signed with an unknown key');
+  }
+  return key;
+};
+
+/**
+ * Start a login: store the PKCE verifier and nonce, and build the URL that
+ * sends the user to the provider
+ */
+export const createAuthorizationUrl = async (): Promise<string> => {
+  const config = getOidcConfig();
+  if (!config) {
+    throw new Error('OIDC login is not configured');
+  }
+  const discovery = await getDiscoveryDocument(config);
+
+  const state = randomBytes(32).toString('base64url');
+  const nonce = randomBytes(16).toString('base64url');
+  const codeVerifier = randomBytes(48).toString('base64url');
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+  await pool.execute('DELETE FROM oidc_login_states WHERE expires_at < ?', [new Date()]);
+  await pool.execute(
+    'INSERT INTO oidc_login_states (state_hash, code_verifier, nonce, expires_at) VALUES (?, ?, ?, ?)',
+    [sha256(state), codeVerifier, nonce, new Date(Date.now() + LOGIN_STATE_TTL_MS)]
+  );
+
+  const url = new URL(discovery.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  }).toString();
+  return url.toString();
+};
+
+/**
+ * Exchange an authorization code and check the ID token it returns
+ */
+export const exchangeAuthorizationCode = async (
+  config: OidcConfig,
+  code: string,
+  codeVerifier: string,
+  nonce: string
+): Promise<OidcClaims> => {
+  const discovery = await getDiscoveryDocument(config);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUri,
+    client_id: config.clientId,
+    code_verifier: codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+  if (config.clientSecret) {
+    const methods = discovery.token_endpoint_auth_methods_supported || ['client_secret_basic'];
+    if (methods.includes('client_secret_post')) {
+      body.set('client_secret', config.clientSecret);
+    } else {
+      const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+  }
+
+  let tokens: { id_token?: string; access_token?: string };
+  try {
+    tokens = await fetchJson(discovery.token_endpoint, { method: 'POST', headers, body });
+  } catch (error: any) {
+    // The provider rejects codes that are invalid, expired or already used
+    if (error.status === 400) {
+      throw new OidcLoginError(error.body?.error_description || 'The sign-in code was rejected, please try again');
+    }
+    throw error;
+  }
+
+  if (!tokens.id_token) {
+    throw new Error('OIDC token response has no ID token');
+  }
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new OidcLoginError('ID token is malformed');
+  }
+
+  let claims: jwt.JwtPayload;
+  try {
+    claims = jwt.verify(tokens.id_token, await getSigningKey(discovery.jwks_uri, decoded.header.kid), {
+      algorithms: ID_TOKEN_ALGORITHMS,
+      issuer: discovery.issuer,
+      audience: config.clientId,
+      clockTolerance: CLOCK_TOLERANCE_SECONDS,
+    }) as jwt.JwtPayload;
+  } catch (error: any) {
+    throw new OidcLoginError(`ID token is not valid: ${error.message}`);
+  }
+
+  if (claims.nonce !== nonce) {
+    throw new OidcLoginError('ID token nonce does not match the login request');
+  }
+  if (!claims.sub) {
+    throw new OidcLoginError('ID token has no subject');
+  }
+
+  // Some providers only put the email and name in the userinfo response
+  let profile: Record<string, any> = claims;
+  if ((!claims.email || !claims.name) && discovery.userinfo_endpoint && tokens.access_token) {
+    try {
+      const userinfo = await fetchJson(discovery.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: 'application/json' },
+      });
+      // Userinfo for another subject must be ignored
+      if (userinfo?.sub === claims.sub) {
+        profile = { ...userinfo, ...claims, email: claims.email ?? userinfo.email, name: claims.name ?? userinfo.name };
+        if (!claims.email) {
+          profile.email_verified = userinfo.email_verified;
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching OIDC userinfo:', error);
+    }
+  }
+
+  return {
+    issuer: discovery.issuer,
+    subject: String(claims.sub),
+    email: typeof profile.email === 'string' ? profile.email : null,
+    // Some providers send the flag as a string
+    emailVerified: profile.email_verified === true || profile.email_verified === 'true',
+    name: typeof profile.name === 'string' ? profile.name : null,
+  };
+};
+
+/**
+ * Finish a login: use up the state of the authorization request and exchange its code
+ * @throws OidcLoginError if the state is unknown or expired, or the provider's answer is not valid
+ */
+export const completeAuthorization = async (code: string, state: string): Promise<OidcClaims> => {
+  const config = getOidcConfig();
+  if (!config) {
+    throw new Error('OIDC login is not configured');
+  }
+
+  const stateHash = sha256(state);
+  const [rows] = await pool.execute(
+    'SELECT code_verifier, nonce FROM oidc_login_states WHERE state_hash = ? AND expires_at > ?',
+    [stateHash, new Date()]
+  ) as any[];
+  // Each state works once
+  const [deleted] = await pool.execute('DELETE FROM oidc_login_states WHERE state_hash = ?', [stateHash]) as any[];
+
+  if (rows.length === 0 || deleted.affectedRows === 0) {
+    throw new OidcLoginError('Sign-in request expired or was already used, please try again');
+  }
+
+  return exchangeAuthorizationCode(config, code, rows[0].code_verifier, rows[0].nonce);
+};
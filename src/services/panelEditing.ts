@@ -0,0 +1,236 @@
+/**
+ * Panel Editing
+ *
+ * Regenerate, rewrite or edit a single panel of a saved comic in place.
+ * Regeneration uses the same inputs as the original generation: the comic's
+ * reference photo, its library characters, its stored visual signatures and
+ * a neighbouring panel as style anchor.
+ *
+ * Every change is saved together with a panel revision, so it can be undone.
+ */
+
+import pool from '../config/database.js';
+import { getGenerationProvider, ComicPanel } from './generationProvider.js';
+import type { CharacterSignature } from './characterConsistency.js';
+import { readImageAsBase64, uploadImage } from './imageUpload.js';
+import { getLayout, getPanelKeys } from './layouts.js';
+import { getComicPages, updateComicPanel, ComicPage } from './comicPages.js';
+import { buildPanelCharacterDescriptions, loadCharacterReferences } from './comicGeneration.js';
+import {
+  getCharacterReferenceImages,
+  getCharactersByIds,
+  toCharacterDescription,
+} from './characters.js';
+import { recordComicRevision, RevisionSource } from './panelRevisions.js';
+
+export interface PanelUpdate {
+  pageNumber: number;
+  key: string;
+  index: number; // 1-based position within the page layout
+  panel: ComicPanel;
+}
+
+const parseJsonColumn = <T>(value: any, fallback: T): T => {
+  try {
+    const parsed = typeof value === 'string' ? JSON.parse(value) : value;
+    return parsed ?? fallback;
+  } catch (e) {
+    console.error('Error parsing comic JSON column:', e);
+    return fallback;
+  }
+};
+
+/**
+ * Load a stored image as base64. Images may be saved as paths, as full URLs
+ * of this server's uploads, or inline by older clients.
+ */
+const loadImage = async (image: string): Promise<string> => {
+  if (image.startsWith('data:image/')) {
+    return image;
+  }
+  const uploadsIndex = image.indexOf('/uploads/');
+  return readImageAsBase64(uploadsIndex >= 0 ? image.slice(uploadsIndex + 1) : image);
+};
+
+/**
+ * Replace a panel and record the change as a revision, in one transaction
+ */
+const savePanel = async (
+  comicId: string | number,
+  pageNumber: number,
+  panelKey: string,
+  panel: ComicPanel,
+  source: RevisionSource
+): Promise<void> => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    await updateComicPanel(comicId, pageNumber, panelKey, panel, connection);
+    await recordComicRevision(comicId, source, connection);
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+/**
+ * Panels of a comic in reading order
+ */
+const readingOrder = (pages: ComicPage[]) =>
+  pages.flatMap(page =>
+    getPanelKeys(getLayout(page.layout))
+      .filter(key => page.panels[key])
+      .map(key => ({ pageNumber: page.pageNumber, key, panel: page.panels[key] }))
+  );
+
+/**
+ * Find a panel and its position in the comic
+ */
+const locatePanel = (pages: ComicPage[], pageNumber: number, panelKey: string) => {
+  const page = pages.find(p => p.pageNumber === pageNumber);
+  if (!page || !page.panels[panelKey]) {
+    return null;
+  }
+
+  const panels = readingOrder(pages);
+  const position = panels.findIndex(p => p.pageNumber === pageNumber && p.key === panelKey);
+  const layout = getLayout(page.layout);
+
+  return {
+    page,
+    layout,
+    index: getPanelKeys(layout).indexOf(panelKey) + 1,
+    before: panels.slice(0, position),
+    after: panels.slice(position + 1),
+  };
+};
+
+/**
+ * Render a panel with the comic's characters and store the image
+ */
+const renderPanel = async (
+  comic: any,
+  pages: ComicPage[],
+  pageNumber: number,
+  panelKey: string,
+  panel: ComicPanel,
+  userId: string,
+  source: RevisionSource
+): Promise<PanelUpdate | null> => {
+  const location = locatePanel(pages, pageNumber, panelKey);
+  if (!location) {
+    return null;
+  }
+
+  const characterNames: string[] = parseJsonColumn(comic.character_names, []);
+  const characterSignatures: CharacterSignature[] = parseJsonColumn(comic.character_signatures, []);
+  const characters = await getCharactersByIds(parseJsonColumn(comic.character_ids, []), userId);
+
+  // The nearest earlier panel anchors the style, or the next one for the first panel
+  const anchor = [...location.before].reverse().find(p => p.panel.imageUrl)
+    || location.after.find(p => p.panel.imageUrl);
+
+  const image = await getGenerationProvider().generatePanelImage(
+    await loadImage(comic.original_image),
+    panel.scene,
+    characterNames,
+    buildPanelCharacterDescriptions(
+      characterNames,
+      characters.map(toCharacterDescription),
+      characterSignatures
+    ),
+    location.index,
+    location.layout,
+    {
+      characters: await loadCharacterReferences(characters.map(getCharacterReferenceImages)),
+      previousPanel: anchor ? await loadImage(anchor.panel.imageUrl!).catch(() => undefined) : undefined,
+    }
+  );
+
+  const imagePath = await uploadImage(image, comic.user_id);
+  const updated: ComicPanel = { ...panel, imageUrl: imagePath };
+  await savePanel(comic.id, pageNumber, panelKey, updated, source);
+
+  return { pageNumber, key: panelKey, index: location.index, panel: updated };
+};
+
+/**
+ * Render a new image for a panel from its stored scene
+ * @returns null if the page or panel does not exist
+ */
+export const regenerateComicPanel = async (
+  comic: any,
+  pageNumber: number,
+  panelKey: string,
+  userId: string
+): Promise<PanelUpdate | null> => {
+  const pages = await getComicPages(comic.id);
+  const panel = pages.find(p => p.pageNumber === pageNumber)?.panels[panelKey];
+  if (!panel) {
+    return null;
+  }
+
+  return renderPanel(comic, pages, pageNumber, panelKey, panel, userId, 'regenerate');
+};
+
+/**
+ * Rewrite a panel's scene, narration and dialogue following an instruction, then render it again
+ * @returns null if the page or panel does not exist
+ */
+export const rewriteComicPanel = async (
+  comic: any,
+  pageNumber: number,
+  panelKey: string,
+  instruction: string,
+  userId: string
+): Promise<PanelUpdate | null> => {
+  const pages = await getComicPages(comic.id);
+  const location = locatePanel(pages, pageNumber, panelKey);
+  if (!location) {
+    return null;
+  }
+
+  const panel = location.page.panels[panelKey];
+  const rewritten = await getGenerationProvider().rewritePanel(panel, instruction, {
+    title: comic.title,
+    characterNames: parseJsonColumn(comic.character_names, []),
+    characterSignatures: parseJsonColumn(comic.character_signatures, []),
+    previousNarration: location.before.map(p => p.panel.narration).filter(Boolean),
+    nextNarration: location.after.slice(0, 2).map(p => p.panel.narration).filter(Boolean),
+  });
+
+  return renderPanel(comic, pages, pageNumber, panelKey, { ...panel, ...rewritten }, userId, 'rewrite');
+};
+
+/**
+ * Apply an edit prompt to a panel's current image
+ * @returns null if the page or panel does not exist
+ */
+export const editComicPanel = async (
+  comic: any,
+  pageNumber: number,
+  panelKey: string,
+  prompt: string
+): Promise<PanelUpdate | null> => {
+  const pages = await getComicPages(comic.id);
+  const location = locatePanel(pages, pageNumber, panelKey);
+  if (!location) {
+    return null;
+  }
+
+  const panel = location.page.panels[panelKey];
+  if (!panel.imageUrl) {
+    throw new Error('Panel has no image to edit');
+  }
+
+  const image = await getGenerationProvider().editImage(await loadImage(panel.imageUrl), prompt);
+
+  const imagePath = await uploadImage(image, comic.user_id);
+  const updated: ComicPanel = { ...panel, imageUrl: imagePath };
+  await savePanel(comic.id, pageNumber, panelKey, updated, 'edit');
+
+  return { pageNumber, key: panelKey, index: location.index, panel: updated };
+};
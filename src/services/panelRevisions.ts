@@ -0,0 +1,473 @@
+/**
+ * Panel Revisions
+ *
+ * Every change to a panel's scene, narration, dialogue or image is recorded in the
+ * `panel_revisions` table. Panels changed together share a comic-wide
+ * revision number, so a comic can be compared with or reverted to any
+ * earlier revision. A revision row only holds the panels that changed; the
+ * state of a comic at revision N is the latest row of each panel up to N.
+ *
+ * Image files stay on disk while any revision refers to them and are only
+ * deleted when those revisions are pruned. Recording a revision also refreshes
+ * the comic's entries in `comic_images`, since every panel change passes through here.
+ */
+
+import type { Connection } from 'mysql2/promise';
+import pool from '../config/database.js';
+import type { ComicPanel, ComicPanels } from './generationProvider.js';
+import { getComicPages, updateComicPage, updateComicPanel } from './comicPages.js';
+import { deleteImage, toStoredImagePath } from './imageUpload.js';
+import { getImageRecord, syncComicImages } from './images.js';
+import { normalizeDialogue } from './lettering.js';
+
+export type RevisionSource =
+  | 'original' // State before history was kept, or the baseline left by pruning
+  | 'created'
+  | 'generated'
+  | 'manual'
+  | 'regenerate'
+  | 'rewrite'
+  | 'edit'
+  | 'revert';
+
+export interface PanelRevision {
+  pageNumber: number;
+  key: string;
+  panel: ComicPanel | null; // null when the panel was removed
+}
+
+export interface ComicRevision {
+  revision: number;
+  source: RevisionSource;
+  createdAt: number;
+  panels: PanelRevision[];
+}
+
+export interface PanelDifference {
+  pageNumber: number;
+  key: string;
+  changes: ('scene' | 'narration' | 'dialogue' | 'image')[];
+  from: ComicPanel | null;
+  to: ComicPanel | null;
+}
+
+const stateKey = (pageNumber: number, key: string) => `${pageNumber}:${key}`;
+
+// Versioned panel fields, with empty values treated as missing
+const fieldValue = (value: unknown): string | null =>
+  typeof value === 'string' && value !== '' ? value : null;
+
+// Dialogue is stored as JSON, with no lines treated as missing
+const dialogueValue = (value: unknown): string | null => {
+  const dialogue = normalizeDialogue(value);
+  return dialogue.length > 0 ? JSON.stringify(dialogue) : null;
+};
+
+const mapPanel = (row: any): ComicPanel | null => {
+  if (row.scene === null && row.narration === null && row.dialogue == null && row.image_url === null) {
+    return null;
+  }
+  const dialogue = typeof row.dialogue === 'string' ? JSON.parse(row.dialogue) : row.dialogue;
+  return {
+    scene: row.scene ?? '',
+    narration: row.narration ?? '',
+    dialogue: normalizeDialogue(dialogue),
+    ...(row.image_url ? { imageUrl: row.image_url } : {}),
+  };
+};
+
+const mapPanelRevisionRow = (row: any): PanelRevision => ({
+  pageNumber: row.page_number,
+  key: row.panel_key,
+  panel: mapPanel(row),
+});
+
+/**
+ * Fields that differ between two states of a panel
+ */
+const panelChanges = (from: ComicPanel | null, to: ComicPanel | null): PanelDifference['changes'] => {
+  const changes: PanelDifference['changes'] = [];
+  if (fieldValue(from?.scene) !== fieldValue(to?.scene)) {
+    changes.push('scene');
+  }
+  if (fieldValue(from?.narration) !== fieldValue(to?.narration)) {
+    changes.push('narration');
+  }
+  if (dialogueValue(from?.dialogue) !== dialogueValue(to?.dialogue)) {
+    changes.push('dialogue');
+  }
+  if (fieldValue(from?.imageUrl) !== fieldValue(to?.imageUrl)) {
+    changes.push('image');
+  }
+  return changes;
+};
+
+/**
+ * State of every recorded panel at a revision (the latest one if omitted)
+ */
+const getPanelStates = async (
+  comicId: string | number,
+  revision: number | null,
+  db: Connection = pool
+): Promise<Map<string, PanelRevision>> => {
+  const [rows] = await db.execute(
+    `SELECT * FROM panel_revisions
+     WHERE comic_id = ? AND revision <= ?
+     ORDER BY revision`,
+    [comicId, revision ?? Number.MAX_SAFE_INTEGER]
+  ) as any[];
+
+  const states = new Map<string, PanelRevision>();
+  for (const row of rows) {
+    states.set(stateKey(row.page_number, row.panel_key), mapPanelRevisionRow(row));
+  }
+  return states;
+};
+
+/**
+ * Check that a revision of a comic exists (and has not been pruned)
+ */
+export const revisionExists = async (
+  comicId: string | number,
+  revision: number,
+  db: Connection = pool
+): Promise<boolean> => {
+  const [rows] = await db.execute(
+    'SELECT 1 FROM panel_revisions WHERE comic_id = ? AND revision = ? LIMIT 1',
+    [comicId, revision]
+  ) as any[];
+  return rows.length > 0;
+};
+
+/**
+ * Record the panels of a comic that changed since its latest revision.
+ * Run it in the transaction that changed the panels, so the change and its
+ * revision are saved together and concurrent changes get distinct numbers.
+ * @returns the new revision number, or null if no panel changed
+ */
+export const recordComicRevision = async (
+  comicId: string | number,
+  source: RevisionSource,
+  db: Connection = pool
+): Promise<number | null> => {
+  // Lock the comic row so revision numbers are assigned one at a time
+  await db.execute('SELECT id FROM comics WHERE id = ? FOR UPDATE', [comicId]);
+
+  const pages = await getComicPages(comicId, db);
+  const recorded = await getPanelStates(comicId, null, db);
+
+  const current = new Map<string, PanelRevision>();
+  for (const page of pages) {
+    for (const [key, panel] of Object.entries(page.panels)) {
+      if (panel) {
+        current.set(stateKey(page.pageNumber, key), { pageNumber: page.pageNumber, key, panel });
+      }
+    }
+  }
+
+  const changed: PanelRevision[] = [];
+  for (const [id, state] of current) {
+    if (panelChanges(recorded.get(id)?.panel ?? null, state.panel).length > 0) {
+      changed.push(state);
+    }
+  }
+  // Panels that disappeared, e.g. when a page is replaced or deleted
+  for (const [id, state] of recorded) {
+    if (state.panel && !current.has(id)) {
+      changed.push({ ...state, panel: null });
+    }
+  }
+
+  if (changed.length === 0) {
+    await syncComicImages(comicId, db);
+    return null;
+  }
+
+  const [rows] = await db.execute(
+    'SELECT COALESCE(MAX(revision), 0) AS last_revision FROM panel_revisions WHERE comic_id = ?',
+    [comicId]
+  ) as any[];
+  const revision = rows[0].last_revision + 1;
+
+  for (const { pageNumber, key, panel } of changed) {
+    await db.execute(
+      `INSERT INTO panel_revisions (comic_id, revision, source, page_number, panel_key, scene, narration, dialogue, image_url)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        comicId,
+        revision,
+        source,
+        pageNumber,
+        key,
+        fieldValue(panel?.scene),
+        fieldValue(panel?.narration),
+        dialogueValue(panel?.dialogue),
+        fieldValue(panel?.imageUrl),
+      ]
+    );
+  }
+
+  await syncComicImages(comicId, db);
+  return revision;
+};
+
+/**
+ * List a comic's revisions, newest first, optionally only those touching one page or panel
+ */
+export const listComicRevisions = async (
+  comicId: string | number,
+  filter: { pageNumber?: number; key?: string } = {}
+): Promise<ComicRevision[]> => {
+  const conditions = ['comic_id = ?'];
+  const values: any[] = [comicId];
+
+  if (filter.pageNumber !== undefined) {
+    conditions.push('page_number = ?');
+    values.push(filter.pageNumber);
+  }
+  if (filter.key !== undefined) {
+    conditions.push('panel_key = ?');
+    values.push(filter.key);
+  }
+
+  const [rows] = await pool.execute(
+    `SELECT * FROM panel_revisions
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY revision DESC, page_number, panel_key`,
+    values
+  ) as any[];
+
+  const revisions: ComicRevision[] = [];
+  for (const row of rows) {
+    let revision = revisions[revisions.length - 1];
+    if (!revision || revision.revision !== row.revision) {
+      revision = {
+        revision: row.revision,
+        source: row.source,
+        createdAt: new Date(row.created_at).getTime(),
+        panels: [],
+      };
+      revisions.push(revision);
+    }
+    revision.panels.push(mapPanelRevisionRow(row));
+  }
+
+  return revisions;
+};
+
+/**
+ * Panels that differ between two revisions of a comic
+ * @returns null if either revision does not exist
+ */
+export const compareRevisions = async (
+  comicId: string | number,
+  from: number,
+  to: number
+): Promise<PanelDifference[] | null> => {
+  if (!(await revisionExists(comicId, from)) || !(await revisionExists(comicId, to))) {
+    return null;
+  }
+
+  const fromStates = await getPanelStates(comicId, from);
+  const toStates = await getPanelStates(comicId, to);
+
+  const differences: PanelDifference[] = [];
+  for (const id of new Set([...fromStates.keys(), ...toStates.keys()])) {
+    const { pageNumber, key } = (fromStates.get(id) || toStates.get(id))!;
+    const fromPanel = fromStates.get(id)?.panel ?? null;
+    const toPanel = toStates.get(id)?.panel ?? null;
+    const changes = panelChanges(fromPanel, toPanel);
+
+    if (changes.length > 0) {
+      differences.push({ pageNumber, key, changes, from: fromPanel, to: toPanel });
+    }
+  }
+
+  return differences.sort((a, b) =>
+    a.pageNumber - b.pageNumber || parseInt(a.key.slice(3), 10) - parseInt(b.key.slice(3), 10)
+  );
+};
+
+/**
+ * Restore one panel, or every panel of the comic, to its state at a revision.
+ * The restore itself is recorded as a new 'revert' revision. Pages that did not
+ * exist at that revision are left as they are.
+ * @returns the new revision number (null if nothing changed), or null as a whole
+ * if the revision, or the panel at that revision, does not exist
+ */
+export const revertComic = async (
+  comicId: string | number,
+  revision: number,
+  target?: { pageNumber: number; key: string }
+): Promise<{ revision: number | null } | null> => {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    await connection.execute('SELECT id FROM comics WHERE id = ? FOR UPDATE', [comicId]);
+
+    if (!(await revisionExists(comicId, revision, connection))) {
+      await connection.rollback();
+      return null;
+    }
+
+    const states = await getPanelStates(comicId, revision, connection);
+    const pages = await getComicPages(comicId, connection);
+
+    if (target) {
+      const restored = states.get(stateKey(target.pageNumber, target.key))?.panel;
+      const page = pages.find(p => p.pageNumber === target.pageNumber);
+      if (!restored || !page) {
+        await connection.rollback();
+        return null;
+      }
+      // Fields that are not versioned are kept
+      await updateComicPanel(
+        comicId,
+        target.pageNumber,
+        target.key,
+        { ...page.panels[target.key], ...restored },
+        connection
+      );
+    } else {
+      for (const page of pages) {
+        const pageStates = [...states.values()].filter(state => state.pageNumber === page.pageNumber);
+        if (pageStates.length === 0) {
+          continue;
+        }
+
+        const panels: ComicPanels = {};
+        for (const { key, panel } of pageStates) {
+          if (panel) {
+            panels[key] = { ...page.panels[key], ...panel };
+          }
+        }
+        await updateComicPage(comicId, page.pageNumber, { panels }, connection);
+      }
+    }
+
+    const recorded = await recordComicRevision(comicId, 'revert', connection);
+
+    await connection.commit();
+    return { revision: recorded };
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+/**
+ * Check whether a stored image is still used by a comic, a revision, a generation job or a character.
+ * With a user id, only that user's comics, jobs and characters count (identical images of
+ * different users share one file).
+ */
+export const isImageReferenced = async (
+  imagePath: string,
+  userId: string | number | null = null,
+  db: Connection = pool
+): Promise<boolean> => {
+  const byUser = (column: string) => (userId !== null ? ` AND ${column} = ?` : '');
+  const [rows] = await db.execute(
+    `SELECT 1 FROM panel_revisions r JOIN comics c ON c.id = r.comic_id
+       WHERE r.image_url = ?${byUser('c.user_id')}
+     UNION ALL SELECT 1 FROM comic_pages p JOIN comics c ON c.id = p.comic_id
+       WHERE JSON_SEARCH(p.panels, 'one', ?) IS NOT NULL${byUser('c.user_id')}
+     UNION ALL SELECT 1 FROM comics WHERE original_image = ?${byUser('user_id')}
+     UNION ALL SELECT 1 FROM generation_jobs
+       WHERE (JSON_SEARCH(pages, 'one', ?) IS NOT NULL OR JSON_SEARCH(input, 'one', ?) IS NOT NULL)${byUser('user_id')}
+     UNION ALL SELECT 1 FROM characters
+       WHERE (reference_image = ? OR avatar_image = ?
+         OR JSON_SEARCH(reference_images, 'one', ?) IS NOT NULL
+         OR JSON_SEARCH(avatar_variations, 'one', ?) IS NOT NULL)${byUser('user_id')}
+     LIMIT 1`,
+    userId !== null
+      ? [imagePath, userId, imagePath, userId, imagePath, userId, imagePath, imagePath, userId, ...Array(4).fill(imagePath), userId]
+      : Array(9).fill(imagePath)
+  ) as any[];
+  return rows.length > 0;
+};
+
+/**
+ * Keep only the latest `keep` revisions of a comic. Older revisions collapse
+ * into a single 'original' revision holding the state they left behind, and
+ * image files no longer referenced anywhere are deleted.
+ */
+export const pruneRevisions = async (
+  comicId: string | number,
+  keep: number
+): Promise<{ prunedRevisions: number; deletedImages: string[] }> => {
+  const connection = await pool.getConnection();
+  let prunedRows: any[] = [];
+  let prunedRevisions = 0;
+
+  try {
+    await connection.beginTransaction();
+    await connection.execute('SELECT id FROM comics WHERE id = ? FOR UPDATE', [comicId]);
+
+    const [revisions] = await connection.execute(
+      'SELECT DISTINCT revision FROM panel_revisions WHERE comic_id = ? ORDER BY revision DESC',
+      [comicId]
+    ) as any[];
+
+    if (revisions.length > keep) {
+      const oldestKept = revisions[keep - 1].revision;
+      const [rows] = await connection.execute(
+        'SELECT * FROM panel_revisions WHERE comic_id = ? AND revision < ? ORDER BY revision',
+        [comicId, oldestKept]
+      ) as any[];
+
+      // The latest older row of each panel is still its state at `oldestKept`
+      const baseline = new Map<string, any>();
+      for (const row of rows) {
+        baseline.set(stateKey(row.page_number, row.panel_key), row);
+      }
+      const baselineIds = new Set(
+        [...baseline.values()].filter(row => mapPanel(row) !== null).map(row => row.id)
+      );
+      prunedRows = rows.filter((row: any) => !baselineIds.has(row.id));
+
+      if (prunedRows.length > 0) {
+        await connection.execute(
+          `DELETE FROM panel_revisions WHERE id IN (${prunedRows.map(() => '?').join(', ')})`,
+          prunedRows.map(row => row.id)
+        );
+      }
+      if (baselineIds.size > 0) {
+        await connection.execute(
+          `UPDATE panel_revisions SET revision = ?, source = 'original'
+           WHERE id IN (${[...baselineIds].map(() => '?').join(', ')})`,
+          [oldestKept - 1, ...baselineIds]
+        );
+      }
+      prunedRevisions = revisions.length - keep;
+      await syncComicImages(comicId, connection);
+    }
+
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+
+  // Files are removed after the commit, once nothing refers to them any more
+  const imagePaths = new Set(
+    prunedRows
+      .map(row => row.image_url && toStoredImagePath(row.image_url))
+      .filter((imagePath): imagePath is string => Boolean(imagePath))
+  );
+
+  const deletedImages: string[] = [];
+  for (const imagePath of imagePaths) {
+    // Files other users also uploaded are left to the cleanup sweep
+    const image = await getImageRecord(imagePath);
+    if ((image?.ownerIds.length ?? 0) <= 1 && !(await isImageReferenced(imagePath))) {
+      await deleteImage(imagePath);
+      deletedImages.push(imagePath);
+    }
+  }
+
+  return { prunedRevisions, deletedImages };
+};
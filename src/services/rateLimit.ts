@@ -0,0 +1,401 @@
+/**
+ * Rate Limits
+ *
+ * Counts requests per client IP, account or user in fixed windows, so password
+ * guessing, sign-up floods and runaway generation (each comic is several paid
+ * model calls) are cut off. Each policy has its own budget and window; a
+ * request over budget is rejected with a RateLimitError (code RATE_LIMITED).
+ *
+ * Failed logins also lock the account progressively for the IP they came
+ * from: after LOGIN_LOCKOUT_THRESHOLD failures, each further failure locks it
+ * for twice as long as the one before, up to LOGIN_LOCKOUT_MAX_MINUTES. A
+ * successful login clears that IP's failures; otherwise they are forgotten a
+ * day after the first.
+ *
+ * Guessing one account from many IPs is held back by a second, account-wide
+ * count: after LOGIN_ACCOUNT_LOCKOUT_THRESHOLD failures from any IPs, the
+ * account is locked the same progressive way, but only for IPs it has not
+ * logged in from in the last LOGIN_KNOWN_IP_DAYS. Someone who knows a user's
+ * address can therefore not lock them out where they usually log in; the
+ * trade-off is that while the account is under attack, the user has to wait
+ * out the lockout to log in from a new IP. Successful logins do not clear the
+ * account-wide count, so an attacker cannot reset it by waiting for the user.
+ *
+ * Counters live in a store selected by RATE_LIMIT_STORE:
+ * - "memory" (default) keeps them in the server process, so each server instance counts on its own
+ * - "database" keeps them in the `rate_limits` table, shared by every instance
+ * Other stores (e.g. Redis) implement RateLimitStore and are added with
+ * registerRateLimitStore. Store errors are logged and let requests through,
+ * so an outage of a shared store does not lock everyone out.
+ *
+ * Configuration (a max of 0 turns that limit off):
+ * - RATE_LIMIT_STORE: store name (default "memory")
+ * - RATE_LIMIT_AUTH_IP_MAX: login, sign-up and other auth requests per IP (default 30)
+ * - RATE_LIMIT_AUTH_ACCOUNT_MAX: password reset requests per email address (default 10)
+ * - RATE_LIMIT_AUTH_WINDOW_MINUTES: window of both auth limits (default 15)
+ * - RATE_LIMIT_GENERATION_MAX: comic, panel and avatar generation requests per user (default 20)
+ * - RATE_LIMIT_GENERATION_WINDOW_MINUTES: window of the generation limit (default 60)
+ * - RATE_LIMIT_IMAGE_EDIT_MAX: image edit requests per user (default 40)
+ * - RATE_LIMIT_IMAGE_EDIT_WINDOW_MINUTES: window of the image edit limit (default 60)
+ * - LOGIN_LOCKOUT_THRESHOLD: failed logins for an email from one IP before it is locked for that IP (default 5, 0 to disable)
+ * - LOGIN_ACCOUNT_LOCKOUT_THRESHOLD: failed logins for an email from any IPs before it is locked for unknown IPs (default 20, 0 to disable)
+ * - LOGIN_LOCKOUT_MINUTES: length of the first lockout (default 1)
+ * - LOGIN_LOCKOUT_MAX_MINUTES: longest lockout (default 60)
+ * - LOGIN_KNOWN_IP_DAYS: how long an IP an account logged in from stays exempt from its account-wide lockout (default 30)
+ */
+
+import { createHash } from 'crypto';
+import pool from '../config/database.js';
+
+export interface RateLimitCounter {
+  count: number;
+  resetAt: number; // When the window ends (ms since epoch)
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+  // Add one to a counter; a missing or expired counter starts over at 1 for `windowMs`
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+  // null if the counter does not exist or has expired
+  get(key: string): Promise<RateLimitCounter | null>;
+  // Replace a counter, e.g. to lock something until `resetAt`
+  set(key: string, count: number, resetAt: number): Promise<void>;
+  // Deleting a missing counter is not an error
+  delete(key: string): Promise<void>;
+}
+
+export type RateLimitPolicyName = 'auth-ip' | 'auth-account' | 'generation' | 'image-edit';
+
+export interface RateLimitPolicy {
+  name: RateLimitPolicyName;
+  max: number; // 0 when the limit is off
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  policy: RateLimitPolicy;
+  remaining: number;
+  resetAt: number;
+  limited: boolean;
+}
+
+/**
+ * Thrown (or sent) when a client is over a rate limit or locked out
+ */
+export class RateLimitError extends Error {
+  readonly code = 'RATE_LIMITED';
+  readonly status = 429;
+
+  constructor(message: string, readonly resetAt: number) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+
+  // Whole seconds until the client may try again, for Retry-After
+  get retryAfterSeconds(): number {
+    return Math.max(1, Math.ceil((this.resetAt - Date.now()) / 1000));
+  }
+
+  // Response body for API clients
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+      retryAfter: this.retryAfterSeconds,
+    };
+  }
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Failed logins are forgotten this long after the first one
+const LOGIN_FAILURE_MEMORY_MS = DAY_MS;
+// How often stores drop expired counters
+const SWEEP_INTERVAL_MS = 10 * MINUTE_MS;
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+const createMemoryStore = (): RateLimitStore => {
+  const counters = new Map<string, RateLimitCounter>();
+  let lastSweep = Date.now();
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    lastSweep = now;
+    for (const [key, counter] of counters) {
+      if (counter.resetAt <= now) {
+        counters.delete(key);
+      }
+    }
+  };
+
+  return {
+    name: 'memory',
+    async increment(key, windowMs) {
+      const now = Date.now();
+      sweep(now);
+      const current = counters.get(key);
+      const counter = current && current.resetAt > now
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: now + windowMs };
+      counters.set(key, counter);
+      return { ...counter };
+    },
+    async get(key) {
+      const counter = counters.get(key);
+      return counter && counter.resetAt > Date.now() ? { ...counter } : null;
+    },
+    async set(key, count, resetAt) {
+      counters.set(key, { count, resetAt });
+    },
+    async delete(key) {
+      counters.delete(key);
+    },
+  };
+};
+
+const createDatabaseStore = (): RateLimitStore => {
+  let lastSweep = 0;
+
+  const sweep = async (now: number) => {
+    if (now - lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    lastSweep = now;
+    await pool.execute('DELETE FROM rate_limits WHERE expires_at <= ?', [new Date(now)]);
+  };
+
+  return {
+    name: 'database',
+    async increment(key, windowMs) {
+      const now = Date.now();
+      await sweep(now);
+      // One statement, so concurrent requests on other instances cannot both start a new window
+      await pool.execute(
+        `INSERT INTO rate_limits (bucket_key, count, expires_at) VALUES (?, 1, ?)
+         ON DUPLICATE KEY UPDATE
+           count = IF(expires_at <= ?, 1, count + 1),
+           expires_at = IF(expires_at <= ?, ?, expires_at)`,
+        [key, new Date(now + windowMs), new Date(now), new Date(now), new Date(now + windowMs)]
+      );
+      const [rows] = await pool.execute(
+        'SELECT count, expires_at FROM rate_limits WHERE bucket_key = ?',
+        [key]
+      ) as any[];
+      return { count: rows[0].count, resetAt: new Date(rows[0].expires_at).getTime() };
+    },
+    async get(key) {
+      const [rows] = await pool.execute(
+        'SELECT count, expires_at FROM rate_limits WHERE bucket_key = ? AND expires_at > ?',
+        [key, new Date()]
+      ) as any[];
+      return rows.length > 0 ? { count: rows[0].count, resetAt: new Date(rows[0].expires_at).getTime() } : null;
+    },
+    async set(key, count, resetAt) {
+      await pool.execute(
+        `INSERT INTO rate_limits (bucket_key, count, expires_at) VALUES (?, ?, ?)
+         ON DUPLICATE KEY UPDATE count = ?, expires_at = ?`,
+        [key, count, new Date(resetAt), count, new Date(resetAt)]
+      );
+    },
+    async delete(key) {
+      await pool.execute('DELETE FROM rate_limits WHERE bucket_key = ?', [key]);
+    },
+  };
+};
+
+const stores: Record<string, () => RateLimitStore> = {
+  memory: createMemoryStore,
+  database: createDatabaseStore,
+};
+
+const instances = new Map<string, RateLimitStore>();
+
+/**
+ * Add a store, e.g. one backed by Redis, selectable by RATE_LIMIT_STORE
+ */
+export const registerRateLimitStore = (name: string, create: () => RateLimitStore): void => {
+  stores[name.toLowerCase()] = create;
+  instances.delete(name.toLowerCase());
+};
+
+/**
+ * Get the store configured by RATE_LIMIT_STORE, created once
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  const name = (process.env.RATE_LIMIT_STORE || 'memory').toLowerCase();
+  const create = stores[name];
+  if (!create) {
+    throw new Error(`Unknown rate limit store "${name}". Expected one of: ${Object.keys(stores).join(', ')}`);
+  }
+
+  let store = instances.get(name);
+  if (!store) {
+    store = create();
+    instances.set(name, store);
+  }
+  return store;
+};
+
+/**
+ * Budget and window of a policy, from the environment
+ */
+export const getRateLimitPolicy = (name: RateLimitPolicyName): RateLimitPolicy => {
+  switch (name) {
+    case 'auth-ip':
+      return {
+        name,
+        max: readNumber('RATE_LIMIT_AUTH_IP_MAX', 30),
+        windowMs: readNumber('RATE_LIMIT_AUTH_WINDOW_MINUTES', 15) * MINUTE_MS,
+      };
+    case 'auth-account':
+      return {
+        name,
+        max: readNumber('RATE_LIMIT_AUTH_ACCOUNT_MAX', 10),
+        windowMs: readNumber('RATE_LIMIT_AUTH_WINDOW_MINUTES', 15) * MINUTE_MS,
+      };
+    case 'generation':
+      return {
+        name,
+        max: readNumber('RATE_LIMIT_GENERATION_MAX', 20),
+        windowMs: readNumber('RATE_LIMIT_GENERATION_WINDOW_MINUTES', 60) * MINUTE_MS,
+      };
+    case 'image-edit':
+      return {
+        name,
+        max: readNumber('RATE_LIMIT_IMAGE_EDIT_MAX', 40),
+        windowMs: readNumber('RATE_LIMIT_IMAGE_EDIT_WINDOW_MINUTES', 60) * MINUTE_MS,
+      };
+  }
+};
+
+// Identifiers (IPs, emails) are stored hashed, so counters do not hold personal data
+const bucketKey = (scope: string, identifier: string): string =>
+  `${scope}:${createHash('sha256').update(identifier).digest('hex').slice(0, 40)}`;
+
+// Login failures and lockouts count per email address, whether or not an account has the address
+const accountKey = (email: string): string => email.trim().toLowerCase();
+
+// ...and per email address and client IP
+const loginKey = (email: string, ip: string | undefined): string => `${accountKey(email)}|${ip || ''}`;
+
+/**
+ * Count a request against a policy's budget for one client
+ * @param identifier - Who the budget belongs to: an IP, an email address or a user id
+ * @returns null if the limit is off or the store failed, otherwise the client's budget after this request
+ */
+export const consumeRateLimit = async (
+  policyName: RateLimitPolicyName,
+  identifier: string
+): Promise<RateLimitResult | null> => {
+  const policy = getRateLimitPolicy(policyName);
+  if (!(policy.max > 0) || !(policy.windowMs > 0)) {
+    return null;
+  }
+
+  try {
+    const counter = await getRateLimitStore().increment(bucketKey(policy.name, identifier), policy.windowMs);
+    return {
+      policy,
+      remaining: Math.max(0, policy.max - counter.count),
+      resetAt: counter.resetAt,
+      limited: counter.count > policy.max,
+    };
+  } catch (error) {
+    console.error('Error checking rate limit:', { policy: policy.name, error });
+    return null;
+  }
+};
+
+// Count a failed login under `scope`, locking `lockScope` once the count reaches the threshold
+const countLoginFailure = async (
+  store: RateLimitStore,
+  scope: string,
+  lockScope: string,
+  identifier: string,
+  threshold: number
+): Promise<number | null> => {
+  const failures = await store.increment(bucketKey(scope, identifier), LOGIN_FAILURE_MEMORY_MS);
+  if (failures.count < threshold) {
+    return null;
+  }
+
+  const firstLockMs = readNumber('LOGIN_LOCKOUT_MINUTES', 1) * MINUTE_MS;
+  const maxLockMs = readNumber('LOGIN_LOCKOUT_MAX_MINUTES', 60) * MINUTE_MS;
+  const lockMs = Math.min(firstLockMs * 2 ** (failures.count - threshold), maxLockMs);
+  const resetAt = Date.now() + lockMs;
+  await store.set(bucketKey(lockScope, identifier), failures.count, resetAt);
+  return resetAt;
+};
+
+// Whether the account has logged in from the IP recently
+const isKnownLoginIp = async (store: RateLimitStore, email: string, ip: string | undefined): Promise<boolean> =>
+  (await store.get(bucketKey('login-known', loginKey(email, ip)))) !== null;
+
+/**
+ * When an account's login lockout for an IP ends: its own lockout, or the
+ * account-wide one if the account has not logged in from the IP recently
+ * @returns null if the account is not locked for the IP
+ */
+export const getLoginLockout = async (email: string, ip: string | undefined): Promise<number | null> => {
+  try {
+    const store = getRateLimitStore();
+    const lock = await store.get(bucketKey('login-lock', loginKey(email, ip)));
+    if (lock) {
+      return lock.resetAt;
+    }
+    const accountLock = await store.get(bucketKey('account-lock', accountKey(email)));
+    return accountLock && !(await isKnownLoginIp(store, email, ip)) ? accountLock.resetAt : null;
+  } catch (error) {
+    console.error('Error checking login lockout:', error);
+    return null;
+  }
+};
+
+/**
+ * Count a failed login from an IP, for the IP and for the account as a whole
+ * @returns when the lockout this failure started for the IP ends, or null if it is not locked
+ */
+export const recordLoginFailure = async (email: string, ip: string | undefined): Promise<number | null> => {
+  const threshold = readNumber('LOGIN_LOCKOUT_THRESHOLD', 5);
+  const accountThreshold = readNumber('LOGIN_ACCOUNT_LOCKOUT_THRESHOLD', 20);
+
+  try {
+    const store = getRateLimitStore();
+    const ipLockEnd = threshold > 0
+      ? await countLoginFailure(store, 'login-failures', 'login-lock', loginKey(email, ip), threshold)
+      : null;
+    const accountLockEnd = accountThreshold > 0
+      ? await countLoginFailure(store, 'account-failures', 'account-lock', accountKey(email), accountThreshold)
+      : null;
+
+    if (accountLockEnd && (!ipLockEnd || accountLockEnd > ipLockEnd) && !(await isKnownLoginIp(store, email, ip))) {
+      return accountLockEnd;
+    }
+    return ipLockEnd;
+  } catch (error) {
+    console.error('Error recording login failure:', error);
+    return null;
+  }
+};
+
+/**
+ * Forget an account's failed logins from an IP after it logged in from there,
+ * and exempt the IP from the account-wide lockout for LOGIN_KNOWN_IP_DAYS
+ */
+export const recordLoginSuccess = async (email: string, ip: string | undefined): Promise<void> => {
+  const login = loginKey(email, ip);
+  try {
+    const store = getRateLimitStore();
+    await store.delete(bucketKey('login-failures', login));
+    await store.delete(bucketKey('login-lock', login));
+    await store.set(bucketKey('login-known', login), 1, Date.now() + readNumber('LOGIN_KNOWN_IP_DAYS', 30) * DAY_MS);
+  } catch (error) {
+    console.error('Error recording login success:', error);
+  }
+};
@@ -0,0 +1,77 @@
+/**
+ * Image Result Cache
+ *
+ * Model results computed from an image, such as a face analysis, are cached
+ * in `image_result_cache` by the SHA-256 hash of the image content (the same
+ * hash uploads are stored under), the operation and its parameters. The same
+ * photo analyzed again, by any user, is answered from the cache.
+ *
+ * Configuration:
+ * - RESULT_CACHE_TTL_HOURS: how long cached results are used (default 168, 0 to disable the cache)
+ */
+
+import { createHash } from 'crypto';
+import pool from '../config/database.js';
+import { decodeBase64Image } from './imageProcessing.js';
+
+const getTtlHours = (): number => parseFloat(process.env.RESULT_CACHE_TTL_HOURS || '168');
+
+const sha256 = (data: Buffer | string): string => createHash('sha256').update(data).digest('hex');
+
+/**
+ * SHA-256 hash of an image's decoded content, hex
+ * @returns null if the value is not a supported image
+ */
+export const getImageHash = (imageBase64: string): string | null => {
+  const decoded = decodeBase64Image(imageBase64);
+  return decoded ? sha256(decoded.buffer) : null;
+};
+
+/**
+ * Return the cached result of an operation on an image, or compute and cache it.
+ * Cache failures are logged and fall back to computing the result.
+ * @param operation - Name of the operation, e.g. "analyze-faces"
+ * @param params - Anything else the result depends on (provider, options)
+ */
+export const withImageResultCache = async <T>(
+  operation: string,
+  imageBase64: string,
+  params: Record<string, unknown>,
+  compute: () => Promise<T>
+): Promise<T> => {
+  const ttlHours = getTtlHours();
+  const imageHash = getImageHash(imageBase64);
+  if (!(ttlHours > 0) || !imageHash) {
+    return compute();
+  }
+
+  const paramsHash = sha256(JSON.stringify(params));
+
+  try {
+    const [rows] = await pool.execute(
+      `SELECT result FROM image_result_cache
+       WHERE image_hash = ? AND operation = ? AND params_hash = ? AND created_at > ?`,
+      [imageHash, operation, paramsHash, new Date(Date.now() - ttlHours * 60 * 60 * 1000)]
+    ) as any[];
+    if (rows.length > 0) {
+      return typeof rows[0].result === 'string' ? JSON.parse(rows[0].result) : rows[0].result;
+    }
+  } catch (error) {
+    console.error('Error reading result cache:', { operation, error });
+  }
+
+  const result = await compute();
+
+  try {
+    await pool.execute(
+      `INSERT INTO image_result_cache (image_hash, operation, params_hash, result)
+       VALUES (?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE result = VALUES(result), created_at = CURRENT_TIMESTAMP`,
+      [imageHash, operation, paramsHash, JSON.stringify(result)]
+    );
+  } catch (error) {
+    console.error('Error writing result cache:', { operation, error });
+  }
+
+  return result;
+};
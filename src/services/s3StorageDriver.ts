@@ -0,0 +1,269 @@
+/**
+ * S3 Storage Driver
+ *
+ * Keeps objects in an S3-compatible bucket (AWS S3, MinIO, R2, …), so several
+ * server instances share the same images and redeploys don't lose them.
+ * Requests are signed with AWS Signature Version 4 using Node's crypto, so no
+ * SDK is needed.
+ *
+ * Configuration:
+ * - S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY (required)
+ * - S3_REGION (default "us-east-1")
+ * - S3_ENDPOINT for S3-compatible services, e.g. "http://localhost:9000" for MinIO
+ * - S3_FORCE_PATH_STYLE: "true" for bucket-in-path URLs (default when S3_ENDPOINT is set)
+ * - S3_PUBLIC_URL: base URL of a public bucket or CDN; without it image URLs are presigned
+ * - S3_URL_EXPIRES_SECONDS: lifetime of presigned URLs (default 86400)
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { Readable } from 'stream';
+import type { StorageDriver, StoredObject } from './storage.js';
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint: string;
+  forcePathStyle: boolean;
+  accessKeyId: string;
+  secretAccessKey: string;
+  publicUrl?: string;
+  urlExpiresSeconds: number;
+}
+
+// SigV4 presigned URLs are valid for at most 7 days
+const MAX_URL_EXPIRES_SECONDS = 7 * 24 * 60 * 60;
+
+const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex');
+
+/**
+ * Read the driver configuration from the environment
+ */
+const configFromEnv = (): S3StorageConfig => {
+  const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+    throw new Error('S3 storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+
+  const region = process.env.S3_REGION || 'us-east-1';
+  return {
+    bucket: S3_BUCKET,
+    region,
+    endpoint: (process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/$/, ''),
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== undefined
+      ? process.env.S3_FORCE_PATH_STYLE === 'true'
+      : Boolean(process.env.S3_ENDPOINT),
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+    publicUrl: process.env.S3_PUBLIC_URL?.replace(/\/$/, ''),
+    urlExpiresSeconds: parseInt(process.env.S3_URL_EXPIRES_SECONDS || '86400'),
+  };
+};
+
+// Percent-encode as SigV4 expects (RFC 3986: only A-Z a-z 0-9 - _ . ~ stay as is)
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodeKey = (key: string): string => key.split('/').map(encodeRfc3986).join('/');
+
+const sha256Hex = (data: string | Buffer): string => createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string): Buffer => createHmac('sha256', key).update(data).digest();
+
+// Query parameters sorted and encoded as in a SigV4 canonical request
+const canonicalQueryString = (params: Record<string, string>): string =>
+  Object.entries(params)
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+export const createS3StorageDriver = (config: S3StorageConfig = configFromEnv()): StorageDriver => {
+  const endpoint = new URL(config.endpoint);
+
+  // Origin and path of the bucket, in path style or virtual-hosted style
+  const bucketOrigin = config.forcePathStyle
+    ? endpoint.origin
+    : `${endpoint.protocol}//${config.bucket}.${endpoint.host}`;
+  const bucketPath = config.forcePathStyle ? `/${encodeRfc3986(config.bucket)}` : '';
+
+  const objectUrl = (key: string) => new URL(`${bucketOrigin}${bucketPath}/${encodeKey(key)}`);
+
+  /**
+   * SigV4 signature of a canonical request
+   */
+  const sign = (amzDate: string, canonicalRequest: string) => {
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, date), config.region), 's3'), 'aws4_request');
+    return { scope, signature: createHmac('sha256', signingKey).update(stringToSign).digest('hex') };
+  };
+
+  const toAmzDate = (now: Date) => now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+  /**
+   * Send a signed request to the bucket
+   */
+  const request = async (
+    method: 'GET' | 'PUT' | 'HEAD' | 'DELETE',
+    url: URL,
+    query: Record<string, string> = {},
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> => {
+    const amzDate = toAmzDate(new Date());
+    const payloadHash = body ? sha256Hex(body) : EMPTY_PAYLOAD_HASH;
+    const queryString = canonicalQueryString(query);
+
+    const headers: Record<string, string> = {
+      ...Object.fromEntries(Object.entries(extraHeaders).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const headerNames = Object.keys(headers).sort();
+    const signedHeaders = headerNames.join(';');
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      queryString,
+      headerNames.map(name => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const { scope, signature } = sign(amzDate, canonicalRequest);
+    const { host, ...sentHeaders } = headers;
+
+    return fetch(`${url.origin}${url.pathname}${queryString ? `?${queryString}` : ''}`, {
+      method,
+      headers: {
+        ...sentHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body,
+    });
+  };
+
+  const fail = async (action: string, key: string, response: Response): Promise<never> => {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`S3 ${action} "${key}" failed with ${response.status}: ${detail.slice(0, 300)}`);
+  };
+
+  const signUrl = (key: string, expiresInSeconds: number = config.urlExpiresSeconds): string => {
+    const url = objectUrl(key);
+    const amzDate = toAmzDate(new Date());
+    const date = amzDate.slice(0, 8);
+    const params: Record<string, string> = {
+      'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+      'X-Amz-Credential': `${config.accessKeyId}/${date}/${config.region}/s3/aws4_request`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': String(Math.min(Math.max(1, Math.floor(expiresInSeconds)), MAX_URL_EXPIRES_SECONDS)),
+      'X-Amz-SignedHeaders': 'host',
+    };
+    const queryString = canonicalQueryString(params);
+
+    const { signature } = sign(
+      amzDate,
+      ['GET', url.pathname, queryString, `host:${url.host}\n`, 'host', 'UNSIGNED-PAYLOAD'].join('\n')
+    );
+
+    return `${url.origin}${url.pathname}?${queryString}&X-Amz-Signature=${signature}`;
+  };
+
+  const stat = async (key: string): Promise<StoredObject | null> => {
+    const response = await request('HEAD', objectUrl(key));
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      return fail('stat', key, response);
+    }
+    return {
+      key,
+      size: parseInt(response.headers.get('content-length') || '0'),
+      contentType: response.headers.get('content-type') || 'application/octet-stream',
+      lastModified: new Date(response.headers.get('last-modified') || Date.now()),
+    };
+  };
+
+  return {
+    name: 's3',
+
+    upload: async (key, data, contentType) => {
+      const response = await request('PUT', objectUrl(key), {}, data, { 'content-type': contentType });
+      if (!response.ok) {
+        await fail('upload', key, response);
+      }
+    },
+
+    delete: async (key) => {
+      const response = await request('DELETE', objectUrl(key));
+      if (!response.ok && response.status !== 404) {
+        await fail('delete', key, response);
+      }
+    },
+
+    stat,
+
+    stream: async (key) => {
+      const response = await request('GET', objectUrl(key));
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok || !response.body) {
+        return fail('download', key, response);
+      }
+      return Readable.fromWeb(response.body as any);
+    },
+
+    list: async (prefix) => {
+      const bucketUrl = new URL(`${bucketOrigin}${bucketPath || '/'}`);
+      const keys: string[] = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const response = await request('GET', bucketUrl, {
+          'list-type': '2',
+          prefix,
+          ...(continuationToken ? { 'continuation-token': continuationToken } : {}),
+        });
+        if (!response.ok) {
+          await fail('list', prefix, response);
+        }
+
+        const xml = await response.text();
+        for (const match of xml.matchAll(/<Key>([^<]*)<\/Key>/g)) {
+          keys.push(decodeXml(match[1]));
+        }
+        continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml)
+          ? decodeXml(xml.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/)?.[1] || '')
+          : undefined;
+      } while (continuationToken);
+
+      return keys;
+    },
+
+    getUrl: (key) => (config.publicUrl ? `${config.publicUrl}/${encodeKey(key)}` : signUrl(key)),
+
+    signUrl,
+
+    keyFromUrl: (url) => {
+      const bases = [
+        ...(config.publicUrl ? [`${config.publicUrl}/`] : []),
+        `${bucketOrigin}${bucketPath}/`,
+      ];
+      const base = bases.find(prefix => url.startsWith(prefix));
+      return base ? decodeURIComponent(url.slice(base.length).split('?')[0]) : null;
+    },
+  };
+};
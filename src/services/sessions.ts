@@ -0,0 +1,207 @@
+/**
+ * Sessions
+ *
+ * Every login starts a session in the `sessions` table. The client gets a
+ * short-lived access token (a JWT naming the session) and a refresh token,
+ * which is stored only as its SHA-256 hash. Each refresh replaces the
+ * refresh token; presenting a replaced one again means it was copied, so the
+ * whole session is revoked. Revoking a session (logout) also rejects its
+ * access tokens before they expire.
+ *
+ * Configuration:
+ * - REFRESH_TOKEN_EXPIRES_DAYS: days a session lasts without being refreshed (default 30)
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import pool from '../config/database.js';
+
+export interface SessionClient {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface SessionTokens {
+  sessionId: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: number;
+}
+
+export interface SessionInfo {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: number;
+  lastUsedAt: number;
+  expiresAt: number;
+}
+
+const getRefreshTokenTtlMs = (): number =>
+  parseFloat(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '30') * 24 * 60 * 60 * 1000;
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+const newRefreshToken = () => {
+  const refreshToken = randomBytes(32).toString('base64url');
+  return {
+    refreshToken,
+    hash: hashToken(refreshToken),
+    expiresAt: new Date(Date.now() + getRefreshTokenTtlMs()),
+  };
+};
+
+const mapSessionRow = (row: any): SessionInfo => ({
+  id: row.id.toString(),
+  userAgent: row.user_agent,
+  ipAddress: row.ip_address,
+  createdAt: new Date(row.created_at).getTime(),
+  lastUsedAt: new Date(row.last_used_at).getTime(),
+  expiresAt: new Date(row.expires_at).getTime(),
+});
+
+/**
+ * Start a session for a user who just logged in
+ */
+export const createSession = async (
+  userId: string | number,
+  client: SessionClient = {}
+): Promise<SessionTokens> => {
+  // Expired sessions are no longer needed to detect reused refresh tokens
+  await pool.execute('DELETE FROM sessions WHERE user_id = ? AND expires_at < ?', [userId, new Date()]);
+
+  const { refreshToken, hash, expiresAt } = newRefreshToken();
+  const [result] = await pool.execute(
+    `INSERT INTO sessions (user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    [userId, hash, client.userAgent?.slice(0, 255) || null, client.ipAddress || null, expiresAt]
+  ) as any[];
+
+  return {
+    sessionId: result.insertId.toString(),
+    refreshToken,
+    refreshTokenExpiresAt: expiresAt.getTime(),
+  };
+};
+
+/**
+ * Exchange a refresh token for a new one in the same session. A refresh token
+ * that was already exchanged revokes its session.
+ * @returns the session's user and new tokens, or null if the token is not valid
+ */
+export const rotateRefreshToken = async (
+  refreshToken: string,
+  client: SessionClient = {}
+): Promise<{ userId: string; tokens: SessionTokens } | null> => {
+  const presentedHash = hashToken(refreshToken);
+  const connection = await pool.getConnection();
+
+  try {
+    await connection.beginTransaction();
+
+    const [rows] = await connection.execute(
+      'SELECT * FROM sessions WHERE refresh_token_hash = ? FOR UPDATE',
+      [presentedHash]
+    ) as any[];
+    const session = rows[0];
+
+    if (!session) {
+      const [reused] = await connection.execute(
+        `UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+         WHERE previous_token_hash = ? AND revoked_at IS NULL`,
+        [presentedHash]
+      ) as any[];
+      if (reused.affectedRows > 0) {
+        console.warn('Replaced refresh token used again, session revoked');
+      }
+      await connection.commit();
+      return null;
+    }
+
+    if (session.revoked_at !== null || new Date(session.expires_at).getTime() <= Date.now()) {
+      await connection.rollback();
+      return null;
+    }
+
+    const { refreshToken: nextToken, hash, expiresAt } = newRefreshToken();
+    await connection.execute(
+      `UPDATE sessions
+       SET refresh_token_hash = ?, previous_token_hash = ?, expires_at = ?, last_used_at = CURRENT_TIMESTAMP,
+           user_agent = COALESCE(?, user_agent), ip_address = COALESCE(?, ip_address)
+       WHERE id = ?`,
+      [hash, presentedHash, expiresAt, client.userAgent?.slice(0, 255) || null, client.ipAddress || null, session.id]
+    );
+
+    await connection.commit();
+    return {
+      userId: session.user_id.toString(),
+      tokens: {
+        sessionId: session.id.toString(),
+        refreshToken: nextToken,
+        refreshTokenExpiresAt: expiresAt.getTime(),
+      },
+    };
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  } finally {
+    connection.release();
+  }
+};
+
+/**
+ * Check that a session of the user has not been revoked or expired
+ */
+export const isSessionActive = async (
+  sessionId: string | number,
+  userId: string | number
+): Promise<boolean> => {
+  const [rows] = await pool.execute(
+    'SELECT 1 FROM sessions WHERE id = ? AND user_id = ? AND revoked_at IS NULL AND expires_at > ?',
+    [sessionId, userId, new Date()]
+  ) as any[];
+  return rows.length > 0;
+};
+
+/**
+ * Active sessions of a user, most recently used first
+ */
+export const listSessions = async (userId: string | number): Promise<SessionInfo[]> => {
+  const [rows] = await pool.execute(
+    `SELECT * FROM sessions
+     WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+     ORDER BY last_used_at DESC, id DESC`,
+    [userId, new Date()]
+  ) as any[];
+  return rows.map(mapSessionRow);
+};
+
+/**
+ * Revoke one session of a user
+ * @returns false if the user has no such active session
+ */
+export const revokeSession = async (
+  sessionId: string | number,
+  userId: string | number
+): Promise<boolean> => {
+  const [result] = await pool.execute(
+    'UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ? AND revoked_at IS NULL',
+    [sessionId, userId]
+  ) as any[];
+  return result.affectedRows > 0;
+};
+
+/**
+ * Revoke every session of a user, e.g. to log out of all devices
+ * @param exceptSessionId - Session to keep, e.g. the one changing the password
+ * @returns the number of sessions revoked
+ */
+export const revokeAllSessions = async (
+  userId: string | number,
+  exceptSessionId: string | number | null = null
+): Promise<number> => {
+  const [result] = await pool.execute(
+    `UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+     WHERE user_id = ? AND revoked_at IS NULL${exceptSessionId !== null ? ' AND id <> ?' : ''}`,
+    exceptSessionId !== null ? [userId, exceptSessionId] : [userId]
+  ) as any[];
+  return result.affectedRows;
+};
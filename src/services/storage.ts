@@ -0,0 +1,97 @@
+/**
+ * Storage
+ *
+ * Common interface for where uploaded and generated images live. Objects are
+ * addressed by key, which is the stored image path saved in the database
+ * (e.g. "images/<sha256 of the content>.png"), so switching drivers
+ * does not touch stored data.
+ *
+ * Select the driver with STORAGE_DRIVER ("local" by default, or "s3").
+ */
+
+import type { Readable } from 'stream';
+import { createLocalStorageDriver } from './localStorageDriver.js';
+import { createS3StorageDriver } from './s3StorageDriver.js';
+
+export interface StoredObject {
+  key: string;
+  size: number; // Bytes
+  contentType: string;
+  lastModified: Date;
+}
+
+export interface StorageDriver {
+  readonly name: string;
+  upload(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Deleting a missing object is not an error
+  delete(key: string): Promise<void>;
+  // null if the object does not exist
+  stat(key: string): Promise<StoredObject | null>;
+  // null if the object does not exist
+  stream(key: string): Promise<Readable | null>;
+  // Keys of all objects starting with `prefix`
+  list(prefix: string): Promise<string[]>;
+  // URL clients can load the object from
+  getUrl(key: string): string;
+  // Time-limited URL for private objects; drivers that serve files publicly return getUrl()
+  signUrl(key: string, expiresInSeconds?: number): string;
+  // Key of an object from one of the driver's own URLs, or null for other URLs
+  keyFromUrl(url: string): string | null;
+}
+
+const drivers: Record<string, () => StorageDriver> = {
+  local: createLocalStorageDriver,
+  s3: createS3StorageDriver,
+};
+
+const instances = new Map<string, StorageDriver>();
+
+/**
+ * Get a storage driver by name, created once from its environment configuration
+ */
+export const getStorageDriver = (name: string): StorageDriver => {
+  const key = name.toLowerCase();
+  const create = drivers[key];
+  if (!create) {
+    throw new Error(`Unknown storage driver "${name}". Expected one of: ${Object.keys(drivers).join(', ')}`);
+  }
+
+  let driver = instances.get(key);
+  if (!driver) {
+    driver = create();
+    instances.set(key, driver);
+  }
+  return driver;
+};
+
+/**
+ * Get the driver configured by STORAGE_DRIVER
+ */
+export const getStorage = (): StorageDriver =>
+  getStorageDriver(process.env.STORAGE_DRIVER || 'local');
+
+/**
+ * Check that a key is a plain relative path: no empty, "." or ".." segments,
+ * backslashes or control characters, so it cannot point outside the storage root
+ */
+export const isSafeStorageKey = (key: string): boolean =>
+  key !== '' &&
+  !/[\\\x00-\x1f]/.test(key) &&
+  key.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..');
+
+/**
+ * Read a whole object into memory
+ * @returns null if the object does not exist
+ */
+export const readObject = async (driver: StorageDriver, key: string): Promise<Buffer | null> => {
+  const stream = await driver.stream(key);
+  if (!stream) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
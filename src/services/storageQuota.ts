@@ -0,0 +1,87 @@
+/**
+ * Storage Quotas
+ *
+ * Each user's storage use is the total size of the image files they own,
+ * from the `images` and `image_owners` tables. A file several users uploaded
+ * counts towards each of them. Uploads that would take a user past their quota
+ * are rejected with a StorageQuotaError (code STORAGE_QUOTA_EXCEEDED).
+ *
+ * Configuration:
+ * - USER_STORAGE_QUOTA_MB: default quota per user (default 1024, 0 for unlimited)
+ * - users.storage_quota_bytes overrides it for one user (0 for unlimited)
+ */
+
+import type { Connection } from 'mysql2/promise';
+import pool from '../config/database.js';
+
+export interface StorageUsage {
+  usedBytes: number;
+  quotaBytes: number | null; // null when unlimited
+  imageCount: number;
+}
+
+/**
+ * Thrown when an upload would exceed the owner's storage quota
+ */
+export class StorageQuotaError extends Error {
+  readonly code = 'STORAGE_QUOTA_EXCEEDED';
+  readonly status = 413;
+
+  constructor(readonly usage: StorageUsage, readonly requestedBytes: number) {
+    super('Storage quota exceeded. Delete unused images or comics to free up space.');
+    this.name = 'StorageQuotaError';
+  }
+
+  // Response body for API clients
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+      usedBytes: this.usage.usedBytes,
+      quotaBytes: this.usage.quotaBytes,
+      requestedBytes: this.requestedBytes,
+    };
+  }
+}
+
+const getDefaultQuotaBytes = (): number =>
+  parseFloat(process.env.USER_STORAGE_QUOTA_MB || '1024') * 1024 * 1024;
+
+/**
+ * Get how much storage a user uses and may use
+ */
+export const getStorageUsage = async (
+  userId: string | number,
+  db: Connection = pool
+): Promise<StorageUsage> => {
+  const [rows] = await db.execute(
+    `SELECT
+       (SELECT COALESCE(SUM(i.size), 0) FROM image_owners o JOIN images i ON i.id = o.image_id
+        WHERE o.user_id = ?) AS used_bytes,
+       (SELECT COUNT(*) FROM image_owners WHERE user_id = ?) AS image_count,
+       (SELECT storage_quota_bytes FROM users WHERE id = ?) AS quota_bytes`,
+    [userId, userId, userId]
+  ) as any[];
+
+  const quotaBytes = rows[0].quota_bytes !== null ? Number(rows[0].quota_bytes) : getDefaultQuotaBytes();
+  return {
+    usedBytes: Number(rows[0].used_bytes),
+    quotaBytes: quotaBytes > 0 ? quotaBytes : null,
+    imageCount: Number(rows[0].image_count),
+  };
+};
+
+/**
+ * Throw a StorageQuotaError if storing `additionalBytes` more would exceed the user's quota.
+ * With 0 bytes, checks that the user is not already over their quota.
+ */
+export const assertStorageQuota = async (
+  userId: string | number,
+  additionalBytes: number,
+  db: Connection = pool
+): Promise<void> => {
+  const usage = await getStorageUsage(userId, db);
+  if (usage.quotaBytes !== null && usage.usedBytes + additionalBytes > usage.quotaBytes) {
+    throw new StorageQuotaError(usage, additionalBytes);
+  }
+};